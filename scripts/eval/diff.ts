@@ -0,0 +1,16 @@
+import { diffRuns, type RunReport } from "./metrics.ts";
+
+// Compare two evaluation runs written by run.ts:
+//
+//   deno run --allow-read scripts/eval/diff.ts eval-runs/base.json eval-runs/candidate.json
+
+const [basePath, candidatePath] = Deno.args;
+if (!basePath || !candidatePath) {
+  console.error("Usage: deno run --allow-read scripts/eval/diff.ts <base-run.json> <candidate-run.json>");
+  Deno.exit(2);
+}
+
+const base: RunReport = JSON.parse(await Deno.readTextFile(basePath));
+const candidate: RunReport = JSON.parse(await Deno.readTextFile(candidatePath));
+
+console.log(diffRuns(base, candidate));
@@ -0,0 +1,291 @@
+// Scoring for the golden-set evaluation harness.
+//
+// A labelled bill is `<name>.<ext>` next to `<name>.expected.json`:
+//
+//   {
+//     "services": ["electricity"],           // expected classification: electricity | gas | meter
+//     "parsed": { "bills": { ... } }          // expected field values
+//   }
+//
+// Only the leaves present in `parsed` are scored, so labels can be partial.
+// A leaf set to null asserts the field must be absent (catches hallucinations).
+
+export type ClassifiedService = "electricity" | "gas" | "meter";
+
+export type ExpectedBill = {
+  services?: ClassifiedService[];
+  parsed: unknown;
+};
+
+export type FieldOutcomeKind = "tp" | "fn" | "fp" | "mismatch" | "tn";
+
+export type FieldOutcome = {
+  path: string;
+  expected: unknown;
+  actual: unknown;
+  outcome: FieldOutcomeKind;
+};
+
+export type CaseResult = {
+  name: string;
+  error: string | null;
+  expected_services: ClassifiedService[] | null;
+  actual_services: ClassifiedService[];
+  classification_correct: boolean | null;
+  confidence: number | null;
+  fields: FieldOutcome[];
+};
+
+export type FieldMetrics = {
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number | null;
+  recall: number | null;
+};
+
+export type CalibrationBucket = {
+  range: string;
+  count: number;
+  mean_confidence: number;
+  mean_accuracy: number;
+};
+
+export type RunSummary = {
+  cases: number;
+  errors: number;
+  overall: FieldMetrics;
+  fields: Record<string, FieldMetrics>;
+  identifier_exact_match: { matched: number; total: number; rate: number | null };
+  classification_accuracy: { correct: number; total: number; rate: number | null };
+  calibration: { buckets: CalibrationBucket[]; expected_calibration_error: number | null };
+};
+
+export type RunReport = {
+  created_at: string;
+  provider: string;
+  model: string;
+  prompt_sha256: string;
+  bills_dir: string;
+  summary: RunSummary;
+  cases: CaseResult[];
+};
+
+const IDENTIFIER_FIELDS = ["mprn", "gprn", "dg", "mcc"];
+
+const isAbsent = (value: unknown): boolean =>
+  value === null || value === undefined || value === "" || value === "0000-00-00" ||
+  (Array.isArray(value) && value.length === 0) ||
+  (typeof value === "object" && !Array.isArray(value) && Object.keys(value).length === 0);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// "bills.electricity[0].electricity_details.meter_details.mprn" -> "bills.electricity[].electricity_details.meter_details.mprn"
+export const genericPath = (path: string) => path.replace(/\[\d+\]/g, "[]");
+
+const leafName = (path: string) => path.slice(path.lastIndexOf(".") + 1).replace(/\[\]$/, "");
+
+function flattenLeaves(value: unknown, path: string, out: Array<[string, unknown]>) {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenLeaves(item, `${path}[${index}]`, out));
+  } else if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) flattenLeaves(child, path ? `${path}.${key}` : key, out);
+  } else {
+    out.push([path, value]);
+  }
+}
+
+function readPath(root: unknown, path: string): unknown {
+  let node = root;
+  for (const segment of path.match(/[^.[\]]+/g) ?? []) {
+    if (node === null || node === undefined) return undefined;
+    node = (node as Record<string, unknown>)[segment];
+  }
+  return node;
+}
+
+export function valuesEqual(expected: unknown, actual: unknown, path = ""): boolean {
+  if (typeof expected === "number" || typeof actual === "number") {
+    const a = Number(expected);
+    const b = Number(actual);
+    return Number.isFinite(a) && Number.isFinite(b) && Math.abs(a - b) < 0.005;
+  }
+  if (typeof expected === "string" && typeof actual === "string") {
+    if (IDENTIFIER_FIELDS.includes(leafName(path))) {
+      return expected.replace(/[\s-]/g, "").toUpperCase() === actual.replace(/[\s-]/g, "").toUpperCase();
+    }
+    return expected.trim().replace(/\s+/g, " ").toLowerCase() === actual.trim().replace(/\s+/g, " ").toLowerCase();
+  }
+  return JSON.stringify(expected) === JSON.stringify(actual);
+}
+
+// Score every labelled leaf of `expected` against the pipeline output
+export function compareFields(expected: unknown, actual: unknown): FieldOutcome[] {
+  const leaves: Array<[string, unknown]> = [];
+  flattenLeaves(expected, "", leaves);
+
+  return leaves.map(([path, expectedValue]) => {
+    const actualValue = readPath(actual, path);
+    let outcome: FieldOutcomeKind;
+    if (isAbsent(expectedValue)) outcome = isAbsent(actualValue) ? "tn" : "fp";
+    else if (isAbsent(actualValue)) outcome = "fn";
+    else outcome = valuesEqual(expectedValue, actualValue, path) ? "tp" : "mismatch";
+    return { path, expected: expectedValue, actual: actualValue ?? null, outcome };
+  });
+}
+
+// A wrong value is both a false positive (returned) and a false negative (the right value was missed)
+function metricsFor(outcomes: FieldOutcome[]): FieldMetrics {
+  const count = (kind: FieldOutcomeKind) => outcomes.filter((o) => o.outcome === kind).length;
+  const tp = count("tp");
+  const fp = count("fp") + count("mismatch");
+  const fn = count("fn") + count("mismatch");
+  return {
+    tp,
+    fp,
+    fn,
+    precision: tp + fp > 0 ? tp / (tp + fp) : null,
+    recall: tp + fn > 0 ? tp / (tp + fn) : null,
+  };
+}
+
+const caseAccuracy = (fields: FieldOutcome[]) =>
+  fields.length > 0 ? fields.filter((f) => f.outcome === "tp" || f.outcome === "tn").length / fields.length : 0;
+
+function calibrate(cases: CaseResult[]): RunSummary["calibration"] {
+  const scored = cases.filter((c) => c.confidence !== null && c.fields.length > 0);
+  if (scored.length === 0) return { buckets: [], expected_calibration_error: null };
+
+  const buckets: CalibrationBucket[] = [];
+  let ece = 0;
+  for (let low = 0; low < 100; low += 10) {
+    const high = low + 10;
+    const inBucket = scored.filter((c) => c.confidence! >= low && (c.confidence! < high || (high === 100 && c.confidence === 100)));
+    if (inBucket.length === 0) continue;
+
+    const meanConfidence = inBucket.reduce((sum, c) => sum + c.confidence!, 0) / inBucket.length;
+    const meanAccuracy = inBucket.reduce((sum, c) => sum + caseAccuracy(c.fields), 0) / inBucket.length;
+    buckets.push({ range: `${low}-${high}`, count: inBucket.length, mean_confidence: meanConfidence, mean_accuracy: meanAccuracy });
+    ece += (inBucket.length / scored.length) * Math.abs(meanConfidence / 100 - meanAccuracy);
+  }
+  return { buckets, expected_calibration_error: ece };
+}
+
+export function summarizeRun(cases: CaseResult[]): RunSummary {
+  const allFields = cases.flatMap((c) => c.fields);
+
+  const byField = new Map<string, FieldOutcome[]>();
+  for (const field of allFields) {
+    const key = genericPath(field.path);
+    byField.set(key, [...(byField.get(key) ?? []), field]);
+  }
+
+  const identifiers = allFields.filter((f) => IDENTIFIER_FIELDS.includes(leafName(f.path)) && !isAbsent(f.expected));
+  const matchedIdentifiers = identifiers.filter((f) => f.outcome === "tp").length;
+
+  const classified = cases.filter((c) => c.classification_correct !== null);
+  const correctlyClassified = classified.filter((c) => c.classification_correct).length;
+
+  return {
+    cases: cases.length,
+    errors: cases.filter((c) => c.error).length,
+    overall: metricsFor(allFields),
+    fields: Object.fromEntries([...byField.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([key, outcomes]) => [key, metricsFor(outcomes)])),
+    identifier_exact_match: {
+      matched: matchedIdentifiers,
+      total: identifiers.length,
+      rate: identifiers.length > 0 ? matchedIdentifiers / identifiers.length : null,
+    },
+    classification_accuracy: {
+      correct: correctlyClassified,
+      total: classified.length,
+      rate: classified.length > 0 ? correctlyClassified / classified.length : null,
+    },
+    calibration: calibrate(cases),
+  };
+}
+
+export function sameServices(expected: ClassifiedService[], actual: ClassifiedService[]): boolean {
+  return [...expected].sort().join(",") === [...actual].sort().join(",");
+}
+
+// ---------- Reporting ----------
+
+const pct = (value: number | null) => (value === null ? "  n/a" : `${(value * 100).toFixed(1).padStart(5)}%`);
+
+export function formatSummary(report: RunReport): string {
+  const { summary } = report;
+  const lines = [
+    `Run ${report.created_at} — provider ${report.provider} (${report.model}), prompt ${report.prompt_sha256.slice(0, 12)}`,
+    `${summary.cases} bill(s), ${summary.errors} error(s)`,
+    "",
+    `Overall           precision ${pct(summary.overall.precision)}  recall ${pct(summary.overall.recall)}`,
+    `Identifiers       exact match ${pct(summary.identifier_exact_match.rate)} (${summary.identifier_exact_match.matched}/${summary.identifier_exact_match.total})`,
+    `Classification    accuracy ${pct(summary.classification_accuracy.rate)} (${summary.classification_accuracy.correct}/${summary.classification_accuracy.total})`,
+    `Calibration       ECE ${summary.calibration.expected_calibration_error === null ? "n/a" : summary.calibration.expected_calibration_error.toFixed(3)}`,
+    ...summary.calibration.buckets.map((b) =>
+      `  confidence ${b.range.padEnd(6)} n=${String(b.count).padEnd(3)} mean confidence ${b.mean_confidence.toFixed(1).padStart(5)}  field accuracy ${pct(b.mean_accuracy)}`
+    ),
+    "",
+    "Per field (precision / recall):",
+    ...Object.entries(summary.fields).map(([field, m]) => `  ${pct(m.precision)} / ${pct(m.recall)}  ${field}`),
+  ];
+  return lines.join("\n");
+}
+
+// Compare two runs: headline deltas, per-field deltas and per-bill regressions
+export function diffRuns(base: RunReport, candidate: RunReport): string {
+  const delta = (a: number | null, b: number | null) => {
+    if (a === null || b === null) return "   n/a";
+    const d = (b - a) * 100;
+    return `${d >= 0 ? "+" : ""}${d.toFixed(1)}pt`.padStart(8);
+  };
+
+  const lines = [
+    `Base      ${base.created_at} ${base.provider} (${base.model}) prompt ${base.prompt_sha256.slice(0, 12)}`,
+    `Candidate ${candidate.created_at} ${candidate.provider} (${candidate.model}) prompt ${candidate.prompt_sha256.slice(0, 12)}`,
+    "",
+    `Precision        ${pct(base.summary.overall.precision)} -> ${pct(candidate.summary.overall.precision)} ${delta(base.summary.overall.precision, candidate.summary.overall.precision)}`,
+    `Recall           ${pct(base.summary.overall.recall)} -> ${pct(candidate.summary.overall.recall)} ${delta(base.summary.overall.recall, candidate.summary.overall.recall)}`,
+    `Identifiers      ${pct(base.summary.identifier_exact_match.rate)} -> ${pct(candidate.summary.identifier_exact_match.rate)} ${delta(base.summary.identifier_exact_match.rate, candidate.summary.identifier_exact_match.rate)}`,
+    `Classification   ${pct(base.summary.classification_accuracy.rate)} -> ${pct(candidate.summary.classification_accuracy.rate)} ${delta(base.summary.classification_accuracy.rate, candidate.summary.classification_accuracy.rate)}`,
+  ];
+
+  const fieldNames = [...new Set([...Object.keys(base.summary.fields), ...Object.keys(candidate.summary.fields)])].sort();
+  const changedFields = fieldNames.filter((field) => {
+    const a = base.summary.fields[field];
+    const b = candidate.summary.fields[field];
+    return !a || !b || a.precision !== b.precision || a.recall !== b.recall;
+  });
+  if (changedFields.length > 0) {
+    lines.push("", "Changed fields (precision / recall delta):");
+    for (const field of changedFields) {
+      const a = base.summary.fields[field];
+      const b = candidate.summary.fields[field];
+      lines.push(`  ${delta(a?.precision ?? null, b?.precision ?? null)} / ${delta(a?.recall ?? null, b?.recall ?? null)}  ${field}`);
+    }
+  }
+
+  const baseCases = new Map(base.cases.map((c) => [c.name, c]));
+  const caseChanges: string[] = [];
+  for (const after of candidate.cases) {
+    const before = baseCases.get(after.name);
+    if (!before) continue;
+
+    const beforeOutcomes = new Map(before.fields.map((f) => [f.path, f.outcome]));
+    const fixed = after.fields.filter((f) => f.outcome === "tp" && beforeOutcomes.get(f.path) !== "tp" && beforeOutcomes.has(f.path));
+    const broken = after.fields.filter((f) => f.outcome !== "tp" && beforeOutcomes.get(f.path) === "tp");
+    const classification = before.classification_correct !== after.classification_correct
+      ? ` classification ${before.actual_services.join("+") || "none"} -> ${after.actual_services.join("+") || "none"}`
+      : "";
+    if (fixed.length === 0 && broken.length === 0 && !classification) continue;
+
+    caseChanges.push(`  ${after.name}:${classification}`);
+    for (const f of broken) caseChanges.push(`    - ${f.path}: expected ${JSON.stringify(f.expected)}, now ${JSON.stringify(f.actual)}`);
+    for (const f of fixed) caseChanges.push(`    + ${f.path}: ${JSON.stringify(f.actual)}`);
+  }
+  if (caseChanges.length > 0) lines.push("", "Per-bill changes (- regressed, + fixed):", ...caseChanges);
+
+  return lines.join("\n");
+}
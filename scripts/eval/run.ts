@@ -0,0 +1,191 @@
+import { coerceBillOutput } from "../../supabase/functions/_shared/bill-coercion.ts";
+import { analyzeParsedBill, PARSE_PROMPT, spreadsheetContentPart } from "../../supabase/functions/_shared/bill-pipeline.ts";
+import { type DocumentText, extractDocumentText } from "../../supabase/functions/_shared/document-text.ts";
+import { spreadsheetToText } from "../../supabase/functions/_shared/spreadsheet.ts";
+import {
+  createVisionProvider,
+  isVisionProviderName,
+  sha256Hex,
+  type VisionContentPart,
+  VISION_PROVIDER_NAMES,
+} from "../../supabase/functions/_shared/vision-providers.ts";
+import {
+  type CaseResult,
+  type ClassifiedService,
+  compareFields,
+  type ExpectedBill,
+  formatSummary,
+  type RunReport,
+  sameServices,
+  summarizeRun,
+} from "./metrics.ts";
+
+// Golden-set evaluation: run every labelled bill in a directory through the
+// same prompt, coercion and analysis as onebill-vision-parse and score the
+// result against its `<name>.expected.json`.
+//
+//   deno run -A scripts/eval/run.ts --bills ./golden [--provider mock] [--model ...] [--out run.json] [--verbose]
+//
+// Nothing is dispatched and nothing is written to the database.
+
+const MIME_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".csv": "text/csv",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".xls": "application/vnd.ms-excel",
+};
+
+// --name value / --flag
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const parsed: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+    const next = argv[i + 1];
+    parsed[argv[i].slice(2)] = next !== undefined && !next.startsWith("--") ? argv[++i] : true;
+  }
+  return parsed;
+}
+
+const extname = (name: string) => (name.includes(".") ? name.slice(name.lastIndexOf(".")) : "");
+const basename = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+const join = (dir: string, name: string) => `${dir.replace(/\/$/, "")}/${name}`;
+
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+const rawArgs = parseArgs(Deno.args);
+const arg = (name: string) => (typeof rawArgs[name] === "string" ? rawArgs[name] as string : undefined);
+const args = { bills: arg("bills"), provider: arg("provider"), model: arg("model"), out: arg("out"), verbose: rawArgs.verbose === true };
+
+if (!args.bills) {
+  console.error("Usage: deno run -A scripts/eval/run.ts --bills <dir> [--provider lovable|openai|mock] [--model <model>] [--out <file>] [--verbose]");
+  Deno.exit(2);
+}
+if (args.provider !== undefined && !isVisionProviderName(args.provider)) {
+  console.error(`Unknown provider '${args.provider}' (expected one of ${VISION_PROVIDER_NAMES.join(", ")})`);
+  Deno.exit(2);
+}
+
+const billsDir = await Deno.realPath(args.bills);
+const provider = createVisionProvider({ provider: args.provider, model: args.model });
+
+// The pipeline logs every decision; keep the report readable unless asked
+async function quietly<T>(fn: () => Promise<T>): Promise<T> {
+  if (args.verbose) return fn();
+  const { log, warn } = console;
+  console.log = () => {};
+  console.warn = () => {};
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+async function evaluateBill(filePath: string, expected: ExpectedBill): Promise<CaseResult> {
+  const name = basename(filePath);
+  const ext = extname(filePath).toLowerCase();
+  const bytes = await Deno.readFile(filePath);
+  const isPdf = ext === ".pdf";
+  const isSpreadsheet = [".csv", ".xlsx", ".xls"].includes(ext);
+
+  const content: VisionContentPart[] = [{ type: "text", text: PARSE_PROMPT }];
+  let documentText: DocumentText;
+  if (isSpreadsheet) {
+    const kind = ext === ".csv" ? "CSV" : "Excel";
+    const text = spreadsheetToText(bytes, kind);
+    content.push(spreadsheetContentPart(text, kind));
+    documentText = { source: "spreadsheet", text };
+  } else {
+    const dataUrl = `data:${MIME_TYPES[ext]};base64,${encodeBase64(bytes)}`;
+    content.push(isPdf ? { type: "document", document_url: { url: dataUrl } } : { type: "image_url", image_url: { url: dataUrl } });
+    documentText = await extractDocumentText({ file: new Blob([bytes]), isPdf, imageUrls: [], ocr: null })
+      .catch(() => ({ source: "none" as const, text: "" }));
+  }
+
+  const result: CaseResult = {
+    name,
+    error: null,
+    expected_services: expected.services ?? null,
+    actual_services: [],
+    classification_correct: null,
+    confidence: null,
+    fields: [],
+  };
+
+  try {
+    const analysis = await quietly(async () => {
+      const vision = await provider.parseBill({ content, sourceUrl: new URL(`file://${filePath}`).href });
+      const { data, coercions } = coerceBillOutput(vision.toolArguments);
+      return { data, ...analyzeParsedBill(data, { coercions, documentText, isSpreadsheet }) };
+    });
+
+    result.actual_services = analysis.dispatchServices.filter((s): s is ClassifiedService => s !== "broadband");
+    result.confidence = analysis.confidenceScore;
+    result.fields = compareFields(expected.parsed, analysis.data);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    // An unparsed bill misses every labelled field
+    result.fields = compareFields(expected.parsed, {});
+  }
+
+  if (expected.services) result.classification_correct = sameServices(expected.services, result.actual_services);
+  return result;
+}
+
+const cases: CaseResult[] = [];
+const entries = [...Deno.readDirSync(billsDir)]
+  .filter((entry) => entry.isFile && MIME_TYPES[extname(entry.name).toLowerCase()])
+  .map((entry) => entry.name)
+  .sort();
+
+// PDFs are sent as documents; there is no page renderer here to fall back on like the upload page has
+const pdfs = entries.filter((name) => extname(name).toLowerCase() === ".pdf");
+if (pdfs.length > 0 && !provider.supportsDocuments) {
+  console.error(
+    `The ${provider.name} provider does not accept PDF documents, but ${billsDir} has ${pdfs.length} PDF bill(s) ` +
+      `(${pdfs.slice(0, 3).join(", ")}${pdfs.length > 3 ? ", ..." : ""}). Use --provider lovable or mock, or label page images instead.`,
+  );
+  Deno.exit(2);
+}
+
+for (const fileName of entries) {
+  const expectedPath = join(billsDir, `${fileName.slice(0, -extname(fileName).length)}.expected.json`);
+  let expected: ExpectedBill;
+  try {
+    expected = JSON.parse(await Deno.readTextFile(expectedPath));
+  } catch {
+    console.warn(`Skipping ${fileName}: no readable ${basename(expectedPath)}`);
+    continue;
+  }
+
+  const result = await evaluateBill(join(billsDir, fileName), expected);
+  const correct = result.fields.filter((f) => f.outcome === "tp" || f.outcome === "tn").length;
+  console.log(`${result.error ? "✗" : "✓"} ${fileName}: ${correct}/${result.fields.length} fields` +
+    (result.error ? ` — ${result.error}` : ` — confidence ${result.confidence}%`));
+  cases.push(result);
+}
+
+const report: RunReport = {
+  created_at: new Date().toISOString(),
+  provider: provider.name,
+  model: provider.model,
+  prompt_sha256: await sha256Hex(new TextEncoder().encode(PARSE_PROMPT).buffer),
+  bills_dir: billsDir,
+  summary: summarizeRun(cases),
+  cases,
+};
+
+const outPath = args.out ?? join("eval-runs", `${report.created_at.replace(/[:.]/g, "-")}.json`);
+if (outPath.includes("/")) await Deno.mkdir(outPath.slice(0, outPath.lastIndexOf("/")), { recursive: true });
+await Deno.writeTextFile(outPath, JSON.stringify(report, null, 2));
+
+console.log(`\n${formatSummary(report)}\n\nReport written to ${outPath}`);
@@ -6,6 +6,11 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import ApiConfigs from "./pages/ApiConfigs";
 import TrainingDocs from "./pages/TrainingDocs";
+import ParseJobs from "./pages/ParseJobs";
+import BatchUpload from "./pages/BatchUpload";
+import ReviewQueue from "./pages/ReviewQueue";
+import ReviewJob from "./pages/ReviewJob";
+import Reminders from "./pages/Reminders";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,6 +25,11 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/api-configs" element={<ApiConfigs />} />
           <Route path="/training-docs" element={<TrainingDocs />} />
+          <Route path="/jobs" element={<ParseJobs />} />
+          <Route path="/batch" element={<BatchUpload />} />
+          <Route path="/review" element={<ReviewQueue />} />
+          <Route path="/review/:jobId" element={<ReviewJob />} />
+          <Route path="/reminders" element={<Reminders />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -1,9 +1,10 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { Badge } from "@/components/ui/badge";
+import type { ParsedBill } from "@shared/bill-schema";
 
 interface AllFieldsDebugViewProps {
-  data: any;
+  data: ParsedBill | null | undefined;
 }
 
 export const AllFieldsDebugView = ({ data }: AllFieldsDebugViewProps) => {
@@ -8,6 +8,7 @@ import { supabase } from "@/integrations/supabase/client";
 interface FailedApiCall {
   type: string;
   endpoint: string;
+  config_name?: string;
   status: number;
   error?: string;
   response?: string;
@@ -84,6 +85,7 @@ export const ApiRetryPanel = ({ failedCalls, phone, filePath, onRetrySuccess }:
             <div className="flex items-center justify-between">
               <div>
                 <Badge variant="destructive" className="mb-2">{call.type.toUpperCase()}</Badge>
+                {call.config_name && <span className="ml-2 text-sm font-medium">{call.config_name}</span>}
                 <p className="text-sm text-muted-foreground">{call.endpoint}</p>
               </div>
               <Badge variant="outline">Status: {call.status}</Badge>
@@ -108,7 +110,7 @@ export const ApiRetryPanel = ({ failedCalls, phone, filePath, onRetrySuccess }:
                 Edit Payload (JSON):
               </label>
               <p className="text-xs text-muted-foreground mb-2">
-                The binary file is attached automatically. Edit only text fields (phone, mprn, mcc_type, dg_type, gprn).
+                The binary file is attached automatically. Edit only the text fields rendered from the API config parameters.
               </p>
               <Textarea
                 value={editedPayloads[key]}
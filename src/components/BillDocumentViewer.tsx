@@ -0,0 +1,191 @@
+import { useEffect, useRef, useState } from "react";
+import { Download, FileSpreadsheet, Loader2 } from "lucide-react";
+import { renderPdfPagesToBlobs } from "@/lib/pdf-to-image";
+import type { BoundingBox } from "@shared/field-provenance";
+
+// A region to outline on a page, e.g. where the model read the MPRN
+export interface DocumentHighlight {
+  field: string;
+  label: string;
+  pageNumber: number;
+  bbox: BoundingBox;
+  // Drawn in the destructive colour, e.g. when the printed text differs from the parsed value
+  mismatch?: boolean;
+}
+
+interface BillDocumentViewerProps {
+  url: string;
+  // Storage path or original file name, used to tell PDFs, CSVs and spreadsheets from images
+  name: string;
+  highlights?: DocumentHighlight[];
+  // Field whose highlight is emphasised and scrolled into view
+  activeField?: string | null;
+}
+
+const MAX_VIEWER_PAGES = 30;
+
+const IMAGE_EXTENSIONS = [".png", ".jpg", ".jpeg", ".webp", ".gif", ".bmp"];
+// Workbooks and anything else the browser cannot show are offered as a download
+const NO_PREVIEW_EXTENSIONS = [".xlsx", ".xls"];
+
+type ViewerContent =
+  | { kind: "loading" }
+  | { kind: "error"; message: string }
+  | { kind: "image" }
+  | { kind: "pdf"; pages: Array<{ pageNumber: number; url: string }> }
+  | { kind: "text"; text: string }
+  | { kind: "no_preview" };
+
+// "bills/123_usage.XLSX?token=..." -> ".xlsx"
+const extensionOf = (name: string) => {
+  const path = name.split(/[?#]/)[0].toLowerCase();
+  const dot = path.lastIndexOf(".");
+  return dot > path.lastIndexOf("/") ? path.slice(dot) : "";
+};
+
+// The uploaded bill as the operator would read it: every PDF page, the image, the CSV text,
+// or a download link for spreadsheets
+export const BillDocumentViewer = ({ url, name, highlights = [], activeField }: BillDocumentViewerProps) => {
+  const [content, setContent] = useState<ViewerContent>({ kind: "loading" });
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!activeField) return;
+    const region = containerRef.current?.querySelector(`[data-field="${CSS.escape(activeField)}"]`);
+    region?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, [activeField, content]);
+
+  useEffect(() => {
+    const extension = extensionOf(name);
+    if (IMAGE_EXTENSIONS.includes(extension)) {
+      setContent({ kind: "image" });
+      return;
+    }
+    if (NO_PREVIEW_EXTENSIONS.includes(extension)) {
+      setContent({ kind: "no_preview" });
+      return;
+    }
+
+    let cancelled = false;
+    let pageUrls: string[] = [];
+    setContent({ kind: "loading" });
+
+    (async () => {
+      if (extension !== ".pdf" && extension !== ".csv") {
+        // No telling extension: go by the stored content type
+        const head = await fetch(url, { method: "HEAD" });
+        const contentType = head.headers.get("content-type") ?? "";
+        if (!cancelled) setContent({ kind: contentType.startsWith("image/") ? "image" : "no_preview" });
+        return;
+      }
+
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Failed to load the document (${response.status})`);
+
+      if (extension === ".csv") {
+        const text = await response.text();
+        if (!cancelled) setContent({ kind: "text", text });
+        return;
+      }
+
+      const file = new File([await response.blob()], name, { type: "application/pdf" });
+      const { pages } = await renderPdfPagesToBlobs(file, {
+        maxPages: MAX_VIEWER_PAGES,
+        skipIrrelevantPages: false,
+      });
+      pageUrls = pages.map((page) => URL.createObjectURL(page.blob));
+      if (cancelled) return;
+      setContent({
+        kind: "pdf",
+        pages: pages.map((page, idx) => ({ pageNumber: page.pageNumber, url: pageUrls[idx] })),
+      });
+    })().catch((error) => {
+      if (!cancelled) setContent({ kind: "error", message: error instanceof Error ? error.message : String(error) });
+    });
+
+    return () => {
+      cancelled = true;
+      pageUrls.forEach((pageUrl) => URL.revokeObjectURL(pageUrl));
+    };
+  }, [url, name]);
+
+  if (content.kind === "loading") {
+    return (
+      <div className="flex items-center justify-center py-24 text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" />
+        Rendering document...
+      </div>
+    );
+  }
+
+  if (content.kind === "error") {
+    return (
+      <div className="p-4 text-sm text-destructive">
+        {content.message}.{" "}
+        <a href={url} target="_blank" rel="noreferrer" className="underline">Open the original</a>
+      </div>
+    );
+  }
+
+  if (content.kind === "text") {
+    return <pre className="p-4 text-xs font-mono whitespace-pre overflow-auto">{content.text}</pre>;
+  }
+
+  if (content.kind === "no_preview") {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-sm text-muted-foreground gap-3">
+        <FileSpreadsheet className="h-10 w-10" />
+        <p>No preview is available for this file.</p>
+        <a href={url} download={name.split("/").pop()} className="inline-flex items-center underline">
+          <Download className="h-4 w-4 mr-1" />
+          Download the original
+        </a>
+      </div>
+    );
+  }
+
+  const renderHighlights = (pageNumber: number) =>
+    highlights
+      .filter((highlight) => highlight.pageNumber === pageNumber)
+      .map((highlight) => {
+        const active = highlight.field === activeField;
+        const colour = highlight.mismatch ? "border-destructive bg-destructive/10" : "border-primary bg-primary/10";
+        return (
+          <div
+            key={highlight.field}
+            data-field={highlight.field}
+            title={highlight.label}
+            className={`absolute border-2 rounded-sm ${colour} ${active ? "ring-4 ring-primary/40" : "opacity-70"}`}
+            style={{
+              left: `${highlight.bbox.x * 100}%`,
+              top: `${highlight.bbox.y * 100}%`,
+              width: `${highlight.bbox.width * 100}%`,
+              height: `${highlight.bbox.height * 100}%`,
+            }}
+          />
+        );
+      });
+
+  if (content.kind === "image") {
+    return (
+      <div ref={containerRef} className="relative">
+        <img src={url} alt={name} className="w-full h-auto" />
+        {renderHighlights(1)}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className="space-y-4">
+      {content.pages.map((page) => (
+        <figure key={page.pageNumber} className="space-y-1">
+          <div className="relative">
+            <img src={page.url} alt={`Page ${page.pageNumber}`} className="w-full h-auto border rounded" />
+            {renderHighlights(page.pageNumber)}
+          </div>
+          <figcaption className="text-xs text-muted-foreground text-center">Page {page.pageNumber}</figcaption>
+        </figure>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Input } from "@/components/ui/input";
+import { draftForValue, parseFieldInput, type BillFieldEditor, type BillFieldKind } from "@/lib/bill-edit";
+
+interface BillFieldProps {
+  editor?: BillFieldEditor;
+  path: string;
+  value: string | number | null | undefined;
+  kind?: BillFieldKind;
+  // Read-only rendering; defaults to the raw value
+  display?: ReactNode;
+  className?: string;
+}
+
+const toDraft = (value: string | number | null | undefined) => (value === null || value === undefined ? "" : String(value));
+
+// A parsed value that turns into an input when the breakdown is given an editor
+export const BillField = ({ editor, path, value, kind = "text", display, className }: BillFieldProps) => {
+  const [draft, setDraft] = useState(toDraft(value));
+  const [inputError, setInputError] = useState<string | null>(null);
+
+  // Follow outside changes (e.g. a reset) without rewriting what is being typed
+  useEffect(() => {
+    setDraft((current) => draftForValue(kind, current, value));
+  }, [kind, value]);
+
+  if (!editor) return <>{display ?? (value || "N/A")}</>;
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    const parsed = parseFieldInput(kind, text);
+    setInputError(parsed.error ?? null);
+    if (!parsed.error) editor.onChange(path, parsed.value);
+  };
+
+  const error = inputError ?? editor.errors[path];
+  return (
+    <span className={`inline-block align-middle ${className ?? ""}`}>
+      <Input
+        type={kind === "date" ? "date" : "text"}
+        inputMode={kind === "number" ? "decimal" : undefined}
+        value={draft}
+        onChange={(e) => handleChange(e.target.value)}
+        aria-invalid={!!error}
+        title={path}
+        className={`h-8 text-sm ${error ? "border-destructive" : editor.edited.has(path) ? "border-primary" : ""}`}
+      />
+      {error && <span className="block text-xs text-destructive mt-1">{error}</span>}
+    </span>
+  );
+};
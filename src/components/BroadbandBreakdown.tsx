@@ -1,11 +1,19 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BillField } from "@/components/BillField";
+import type { BillFieldEditor } from "@/lib/bill-edit";
+import type { BroadbandBill } from "@shared/bill-schema";
+import { formatBillingPeriod } from "@shared/dates";
 
 interface BroadbandBreakdownProps {
-  data: any[];
+  data: BroadbandBill[] | undefined;
+  // Makes every field editable (review screen)
+  editor?: BillFieldEditor;
 }
 
-export const BroadbandBreakdown = ({ data }: BroadbandBreakdownProps) => {
+const BASE = "bills.broadband[0]";
+
+export const BroadbandBreakdown = ({ data, editor }: BroadbandBreakdownProps) => {
   if (!data || data.length === 0) {
     return (
       <Card>
@@ -20,6 +28,13 @@ export const BroadbandBreakdown = ({ data }: BroadbandBreakdownProps) => {
   }
 
   const bill = data[0];
+  const phoneNumbers = [
+    ...(bill.broadband_details?.phone_numbers ?? []).map((number) => ({ number, type: "Account" })),
+    ...(bill.service_details?.home_phone_number ? [{ number: bill.service_details.home_phone_number, type: "Home" }] : []),
+    ...(bill.service_details?.mobile_phone_numbers ?? []).map((number) => ({ number, type: "Mobile" })),
+  ];
+  const formatEuro = (value: number | undefined) => `€${value?.toFixed(2) || '0.00'}`;
+  const period = bill.supplier_details?.billing_period;
 
   return (
     <Card>
@@ -36,22 +51,33 @@ export const BroadbandBreakdown = ({ data }: BroadbandBreakdownProps) => {
             <TableBody>
               <TableRow>
                 <TableCell className="font-medium">Supplier</TableCell>
-                <TableCell>{bill.supplier || 'N/A'}</TableCell>
+                <TableCell>
+                  <BillField editor={editor} path={`${BASE}.supplier_details.name`} value={bill.supplier_details?.name} />
+                </TableCell>
               </TableRow>
               <TableRow>
                 <TableCell className="font-medium">Account Number</TableCell>
-                <TableCell className="font-mono">{bill.account_no || 'N/A'}</TableCell>
+                <TableCell className="font-mono">
+                  <BillField editor={editor} path={`${BASE}.broadband_details.account_number`} value={bill.broadband_details?.account_number} />
+                </TableCell>
               </TableRow>
               <TableRow>
                 <TableCell className="font-medium">Package</TableCell>
-                <TableCell>{bill.package || 'N/A'}</TableCell>
+                <TableCell>
+                  <BillField
+                    editor={editor}
+                    path={`${BASE}.package_information.package_name`}
+                    value={bill.package_information?.package_name}
+                    display={bill.package_information?.package_name || bill.supplier_details?.tariff_name || 'N/A'}
+                  />
+                </TableCell>
               </TableRow>
             </TableBody>
           </Table>
         </div>
 
         {/* Phone Numbers */}
-        {bill.phone_no && bill.phone_no.length > 0 && (
+        {phoneNumbers.length > 0 && (
           <div>
             <h4 className="font-semibold mb-3 text-sm text-muted-foreground uppercase tracking-wider">Phone Numbers</h4>
             <Table>
@@ -62,10 +88,10 @@ export const BroadbandBreakdown = ({ data }: BroadbandBreakdownProps) => {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {bill.phone_no.map((phone: any, idx: number) => (
+                {phoneNumbers.map((phone, idx) => (
                   <TableRow key={idx}>
-                    <TableCell className="font-mono">{phone.phone_no || 'N/A'}</TableCell>
-                    <TableCell>{phone.phone_type || 'N/A'}</TableCell>
+                    <TableCell className="font-mono">{phone.number || 'N/A'}</TableCell>
+                    <TableCell>{phone.type}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -78,21 +104,50 @@ export const BroadbandBreakdown = ({ data }: BroadbandBreakdownProps) => {
           <h4 className="font-semibold mb-3 text-sm text-muted-foreground uppercase tracking-wider">Billing Period</h4>
           <Table>
             <TableBody>
-              <TableRow>
-                <TableCell className="font-medium">Period Start</TableCell>
-                <TableCell>{bill.period_start || 'N/A'}</TableCell>
-              </TableRow>
-              <TableRow>
-                <TableCell className="font-medium">Period End</TableCell>
-                <TableCell>{bill.period_end || 'N/A'}</TableCell>
-              </TableRow>
+              {editor ? (
+                <>
+                  <TableRow>
+                    <TableCell className="font-medium">Period Start</TableCell>
+                    <TableCell>
+                      <BillField editor={editor} path={`${BASE}.supplier_details.billing_period.start_date`} value={period?.start_date} kind="date" />
+                    </TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell className="font-medium">Period End</TableCell>
+                    <TableCell>
+                      <BillField editor={editor} path={`${BASE}.supplier_details.billing_period.end_date`} value={period?.end_date} kind="date" />
+                    </TableCell>
+                  </TableRow>
+                </>
+              ) : (
+                <TableRow>
+                  <TableCell className="font-medium">Billing Period</TableCell>
+                  <TableCell>{formatBillingPeriod(period) || 'N/A'}</TableCell>
+                </TableRow>
+              )}
               <TableRow>
                 <TableCell className="font-medium">Bill Date</TableCell>
-                <TableCell>{bill.bill_date || 'N/A'}</TableCell>
+                <TableCell>
+                  <BillField editor={editor} path={`${BASE}.supplier_details.issue_date`} value={bill.supplier_details?.issue_date} kind="date" />
+                </TableCell>
               </TableRow>
               <TableRow>
                 <TableCell className="font-medium">Payment Due Date</TableCell>
-                <TableCell>{bill.payment_due_date || 'N/A'}</TableCell>
+                <TableCell>
+                  <BillField
+                    editor={editor}
+                    path={`${BASE}.financial_information.payment_due_date`}
+                    value={bill.financial_information?.payment_due_date}
+                    kind="date"
+                    display={bill.financial_information?.payment_due_date || bill.financial_information?.due_date || 'N/A'}
+                  />
+                </TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-medium">Contract End</TableCell>
+                <TableCell>
+                  <BillField editor={editor} path={`${BASE}.package_information.contract_end_date`} value={bill.package_information?.contract_end_date} kind="date" />
+                </TableCell>
               </TableRow>
             </TableBody>
           </Table>
@@ -104,47 +159,50 @@ export const BroadbandBreakdown = ({ data }: BroadbandBreakdownProps) => {
           <Table>
             <TableBody>
               <TableRow>
-                <TableCell className="font-medium">Previous Balance</TableCell>
-                <TableCell>€{bill.previous_balance?.toFixed(2) || '0.00'}</TableCell>
+                <TableCell className="font-medium">Previous Bill</TableCell>
+                <TableCell>
+                  <BillField
+                    editor={editor}
+                    path={`${BASE}.financial_information.previous_bill_amount`}
+                    value={bill.financial_information?.previous_bill_amount}
+                    kind="number"
+                    display={formatEuro(bill.financial_information?.previous_bill_amount)}
+                  />
+                </TableCell>
               </TableRow>
               <TableRow>
-                <TableCell className="font-medium">Current Charges</TableCell>
-                <TableCell>€{bill.current_charges?.toFixed(2) || '0.00'}</TableCell>
+                <TableCell className="font-medium">Amount Due</TableCell>
+                <TableCell>
+                  <BillField
+                    editor={editor}
+                    path={`${BASE}.financial_information.amount_due`}
+                    value={bill.financial_information?.amount_due}
+                    kind="number"
+                    display={formatEuro(bill.financial_information?.amount_due)}
+                  />
+                </TableCell>
               </TableRow>
               <TableRow>
-                <TableCell className="font-medium">VAT</TableCell>
-                <TableCell>€{bill.vat?.toFixed(2) || '0.00'}</TableCell>
+                <TableCell className="font-medium">Payment Method</TableCell>
+                <TableCell>
+                  <BillField editor={editor} path={`${BASE}.financial_information.payment_method`} value={bill.financial_information?.payment_method} />
+                </TableCell>
               </TableRow>
               <TableRow className="border-t-2">
                 <TableCell className="font-bold">Total Amount Due</TableCell>
-                <TableCell className="font-bold text-lg">€{bill.total_amount_due?.toFixed(2) || '0.00'}</TableCell>
+                <TableCell className="font-bold text-lg">
+                  <BillField
+                    editor={editor}
+                    path={`${BASE}.financial_information.total_due`}
+                    value={bill.financial_information?.total_due}
+                    kind="number"
+                    display={formatEuro(bill.financial_information?.total_due)}
+                  />
+                </TableCell>
               </TableRow>
             </TableBody>
           </Table>
         </div>
-
-        {/* Additional Charges */}
-        {bill.other_charges && bill.other_charges.length > 0 && (
-          <div>
-            <h4 className="font-semibold mb-3 text-sm text-muted-foreground uppercase tracking-wider">Additional Charges</h4>
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Description</TableHead>
-                  <TableHead className="text-right">Amount</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {bill.other_charges.map((charge: any, idx: number) => (
-                  <TableRow key={idx}>
-                    <TableCell>{charge.description || 'N/A'}</TableCell>
-                    <TableCell className="text-right">€{charge.amount?.toFixed(2) || '0.00'}</TableCell>
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          </div>
-        )}
       </CardContent>
     </Card>
   );
@@ -1,9 +1,10 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import type { CustomerDetails, ParsedBill } from "@shared/bill-schema";
 
 interface CustomerDetailsBreakdownProps {
-  data: any;
+  data: ParsedBill | null | undefined;
 }
 
 export const CustomerDetailsBreakdown = ({ data }: CustomerDetailsBreakdownProps) => {
@@ -21,6 +22,9 @@ export const CustomerDetailsBreakdown = ({ data }: CustomerDetailsBreakdownProps
   }
 
   const customer = data.bills.cus_details[0];
+  const details: NonNullable<CustomerDetails["details"]> = customer.details ?? {};
+  const address: NonNullable<typeof details.address> = details.address ?? {};
+  const services: NonNullable<CustomerDetails["services"]> = customer.services ?? {};
 
   return (
     <Card>
@@ -37,7 +41,7 @@ export const CustomerDetailsBreakdown = ({ data }: CustomerDetailsBreakdownProps
             <TableBody>
               <TableRow>
                 <TableCell className="font-medium">Name</TableCell>
-                <TableCell>{customer.name || 'N/A'}</TableCell>
+                <TableCell>{details.customer_name || 'N/A'}</TableCell>
               </TableRow>
             </TableBody>
           </Table>
@@ -50,25 +54,25 @@ export const CustomerDetailsBreakdown = ({ data }: CustomerDetailsBreakdownProps
             <TableBody>
               <TableRow>
                 <TableCell className="font-medium">Address Line 1</TableCell>
-                <TableCell>{customer.line_1 || 'N/A'}</TableCell>
+                <TableCell>{address.line_1 || 'N/A'}</TableCell>
               </TableRow>
-              {customer.line_2 && (
+              {address.line_2 && (
                 <TableRow>
                   <TableCell className="font-medium">Address Line 2</TableCell>
-                  <TableCell>{customer.line_2}</TableCell>
+                  <TableCell>{address.line_2}</TableCell>
                 </TableRow>
               )}
               <TableRow>
                 <TableCell className="font-medium">City</TableCell>
-                <TableCell>{customer.city || 'N/A'}</TableCell>
+                <TableCell>{address.city || 'N/A'}</TableCell>
               </TableRow>
               <TableRow>
                 <TableCell className="font-medium">County</TableCell>
-                <TableCell>{customer.county || 'N/A'}</TableCell>
+                <TableCell>{address.county || 'N/A'}</TableCell>
               </TableRow>
               <TableRow>
                 <TableCell className="font-medium">Eircode</TableCell>
-                <TableCell className="font-mono">{customer.eircode || 'N/A'}</TableCell>
+                <TableCell className="font-mono">{address.eircode || 'N/A'}</TableCell>
               </TableRow>
             </TableBody>
           </Table>
@@ -78,14 +82,14 @@ export const CustomerDetailsBreakdown = ({ data }: CustomerDetailsBreakdownProps
         <div>
           <h4 className="font-semibold mb-3 text-sm text-muted-foreground uppercase tracking-wider">Services</h4>
           <div className="flex gap-2 flex-wrap">
-            <Badge variant={customer.electricity ? "default" : "outline"}>
-              ⚡ Electricity {customer.electricity ? "✓" : "✗"}
+            <Badge variant={services.electricity ? "default" : "outline"}>
+              ⚡ Electricity {services.electricity ? "✓" : "✗"}
             </Badge>
-            <Badge variant={customer.gas ? "default" : "outline"}>
-              🔥 Gas {customer.gas ? "✓" : "✗"}
+            <Badge variant={services.gas ? "default" : "outline"}>
+              🔥 Gas {services.gas ? "✓" : "✗"}
             </Badge>
-            <Badge variant={customer.broadband ? "default" : "outline"}>
-              📡 Broadband {customer.broadband ? "✓" : "✗"}
+            <Badge variant={services.broadband ? "default" : "outline"}>
+              📡 Broadband {services.broadband ? "✓" : "✗"}
             </Badge>
           </div>
         </div>
@@ -1,15 +1,25 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { InfoGrid } from "@/components/InfoGrid";
+import { BillField } from "@/components/BillField";
+import type { BillFieldEditor } from "@/lib/bill-edit";
+import type { ElectricityBill } from "@shared/bill-schema";
+import { formatBillingPeriod } from "@shared/dates";
 
 interface ElectricityBillBreakdownProps {
-  data: any;
+  data: ElectricityBill[] | undefined;
+  // Makes every field editable (review screen)
+  editor?: BillFieldEditor;
 }
 
-export const ElectricityBillBreakdown = ({ data }: ElectricityBillBreakdownProps) => {
+const BASE = "bills.electricity[0]";
+
+export const ElectricityBillBreakdown = ({ data, editor }: ElectricityBillBreakdownProps) => {
   if (!data || data.length === 0) return null;
 
   const bill = data[0]; // First electricity bill
+  const period = bill.supplier_details?.billing_period;
+  const rates = bill.charges_and_usage?.unit_rates;
 
   return (
     <div className="space-y-4">
@@ -19,14 +29,19 @@ export const ElectricityBillBreakdown = ({ data }: ElectricityBillBreakdownProps
           <CardTitle className="text-lg">⚡ Electricity Bill Details</CardTitle>
         </CardHeader>
         <CardContent>
-          <InfoGrid items={[
-            { label: "Supplier", value: bill.supplier_details?.name },
-            { label: "Tariff", value: bill.supplier_details?.tariff_name },
-            { label: "Invoice Number", value: bill.electricity_details?.invoice_number },
-            { label: "Account Number", value: bill.electricity_details?.account_number },
-            { label: "Issue Date", value: bill.supplier_details?.issue_date },
-            { label: "Billing Period", value: bill.supplier_details?.billing_period },
-            { label: "Contract End", value: bill.electricity_details?.contract_end_date }
+          <InfoGrid editor={editor} items={[
+            { label: "Supplier", value: bill.supplier_details?.name, path: `${BASE}.supplier_details.name` },
+            { label: "Tariff", value: bill.supplier_details?.tariff_name, path: `${BASE}.supplier_details.tariff_name` },
+            { label: "Invoice Number", value: bill.electricity_details?.invoice_number, path: `${BASE}.electricity_details.invoice_number` },
+            { label: "Account Number", value: bill.electricity_details?.account_number, path: `${BASE}.electricity_details.account_number` },
+            { label: "Issue Date", value: bill.supplier_details?.issue_date, path: `${BASE}.supplier_details.issue_date`, kind: "date" },
+            ...(editor
+              ? [
+                { label: "Period Start", value: period?.start_date, path: `${BASE}.supplier_details.billing_period.start_date`, kind: "date" as const },
+                { label: "Period End", value: period?.end_date, path: `${BASE}.supplier_details.billing_period.end_date`, kind: "date" as const },
+              ]
+              : [{ label: "Billing Period", value: formatBillingPeriod(period) }]),
+            { label: "Contract End", value: bill.electricity_details?.contract_end_date, path: `${BASE}.electricity_details.contract_end_date`, kind: "date" }
           ]} />
         </CardContent>
       </Card>
@@ -37,11 +52,11 @@ export const ElectricityBillBreakdown = ({ data }: ElectricityBillBreakdownProps
           <CardTitle className="text-base">Meter Information</CardTitle>
         </CardHeader>
         <CardContent>
-          <InfoGrid columns={4} items={[
-            { label: "MPRN", value: bill.electricity_details?.meter_details?.mprn },
-            { label: "DG", value: bill.electricity_details?.meter_details?.dg },
-            { label: "MCC", value: bill.electricity_details?.meter_details?.mcc },
-            { label: "Profile", value: bill.electricity_details?.meter_details?.profile }
+          <InfoGrid columns={4} editor={editor} items={[
+            { label: "MPRN", value: bill.electricity_details?.meter_details?.mprn, path: `${BASE}.electricity_details.meter_details.mprn` },
+            { label: "DG", value: bill.electricity_details?.meter_details?.dg, path: `${BASE}.electricity_details.meter_details.dg` },
+            { label: "MCC", value: bill.electricity_details?.meter_details?.mcc, path: `${BASE}.electricity_details.meter_details.mcc` },
+            { label: "Profile", value: bill.electricity_details?.meter_details?.profile, path: `${BASE}.electricity_details.meter_details.profile` }
           ]} />
         </CardContent>
       </Card>
@@ -65,16 +80,31 @@ export const ElectricityBillBreakdown = ({ data }: ElectricityBillBreakdownProps
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {bill.charges_and_usage.meter_readings.map((reading: any, idx: number) => (
-                  <TableRow key={idx}>
-                    <TableCell className="font-medium">{reading.reading_type || '-'}</TableCell>
-                    <TableCell>{reading.date || '-'}</TableCell>
-                    <TableCell className="text-right">{reading.nsh_reading || 0}</TableCell>
-                    <TableCell className="text-right">{reading.day_reading || 0}</TableCell>
-                    <TableCell className="text-right">{reading.night_reading || 0}</TableCell>
-                    <TableCell className="text-right">{reading.peak_reading || 0}</TableCell>
-                  </TableRow>
-                ))}
+                {bill.charges_and_usage.meter_readings.map((reading, idx) => {
+                  const path = `${BASE}.charges_and_usage.meter_readings[${idx}]`;
+                  return (
+                    <TableRow key={idx}>
+                      <TableCell className="font-medium">
+                        <BillField editor={editor} path={`${path}.reading_type`} value={reading.reading_type} display={reading.reading_type || '-'} />
+                      </TableCell>
+                      <TableCell>
+                        <BillField editor={editor} path={`${path}.date`} value={reading.date} kind="date" display={reading.date || '-'} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <BillField editor={editor} path={`${path}.nsh_reading`} value={reading.nsh_reading} kind="number" display={reading.nsh_reading || 0} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <BillField editor={editor} path={`${path}.day_reading`} value={reading.day_reading} kind="number" display={reading.day_reading || 0} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <BillField editor={editor} path={`${path}.night_reading`} value={reading.night_reading} kind="number" display={reading.night_reading || 0} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <BillField editor={editor} path={`${path}.peak_reading`} value={reading.peak_reading} kind="number" display={reading.peak_reading || 0} />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           </CardContent>
@@ -100,16 +130,31 @@ export const ElectricityBillBreakdown = ({ data }: ElectricityBillBreakdownProps
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {bill.charges_and_usage.detailed_kWh_usage.map((usage: any, idx: number) => (
-                  <TableRow key={idx}>
-                    <TableCell>{usage.start_read_date || '-'}</TableCell>
-                    <TableCell>{usage.end_read_date || '-'}</TableCell>
-                    <TableCell className="text-right font-medium">{usage.day_kWh || 0}</TableCell>
-                    <TableCell className="text-right font-medium">{usage.night_kWh || 0}</TableCell>
-                    <TableCell className="text-right font-medium">{usage.peak_kWh || 0}</TableCell>
-                    <TableCell className="text-right font-medium">{usage.ev_kWh || 0}</TableCell>
-                  </TableRow>
-                ))}
+                {bill.charges_and_usage.detailed_kWh_usage.map((usage, idx) => {
+                  const path = `${BASE}.charges_and_usage.detailed_kWh_usage[${idx}]`;
+                  return (
+                    <TableRow key={idx}>
+                      <TableCell>
+                        <BillField editor={editor} path={`${path}.start_read_date`} value={usage.start_read_date} kind="date" display={usage.start_read_date || '-'} />
+                      </TableCell>
+                      <TableCell>
+                        <BillField editor={editor} path={`${path}.end_read_date`} value={usage.end_read_date} kind="date" display={usage.end_read_date || '-'} />
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        <BillField editor={editor} path={`${path}.day_kWh`} value={usage.day_kWh} kind="number" display={usage.day_kWh || 0} />
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        <BillField editor={editor} path={`${path}.night_kWh`} value={usage.night_kWh} kind="number" display={usage.night_kWh || 0} />
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        <BillField editor={editor} path={`${path}.peak_kWh`} value={usage.peak_kWh} kind="number" display={usage.peak_kWh || 0} />
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        <BillField editor={editor} path={`${path}.ev_kWh`} value={usage.ev_kWh} kind="number" display={usage.ev_kWh || 0} />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           </CardContent>
@@ -117,34 +162,42 @@ export const ElectricityBillBreakdown = ({ data }: ElectricityBillBreakdownProps
       )}
 
       {/* Unit Rates */}
-      {bill.charges_and_usage?.unit_rates && (
+      {rates && (
         <Card>
           <CardHeader>
             <CardTitle className="text-base">Unit Rates</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
-              <div>
-                <span className="font-semibold">24 Hour Rate:</span> {bill.charges_and_usage.unit_rates['24_hour_rate'] || 0} {bill.charges_and_usage.unit_rates.rate_currency || 'cent'}
-              </div>
-              <div>
-                <span className="font-semibold">Day Rate:</span> {bill.charges_and_usage.unit_rates.day || 0} {bill.charges_and_usage.unit_rates.rate_currency || 'cent'}
-              </div>
-              <div>
-                <span className="font-semibold">Night Rate:</span> {bill.charges_and_usage.unit_rates.night || 0} {bill.charges_and_usage.unit_rates.rate_currency || 'cent'}
-              </div>
-              <div>
-                <span className="font-semibold">Peak Rate:</span> {bill.charges_and_usage.unit_rates.peak || 0} {bill.charges_and_usage.unit_rates.rate_currency || 'cent'}
-              </div>
-              <div>
-                <span className="font-semibold">EV Rate:</span> {bill.charges_and_usage.unit_rates.ev || 0} {bill.charges_and_usage.unit_rates.rate_currency || 'cent'}
-              </div>
-              <div>
-                <span className="font-semibold">NSH Rate:</span> {bill.charges_and_usage.unit_rates.nsh || 0} {bill.charges_and_usage.unit_rates.rate_currency || 'cent'}
-              </div>
-              {bill.charges_and_usage.unit_rates.rate_discount_percentage > 0 && (
+              {([
+                ["24 Hour Rate", "24_hour_rate"],
+                ["Day Rate", "day"],
+                ["Night Rate", "night"],
+                ["Peak Rate", "peak"],
+                ["EV Rate", "ev"],
+                ["NSH Rate", "nsh"],
+              ] as const).map(([label, key]) => (
+                <div key={key}>
+                  <span className="font-semibold">{label}:</span>{" "}
+                  <BillField
+                    editor={editor}
+                    path={`${BASE}.charges_and_usage.unit_rates.${key}`}
+                    value={rates[key]}
+                    kind="number"
+                    display={`${rates[key] || 0} ${rates.rate_currency || 'cent'}`}
+                  />
+                </div>
+              ))}
+              {(editor || (rates.rate_discount_percentage ?? 0) > 0) && (
                 <div>
-                  <span className="font-semibold">Discount:</span> {bill.charges_and_usage.unit_rates.rate_discount_percentage}%
+                  <span className="font-semibold">Discount:</span>{" "}
+                  <BillField
+                    editor={editor}
+                    path={`${BASE}.charges_and_usage.unit_rates.rate_discount_percentage`}
+                    value={rates.rate_discount_percentage}
+                    kind="number"
+                    display={`${rates.rate_discount_percentage}%`}
+                  />
                 </div>
               )}
             </div>
@@ -160,15 +213,30 @@ export const ElectricityBillBreakdown = ({ data }: ElectricityBillBreakdownProps
         <CardContent>
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
-              <span className="font-semibold">Standing Charge:</span> {bill.charges_and_usage?.standing_charge || 0} {bill.charges_and_usage?.standing_charge_currency || 'euro'} ({bill.charges_and_usage?.standing_charge_period || 'annual'})
+              <span className="font-semibold">Standing Charge:</span>{" "}
+              <BillField
+                editor={editor}
+                path={`${BASE}.charges_and_usage.standing_charge`}
+                value={bill.charges_and_usage?.standing_charge}
+                kind="number"
+                display={`${bill.charges_and_usage?.standing_charge || 0} ${bill.charges_and_usage?.standing_charge_currency || 'euro'} (${bill.charges_and_usage?.standing_charge_period || 'annual'})`}
+              />
             </div>
-            {bill.charges_and_usage?.nsh_standing_charge > 0 && (
+            {(editor || (bill.charges_and_usage?.nsh_standing_charge ?? 0) > 0) && (
               <div>
-                <span className="font-semibold">NSH Standing Charge:</span> {bill.charges_and_usage.nsh_standing_charge} {bill.charges_and_usage.nsh_standing_charge_currency || 'euro'} ({bill.charges_and_usage.nsh_standing_charge_period || 'annual'})
+                <span className="font-semibold">NSH Standing Charge:</span>{" "}
+                <BillField
+                  editor={editor}
+                  path={`${BASE}.charges_and_usage.nsh_standing_charge`}
+                  value={bill.charges_and_usage?.nsh_standing_charge}
+                  kind="number"
+                  display={`${bill.charges_and_usage?.nsh_standing_charge} ${bill.charges_and_usage?.nsh_standing_charge_currency || 'euro'} (${bill.charges_and_usage?.nsh_standing_charge_period || 'annual'})`}
+                />
               </div>
             )}
             <div>
-              <span className="font-semibold">PSO Levy:</span> {bill.charges_and_usage?.pso_levy || 0}
+              <span className="font-semibold">PSO Levy:</span>{" "}
+              <BillField editor={editor} path={`${BASE}.charges_and_usage.pso_levy`} value={bill.charges_and_usage?.pso_levy} kind="number" display={bill.charges_and_usage?.pso_levy || 0} />
             </div>
           </div>
         </CardContent>
@@ -182,16 +250,32 @@ export const ElectricityBillBreakdown = ({ data }: ElectricityBillBreakdownProps
         <CardContent>
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
-              <span className="font-semibold">Total Due:</span> <span className="text-lg font-bold">€{bill.financial_information?.total_due || 0}</span>
+              <span className="font-semibold">Total Due:</span>{" "}
+              <BillField
+                editor={editor}
+                path={`${BASE}.financial_information.total_due`}
+                value={bill.financial_information?.total_due}
+                kind="number"
+                display={<span className="text-lg font-bold">€{bill.financial_information?.total_due || 0}</span>}
+              />
             </div>
             <div>
-              <span className="font-semibold">Amount Due:</span> <span className="text-lg font-bold">€{bill.financial_information?.amount_due || 0}</span>
+              <span className="font-semibold">Amount Due:</span>{" "}
+              <BillField
+                editor={editor}
+                path={`${BASE}.financial_information.amount_due`}
+                value={bill.financial_information?.amount_due}
+                kind="number"
+                display={<span className="text-lg font-bold">€{bill.financial_information?.amount_due || 0}</span>}
+              />
             </div>
             <div>
-              <span className="font-semibold">Due Date:</span> {bill.financial_information?.due_date || 'N/A'}
+              <span className="font-semibold">Due Date:</span>{" "}
+              <BillField editor={editor} path={`${BASE}.financial_information.due_date`} value={bill.financial_information?.due_date} kind="date" />
             </div>
             <div>
-              <span className="font-semibold">Payment Due Date:</span> {bill.financial_information?.payment_due_date || 'N/A'}
+              <span className="font-semibold">Payment Due Date:</span>{" "}
+              <BillField editor={editor} path={`${BASE}.financial_information.payment_due_date`} value={bill.financial_information?.payment_due_date} kind="date" />
             </div>
           </div>
         </CardContent>
@@ -1,15 +1,24 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { InfoGrid } from "@/components/InfoGrid";
+import { BillField } from "@/components/BillField";
+import type { BillFieldEditor } from "@/lib/bill-edit";
+import type { GasBill } from "@shared/bill-schema";
+import { formatBillingPeriod } from "@shared/dates";
 
 interface GasBillBreakdownProps {
-  data: any;
+  data: GasBill[] | undefined;
+  // Makes every field editable (review screen)
+  editor?: BillFieldEditor;
 }
 
-export const GasBillBreakdown = ({ data }: GasBillBreakdownProps) => {
+const BASE = "bills.gas[0]";
+
+export const GasBillBreakdown = ({ data, editor }: GasBillBreakdownProps) => {
   if (!data || data.length === 0) return null;
 
   const bill = data[0]; // First gas bill
+  const period = bill.supplier_details?.billing_period;
 
   return (
     <div className="space-y-4">
@@ -19,14 +28,19 @@ export const GasBillBreakdown = ({ data }: GasBillBreakdownProps) => {
           <CardTitle className="text-lg">🔥 Gas Bill Details</CardTitle>
         </CardHeader>
         <CardContent>
-          <InfoGrid items={[
-            { label: "Supplier", value: bill.supplier_details?.name },
-            { label: "Tariff", value: bill.supplier_details?.tariff_name },
-            { label: "Invoice Number", value: bill.gas_details?.invoice_number },
-            { label: "Account Number", value: bill.gas_details?.account_number },
-            { label: "Issue Date", value: bill.supplier_details?.issue_date },
-            { label: "Billing Period", value: bill.supplier_details?.billing_period },
-            { label: "Contract End", value: bill.gas_details?.contract_end_date }
+          <InfoGrid editor={editor} items={[
+            { label: "Supplier", value: bill.supplier_details?.name, path: `${BASE}.supplier_details.name` },
+            { label: "Tariff", value: bill.supplier_details?.tariff_name, path: `${BASE}.supplier_details.tariff_name` },
+            { label: "Invoice Number", value: bill.gas_details?.invoice_number, path: `${BASE}.gas_details.invoice_number` },
+            { label: "Account Number", value: bill.gas_details?.account_number, path: `${BASE}.gas_details.account_number` },
+            { label: "Issue Date", value: bill.supplier_details?.issue_date, path: `${BASE}.supplier_details.issue_date`, kind: "date" },
+            ...(editor
+              ? [
+                { label: "Period Start", value: period?.start_date, path: `${BASE}.supplier_details.billing_period.start_date`, kind: "date" as const },
+                { label: "Period End", value: period?.end_date, path: `${BASE}.supplier_details.billing_period.end_date`, kind: "date" as const },
+              ]
+              : [{ label: "Billing Period", value: formatBillingPeriod(period) }]),
+            { label: "Contract End", value: bill.gas_details?.contract_end_date, path: `${BASE}.gas_details.contract_end_date`, kind: "date" }
           ]} />
         </CardContent>
       </Card>
@@ -38,7 +52,8 @@ export const GasBillBreakdown = ({ data }: GasBillBreakdownProps) => {
         </CardHeader>
         <CardContent>
           <div className="text-sm">
-            <span className="font-semibold">GPRN:</span> {bill.gas_details?.meter_details?.gprn || 'N/A'}
+            <span className="font-semibold">GPRN:</span>{" "}
+            <BillField editor={editor} path={`${BASE}.gas_details.meter_details.gprn`} value={bill.gas_details?.meter_details?.gprn} />
           </div>
         </CardContent>
       </Card>
@@ -59,13 +74,22 @@ export const GasBillBreakdown = ({ data }: GasBillBreakdownProps) => {
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {bill.charges_and_usage.meter_readings.map((reading: any, idx: number) => (
-                  <TableRow key={idx}>
-                    <TableCell className="font-medium">{reading.meter_type || '-'}</TableCell>
-                    <TableCell>{reading.date || '-'}</TableCell>
-                    <TableCell className="text-right font-medium">{reading.reading || 0}</TableCell>
-                  </TableRow>
-                ))}
+                {bill.charges_and_usage.meter_readings.map((reading, idx) => {
+                  const path = `${BASE}.charges_and_usage.meter_readings[${idx}]`;
+                  return (
+                    <TableRow key={idx}>
+                      <TableCell className="font-medium">
+                        <BillField editor={editor} path={`${path}.meter_type`} value={reading.meter_type} display={reading.meter_type || '-'} />
+                      </TableCell>
+                      <TableCell>
+                        <BillField editor={editor} path={`${path}.date`} value={reading.date} kind="date" display={reading.date || '-'} />
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        <BillField editor={editor} path={`${path}.reading`} value={reading.reading} kind="number" display={reading.reading || 0} />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           </CardContent>
@@ -80,7 +104,14 @@ export const GasBillBreakdown = ({ data }: GasBillBreakdownProps) => {
           </CardHeader>
           <CardContent>
             <div className="text-sm">
-              <span className="font-semibold">Rate:</span> {bill.charges_and_usage.unit_rates.rate || 0} {bill.charges_and_usage.unit_rates.rate_currency || 'cent'} per unit
+              <span className="font-semibold">Rate:</span>{" "}
+              <BillField
+                editor={editor}
+                path={`${BASE}.charges_and_usage.unit_rates.rate`}
+                value={bill.charges_and_usage.unit_rates.rate}
+                kind="number"
+                display={`${bill.charges_and_usage.unit_rates.rate || 0} ${bill.charges_and_usage.unit_rates.rate_currency || 'cent'} per unit`}
+              />
             </div>
           </CardContent>
         </Card>
@@ -94,10 +125,24 @@ export const GasBillBreakdown = ({ data }: GasBillBreakdownProps) => {
         <CardContent>
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
-              <span className="font-semibold">Standing Charge:</span> {bill.charges_and_usage?.standing_charge || 0} {bill.charges_and_usage?.standing_charge_currency || 'euro'} ({bill.charges_and_usage?.standing_charge_period || 'annual'})
+              <span className="font-semibold">Standing Charge:</span>{" "}
+              <BillField
+                editor={editor}
+                path={`${BASE}.charges_and_usage.standing_charge`}
+                value={bill.charges_and_usage?.standing_charge}
+                kind="number"
+                display={`${bill.charges_and_usage?.standing_charge || 0} ${bill.charges_and_usage?.standing_charge_currency || 'euro'} (${bill.charges_and_usage?.standing_charge_period || 'annual'})`}
+              />
             </div>
             <div>
-              <span className="font-semibold">Carbon Tax:</span> €{bill.charges_and_usage?.carbon_tax || 0}
+              <span className="font-semibold">Carbon Tax:</span>{" "}
+              <BillField
+                editor={editor}
+                path={`${BASE}.charges_and_usage.carbon_tax`}
+                value={bill.charges_and_usage?.carbon_tax}
+                kind="number"
+                display={`€${bill.charges_and_usage?.carbon_tax || 0}`}
+              />
             </div>
           </div>
         </CardContent>
@@ -111,16 +156,32 @@ export const GasBillBreakdown = ({ data }: GasBillBreakdownProps) => {
         <CardContent>
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
-              <span className="font-semibold">Total Due:</span> <span className="text-lg font-bold">€{bill.financial_information?.total_due || 0}</span>
+              <span className="font-semibold">Total Due:</span>{" "}
+              <BillField
+                editor={editor}
+                path={`${BASE}.financial_information.total_due`}
+                value={bill.financial_information?.total_due}
+                kind="number"
+                display={<span className="text-lg font-bold">€{bill.financial_information?.total_due || 0}</span>}
+              />
             </div>
             <div>
-              <span className="font-semibold">Amount Due:</span> <span className="text-lg font-bold">€{bill.financial_information?.amount_due || 0}</span>
+              <span className="font-semibold">Amount Due:</span>{" "}
+              <BillField
+                editor={editor}
+                path={`${BASE}.financial_information.amount_due`}
+                value={bill.financial_information?.amount_due}
+                kind="number"
+                display={<span className="text-lg font-bold">€{bill.financial_information?.amount_due || 0}</span>}
+              />
             </div>
             <div>
-              <span className="font-semibold">Due Date:</span> {bill.financial_information?.due_date || 'N/A'}
+              <span className="font-semibold">Due Date:</span>{" "}
+              <BillField editor={editor} path={`${BASE}.financial_information.due_date`} value={bill.financial_information?.due_date} kind="date" />
             </div>
             <div>
-              <span className="font-semibold">Payment Due Date:</span> {bill.financial_information?.payment_due_date || 'N/A'}
+              <span className="font-semibold">Payment Due Date:</span>{" "}
+              <BillField editor={editor} path={`${BASE}.financial_information.payment_due_date`} value={bill.financial_information?.payment_due_date} kind="date" />
             </div>
           </div>
         </CardContent>
@@ -1,9 +1,13 @@
+import { BillField } from "@/components/BillField";
+import type { BillFieldEditor, BillFieldKind } from "@/lib/bill-edit";
+
 interface InfoGridProps {
-  items: Array<{ label: string; value: string | number }>;
+  items: Array<{ label: string; value: string | number; path?: string; kind?: BillFieldKind }>;
   columns?: 2 | 3 | 4;
+  editor?: BillFieldEditor;
 }
 
-export const InfoGrid = ({ items, columns = 2 }: InfoGridProps) => {
+export const InfoGrid = ({ items, columns = 2, editor }: InfoGridProps) => {
   const gridCols = {
     2: "grid-cols-2",
     3: "grid-cols-2 md:grid-cols-3",
@@ -14,7 +18,10 @@ export const InfoGrid = ({ items, columns = 2 }: InfoGridProps) => {
     <div className={`grid ${gridCols[columns]} gap-4 text-sm`}>
       {items.map((item, idx) => (
         <div key={idx}>
-          <span className="font-semibold">{item.label}:</span> {item.value || 'N/A'}
+          <span className="font-semibold">{item.label}:</span>{" "}
+          {item.path
+            ? <BillField editor={editor} path={item.path} value={item.value} kind={item.kind} />
+            : item.value || 'N/A'}
         </div>
       ))}
     </div>
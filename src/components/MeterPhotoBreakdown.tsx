@@ -0,0 +1,74 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { InfoGrid } from "@/components/InfoGrid";
+import type { BillFieldEditor } from "@/lib/bill-edit";
+import type { MeterPhoto } from "@shared/bill-schema";
+import { checkMeterPhoto } from "@shared/meter-photo";
+
+interface MeterPhotoBreakdownProps {
+  data: MeterPhoto | undefined;
+  // Makes the reading editable (review screen)
+  editor?: BillFieldEditor;
+}
+
+const BASE = "bills.meter_photo";
+
+export const MeterPhotoBreakdown = ({ data, editor }: MeterPhotoBreakdownProps) => {
+  if (!data) return null;
+
+  // Re-run the dispatch checks so edits on the review screen show their effect immediately
+  const { photo, corrections, errors, valid } = checkMeterPhoto(data);
+  const unit = photo.unit === "m3" ? "m³" : photo.unit;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          📷 Meter Photo
+          <Badge variant={valid ? "secondary" : "destructive"}>{valid ? "Reading valid" : "Reading not sent"}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="text-3xl font-mono">
+          {photo.read_value ?? "—"} <span className="text-lg text-muted-foreground">{unit}</span>
+          {photo.register && <span className="ml-3 text-sm text-muted-foreground">{photo.register}</span>}
+        </div>
+
+        <InfoGrid
+          editor={editor}
+          columns={3}
+          items={[
+            { label: "Utility", value: photo.utility ?? "" },
+            { label: "Reading", value: data.read_value ?? "", path: `${BASE}.read_value`, kind: "number" },
+            { label: "Unit", value: data.unit ?? "", path: `${BASE}.unit` },
+            { label: "Register", value: data.register ?? "", path: `${BASE}.register` },
+            { label: "Serial Number", value: data.serial_number ?? "", path: `${BASE}.serial_number` },
+            { label: "Make / Model", value: [photo.meter_make, photo.meter_model].filter(Boolean).join(" ") },
+            { label: "Confidence", value: photo.confidence !== undefined ? `${Math.round(photo.confidence * 100)}%` : "" },
+          ]}
+        />
+
+        {(photo.registers?.length ?? 0) > 0 && (
+          <div>
+            <h4 className="font-semibold mb-2 text-sm text-muted-foreground uppercase tracking-wider">Registers</h4>
+            <InfoGrid
+              columns={4}
+              items={photo.registers!.map((entry) => ({ label: entry.register ?? "?", value: entry.read_value ?? "" }))}
+            />
+          </div>
+        )}
+
+        {(errors.length > 0 || corrections.length > 0) && (
+          <div className="space-y-1 text-xs">
+            {errors.map((error) => <p key={error} className="text-destructive">{error}</p>)}
+            {corrections.map((correction) => <p key={correction} className="text-muted-foreground">{correction}</p>)}
+          </div>
+        )}
+
+        {photo.raw_text && (
+          <pre className="p-3 bg-muted rounded text-xs font-mono whitespace-pre-wrap">{photo.raw_text}</pre>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
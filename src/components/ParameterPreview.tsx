@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { buildMappingContext, renderParameters, TRANSFORM_NAMES } from "@shared/field-mapping";
+import type { ParsedBill } from "@shared/bill-schema";
+
+// Built-in sample used when no parse history is available
+const SAMPLE_PARSE_RESULT: { phone: string; file_path: string; parsed_data: ParsedBill } = {
+  phone: "+353858007335",
+  file_path: "sample-electricity-bill.pdf",
+  parsed_data: {
+    bills: {
+      cus_details: [{
+        details: {
+          customer_name: "Mary Murphy",
+          address: { line_1: "12 Main Street", line_2: "", city: "Athlone", county: "Westmeath", eircode: "N37 X2Y3" },
+        },
+        services: { gas: false, broadband: false, electricity: true },
+      }],
+      electricity: [{
+        electricity_details: {
+          invoice_number: "INV-2025-0112",
+          account_number: "902345678",
+          contract_end_date: "2025-09-30",
+          meter_details: { mprn: "10305037936", dg: "1", mcc: "12", profile: "01" },
+        },
+        supplier_details: {
+          name: "Energia",
+          tariff_name: "Smart Saver",
+          issue_date: "2025-02-03",
+          billing_period: { start_date: "2024-12-01", end_date: "2025-01-31", days_count: 62 },
+        },
+        charges_and_usage: {
+          detailed_kWh_usage: [{ start_read_date: "2024-12-01", end_read_date: "2025-01-31", day_kWh: 412, night_kWh: 188, peak_kWh: 64, ev_kWh: 0 }],
+          unit_rates: { day: 34.5, night: 17.2, peak: 39.1, rate_currency: "cent" },
+          standing_charge: 0.76,
+          standing_charge_currency: "euro",
+          standing_charge_period: "daily",
+          pso_levy: 0,
+        },
+        financial_information: { total_due: 286.14, amount_due: 286.14, due_date: "2025-02-17" },
+      }],
+      gas: [],
+      broadband: [],
+    },
+  },
+};
+
+interface SampleJob {
+  id: string;
+  phone: string;
+  file_path: string | null;
+  created_at: string;
+  parsed_data: ParsedBill;
+}
+
+interface ParameterPreviewProps {
+  parameters: Record<string, unknown> | undefined;
+}
+
+export const ParameterPreview = ({ parameters }: ParameterPreviewProps) => {
+  const [jobs, setJobs] = useState<SampleJob[]>([]);
+  const [source, setSource] = useState("sample");
+
+  useEffect(() => {
+    supabase
+      .from("parse_jobs")
+      .select("id, phone, file_path, created_at, parsed_data")
+      .not("parsed_data", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(20)
+      .then(({ data }) => setJobs((data || []) as unknown as SampleJob[]));
+  }, []);
+
+  const rendered = useMemo(() => {
+    const job = jobs.find((j) => j.id === source);
+    const sample = job
+      ? { phone: job.phone, file_path: job.file_path, parsed_data: job.parsed_data }
+      : SAMPLE_PARSE_RESULT;
+    const context = buildMappingContext(sample.parsed_data, sample.phone, sample.file_path);
+    return renderParameters(parameters || {}, context);
+  }, [parameters, source, jobs]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Payload Preview</CardTitle>
+        <CardDescription>
+          Parameters rendered against a parse result. Use <code className="font-mono text-xs">{"{{ path ?? fallback | transform() }}"}</code>;
+          available transforms: {TRANSFORM_NAMES.join(", ")}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Select value={source} onValueChange={setSource}>
+          <SelectTrigger className="max-w-md">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="sample">Built-in sample electricity bill</SelectItem>
+            {jobs.map((job) => (
+              <SelectItem key={job.id} value={job.id}>
+                {new Date(job.created_at).toLocaleString()} — {job.file_path || job.id}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {rendered.errors.length > 0 && (
+          <div className="p-3 bg-destructive/10 border border-destructive rounded-md space-y-1">
+            {rendered.errors.map((error) => (
+              <p key={error.key} className="text-xs text-destructive">
+                <span className="font-semibold">{error.key}:</span> {error.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <pre className="text-xs font-mono bg-muted p-4 rounded overflow-auto max-h-96 border">
+          {JSON.stringify(rendered.payload, null, 2)}
+        </pre>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,81 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableRow } from "@/components/ui/table";
+import type { ParsedBill } from "@shared/bill-schema";
+import { checkMeterReadings } from "@shared/meter-readings";
+import { reconcileBill, type ReconciliationStatus } from "@shared/reconciliation";
+
+interface ReconciliationSummaryProps {
+  data: ParsedBill | null | undefined;
+}
+
+const STATUS_BADGES: Record<ReconciliationStatus, { label: string; variant: "secondary" | "outline" | "destructive" }> = {
+  matched: { label: "Adds up", variant: "secondary" },
+  mismatch: { label: "Small difference", variant: "outline" },
+  large_mismatch: { label: "Does not add up", variant: "destructive" },
+};
+
+const formatEuro = (value: number) => `${value < 0 ? "-" : ""}€${Math.abs(value).toFixed(2)}`;
+
+// The bill total rebuilt from its line items; recomputed on every render so review edits show their effect
+export const ReconciliationSummary = ({ data }: ReconciliationSummaryProps) => {
+  if (!data?.bills) return null;
+  const reconciliations = reconcileBill(data, checkMeterReadings(data).consumption);
+  if (reconciliations.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>🧮 Bill Arithmetic</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {reconciliations.map((reconciliation) => {
+          const badge = STATUS_BADGES[reconciliation.status];
+          return (
+            <div key={reconciliation.service} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <h4 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">{reconciliation.service}</h4>
+                <Badge variant={badge.variant}>{badge.label}</Badge>
+              </div>
+              <Table>
+                <TableBody>
+                  {reconciliation.lines.map((line) => (
+                    <TableRow key={line.item}>
+                      <TableCell className="font-medium capitalize">{line.item}</TableCell>
+                      <TableCell className="text-muted-foreground text-xs">{line.detail}</TableCell>
+                      <TableCell className="text-right font-mono">{formatEuro(line.amount)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-medium">
+                      VAT
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {reconciliation.vat_rate}%{reconciliation.vat_rate_assumed && " (assumed)"}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatEuro(reconciliation.vat)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell className="font-semibold">Expected total</TableCell>
+                    <TableCell className="text-muted-foreground text-xs">billed {formatEuro(reconciliation.billed_total)}</TableCell>
+                    <TableCell className="text-right font-mono font-semibold">{formatEuro(reconciliation.expected_total)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+              {reconciliation.status !== "matched" && (
+                <div className="text-xs space-y-1">
+                  <p className="text-destructive">Difference: {formatEuro(reconciliation.discrepancy)}</p>
+                  {reconciliation.suspects.map((suspect) => (
+                    <p key={`${suspect.path}-${suspect.message}`} className="text-muted-foreground">
+                      Possible misread: {suspect.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
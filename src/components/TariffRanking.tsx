@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { ParsedBill } from "@shared/bill-schema";
+import { compareTariffs, type Tariff } from "@shared/tariff-comparison";
+
+interface TariffRankingProps {
+  data: ParsedBill | null | undefined;
+}
+
+// Plans listed per utility; the rest of the catalogue is only counted
+const SHOWN_OPTIONS = 5;
+
+const formatEuro = (value: number) => `${value < 0 ? "-" : ""}€${Math.abs(value).toFixed(2)}`;
+
+// Alternative tariffs from the local catalogue ranked on the bill's usage; recomputed as review edits change it
+export const TariffRanking = ({ data }: TariffRankingProps) => {
+  const [tariffs, setTariffs] = useState<Tariff[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from("tariffs")
+      .select("*")
+      .eq("is_active", true)
+      .then(({ data: rows }) => setTariffs((rows || []) as unknown as Tariff[]));
+  }, []);
+
+  if (!data?.bills || tariffs.length === 0) return null;
+  const comparisons = compareTariffs(data, tariffs).filter((comparison) => comparison.options.length > 0);
+  if (comparisons.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>💶 Tariff Comparison</CardTitle>
+        <CardDescription>Estimated annual cost including VAT, scaled up from this bill's usage.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {comparisons.map((comparison) => (
+          <div key={comparison.utility} className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <h4 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">{comparison.utility}</h4>
+              <span className="text-xs text-muted-foreground">
+                {Math.round(comparison.usage.total_kWh).toLocaleString()} kWh/year from a {comparison.usage.period_days}-day bill
+                {comparison.usage.rural && " · rural"}
+              </span>
+            </div>
+            {comparison.current && (
+              <p className="text-sm">
+                Current rates{comparison.current_supplier && ` (${comparison.current_supplier})`}:{" "}
+                <span className="font-mono">{formatEuro(comparison.current.annual_cost)}</span>/year
+              </p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Plan</TableHead>
+                  <TableHead className="text-right">Per year</TableHead>
+                  <TableHead className="text-right">Saving</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.options.slice(0, SHOWN_OPTIONS).map((option) => (
+                  <TableRow key={option.tariff_id}>
+                    <TableCell className="font-medium">
+                      {option.supplier}
+                      {option.same_supplier && <Badge variant="outline" className="ml-2">current supplier</Badge>}
+                    </TableCell>
+                    <TableCell>{option.plan_name}</TableCell>
+                    <TableCell className="text-right font-mono">{formatEuro(option.annual_cost)}</TableCell>
+                    <TableCell className={`text-right font-mono ${option.saving !== null && option.saving > 0 ? "text-green-600" : "text-muted-foreground"}`}>
+                      {option.saving === null ? "—" : formatEuro(option.saving)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {comparison.unpriced_plans.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {comparison.unpriced_plans.length} plan{comparison.unpriced_plans.length === 1 ? "" : "s"} need a different meter:{" "}
+                {comparison.unpriced_plans.join(", ")}
+              </p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -2,14 +2,32 @@ import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { renderPdfFirstPageToBlob } from "@/lib/pdf-to-image";
+import type { ParsedBill } from "@shared/bill-schema";
+import type { DispatchResult } from "@shared/onebill-dispatch";
 
 export type ProgressStep = "idle" | "uploading" | "analyzing" | "sending" | "complete" | "error";
 
+// Response body of the onebill-vision-parse edge function
+export interface ParseBillResult {
+  ok: boolean;
+  needs_review: boolean;
+  job_id: string | null;
+  confidence_score: number;
+  parsed_data: ParsedBill;
+  services_detected: Record<string, boolean>;
+  classification_details: Record<string, unknown>;
+  validation_warnings: string[];
+  api_calls: DispatchResult[];
+  input_type: string;
+  used_conversion: boolean;
+  visual_input_count: number;
+}
+
 export const useBillParser = () => {
   const [phone, setPhone] = useState("");
   const [loading, setLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
-  const [result, setResult] = useState<any>(null);
+  const [result, setResult] = useState<ParseBillResult | null>(null);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [progressStep, setProgressStep] = useState<ProgressStep>("idle");
   const { toast } = useToast();
@@ -85,7 +103,9 @@ export const useBillParser = () => {
       setResult(data);
       toast({
         title: "Success",
-        description: data.ok ? "Sent to ONEBILL API successfully!" : "Parsed but API call failed"
+        description: data.needs_review
+          ? "Parsed - identifiers held for review"
+          : data.ok ? "Sent to ONEBILL API successfully!" : "Parsed but API call failed"
       });
 
       setTimeout(() => setProgressStep("idle"), 2000);
@@ -47,6 +47,288 @@ export type Database = {
         }
         Relationships: []
       }
+      contract_reminders: {
+        Row: {
+          claimed_at: string | null
+          contract_end_date: string
+          contract_id: string
+          created_at: string
+          delivered_at: string | null
+          delivery_attempts: number
+          id: string
+          last_error: string | null
+          payload: Json
+          status: string
+          window_days: number
+        }
+        Insert: {
+          claimed_at?: string | null
+          contract_end_date: string
+          contract_id: string
+          created_at?: string
+          delivered_at?: string | null
+          delivery_attempts?: number
+          id?: string
+          last_error?: string | null
+          payload: Json
+          status?: string
+          window_days: number
+        }
+        Update: {
+          claimed_at?: string | null
+          contract_end_date?: string
+          contract_id?: string
+          created_at?: string
+          delivered_at?: string | null
+          delivery_attempts?: number
+          id?: string
+          last_error?: string | null
+          payload?: Json
+          status?: string
+          window_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contract_reminders_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      contracts: {
+        Row: {
+          account_number: string | null
+          contract_end_date: string
+          created_at: string
+          id: string
+          phone: string
+          premises_id: string
+          service: string
+          source_job_id: string | null
+          supplier: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_number?: string | null
+          contract_end_date: string
+          created_at?: string
+          id?: string
+          phone: string
+          premises_id: string
+          service: string
+          source_job_id?: string | null
+          supplier?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_number?: string | null
+          contract_end_date?: string
+          created_at?: string
+          id?: string
+          phone?: string
+          premises_id?: string
+          service?: string
+          source_job_id?: string | null
+          supplier?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contracts_source_job_id_fkey"
+            columns: ["source_job_id"]
+            isOneToOne: false
+            referencedRelation: "parse_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parse_batches: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          total_files: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          total_files?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          total_files?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      parse_jobs: {
+        Row: {
+          ai_duration_ms: number | null
+          api_calls: Json
+          attempts: number
+          batch_id: string | null
+          classification_details: Json | null
+          completed_at: string | null
+          confidence_score: number | null
+          created_at: string
+          dispatch_duration_ms: number | null
+          error: string | null
+          field_sources: Json
+          file_path: string | null
+          id: string
+          image_url: string | null
+          input_type: string | null
+          interval_data: Json | null
+          parsed_data: Json | null
+          phone: string
+          review_decision: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          services: string[]
+          services_detected: Json | null
+          source_file_name: string | null
+          status: string
+          total_duration_ms: number | null
+          updated_at: string
+          used_conversion: boolean
+          validation_warnings: Json
+          visual_input_count: number | null
+        }
+        Insert: {
+          ai_duration_ms?: number | null
+          api_calls?: Json
+          attempts?: number
+          batch_id?: string | null
+          classification_details?: Json | null
+          completed_at?: string | null
+          confidence_score?: number | null
+          created_at?: string
+          dispatch_duration_ms?: number | null
+          error?: string | null
+          field_sources?: Json
+          file_path?: string | null
+          id?: string
+          image_url?: string | null
+          input_type?: string | null
+          interval_data?: Json | null
+          parsed_data?: Json | null
+          phone: string
+          review_decision?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          services?: string[]
+          services_detected?: Json | null
+          source_file_name?: string | null
+          status?: string
+          total_duration_ms?: number | null
+          updated_at?: string
+          used_conversion?: boolean
+          validation_warnings?: Json
+          visual_input_count?: number | null
+        }
+        Update: {
+          ai_duration_ms?: number | null
+          api_calls?: Json
+          attempts?: number
+          batch_id?: string | null
+          classification_details?: Json | null
+          completed_at?: string | null
+          confidence_score?: number | null
+          created_at?: string
+          dispatch_duration_ms?: number | null
+          error?: string | null
+          field_sources?: Json
+          file_path?: string | null
+          id?: string
+          image_url?: string | null
+          input_type?: string | null
+          interval_data?: Json | null
+          parsed_data?: Json | null
+          phone?: string
+          review_decision?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          services?: string[]
+          services_detected?: Json | null
+          source_file_name?: string | null
+          status?: string
+          total_duration_ms?: number | null
+          updated_at?: string
+          used_conversion?: boolean
+          validation_warnings?: Json
+          visual_input_count?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parse_jobs_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "parse_batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tariffs: {
+        Row: {
+          created_at: string
+          discount_months: number | null
+          discount_percentage: number
+          id: string
+          is_active: boolean
+          plan_name: string
+          pso_levy: number
+          rural_standing_charge: number | null
+          standing_charge: number
+          supplier: string
+          unit_rates: Json
+          updated_at: string
+          utility: string
+          valid_from: string
+          valid_to: string | null
+        }
+        Insert: {
+          created_at?: string
+          discount_months?: number | null
+          discount_percentage?: number
+          id?: string
+          is_active?: boolean
+          plan_name: string
+          pso_levy?: number
+          rural_standing_charge?: number | null
+          standing_charge?: number
+          supplier: string
+          unit_rates?: Json
+          updated_at?: string
+          utility: string
+          valid_from: string
+          valid_to?: string | null
+        }
+        Update: {
+          created_at?: string
+          discount_months?: number | null
+          discount_percentage?: number
+          id?: string
+          is_active?: boolean
+          plan_name?: string
+          pso_levy?: number
+          rural_standing_charge?: number | null
+          standing_charge?: number
+          supplier?: string
+          unit_rates?: Json
+          updated_at?: string
+          utility?: string
+          valid_from?: string
+          valid_to?: string | null
+        }
+        Relationships: []
+      }
       training_documents: {
         Row: {
           created_at: string
@@ -94,7 +376,36 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_parse_jobs: {
+        Args: { p_batch_id: string; p_limit: number }
+        Returns: {
+          ai_duration_ms: number | null
+          api_calls: Json
+          attempts: number
+          batch_id: string | null
+          classification_details: Json | null
+          completed_at: string | null
+          confidence_score: number | null
+          created_at: string
+          dispatch_duration_ms: number | null
+          error: string | null
+          file_path: string | null
+          id: string
+          image_url: string | null
+          input_type: string | null
+          parsed_data: Json | null
+          phone: string
+          services: string[]
+          services_detected: Json | null
+          source_file_name: string | null
+          status: string
+          total_duration_ms: number | null
+          updated_at: string
+          used_conversion: boolean
+          validation_warnings: Json
+          visual_input_count: number | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
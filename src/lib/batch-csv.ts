@@ -0,0 +1,85 @@
+// CSV helpers for batch uploads: reading the filename → phone mapping and
+// exporting a batch's results.
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and CRLF line endings
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// Read a mapping CSV with `filename` and `phone` columns. A header row is optional;
+// without one the first two columns are used. Keys are lower-cased file names.
+export function parsePhoneMapping(text: string): Map<string, string> {
+  const rows = parseCsv(text);
+  const mapping = new Map<string, string>();
+  if (rows.length === 0) return mapping;
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  let fileIndex = header.findIndex((cell) => ["filename", "file_name", "file"].includes(cell));
+  let phoneIndex = header.findIndex((cell) => ["phone", "phone_number", "mobile"].includes(cell));
+  const hasHeader = fileIndex !== -1 && phoneIndex !== -1;
+  if (!hasHeader) {
+    fileIndex = 0;
+    phoneIndex = 1;
+  }
+
+  for (const row of rows.slice(hasHeader ? 1 : 0)) {
+    const fileName = row[fileIndex]?.trim();
+    const phone = row[phoneIndex]?.trim();
+    if (fileName && phone) mapping.set(fileName.toLowerCase(), phone);
+  }
+  return mapping;
+}
+
+function escapeCsvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+export function downloadCsv(fileName: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { draftForValue, parseFieldInput } from "./bill-edit";
+
+describe("draftForValue", () => {
+  it("keeps a trailing decimal point while a number is being typed", () => {
+    // Backspacing "134.7" leaves "134.", which is stored as 134
+    expect(parseFieldInput("number", "134.").value).toBe(134);
+    expect(draftForValue("number", "134.", 134)).toBe("134.");
+    // ...so typing "5" next gives 134.5 rather than 1345
+    expect(parseFieldInput("number", "134.5").value).toBe(134.5);
+  });
+
+  it("keeps drafts written differently from the stored value", () => {
+    expect(draftForValue("number", "€1,200", 1200)).toBe("€1,200");
+    expect(draftForValue("date", "12/01/2025", "2025-01-12")).toBe("12/01/2025");
+    expect(draftForValue("text", "", null)).toBe("");
+  });
+
+  it("follows a value changed from outside the field", () => {
+    expect(draftForValue("number", "134.", 182.4)).toBe("182.4");
+    expect(draftForValue("number", "abc", 134)).toBe("134");
+    expect(draftForValue("date", "12/01/2025", null)).toBe("");
+    expect(draftForValue("text", "Energia", "SSE Airtricity")).toBe("SSE Airtricity");
+  });
+});
@@ -0,0 +1,101 @@
+import type { ParsedBill } from "@shared/bill-schema";
+import { billingPeriodDays, parseBillDate } from "@shared/dates";
+import { checkBillIdentifiers } from "@shared/identifiers";
+
+// Field-level editing of a parse result for the review screen.
+// Paths use the same `bills.electricity[0].electricity_details.mprn` form as
+// identifier errors and field-mapping templates.
+
+export type BillFieldKind = "text" | "number" | "date";
+
+// Wiring passed to the breakdown components to make their fields editable
+export interface BillFieldEditor {
+  onChange: (path: string, value: string | number | null) => void;
+  errors: Record<string, string>;
+  edited: Set<string>;
+}
+
+const PERIOD_DATE = /^(.*\.billing_period)\.(start_date|end_date)$/;
+
+function pathKeys(path: string): Array<string | number> {
+  return path.split(".").flatMap((segment) => {
+    const match = segment.match(/^([^[\]]*)\[(\d+)\]$/);
+    if (!match) return [segment];
+    return match[1] ? [match[1], Number(match[2])] : [Number(match[2])];
+  });
+}
+
+// Return a copy of `data` with the value at `path` replaced; null removes the field.
+// Changing a billing period date recalculates its inclusive days_count.
+export function applyBillEdit(data: ParsedBill, path: string, value: string | number | null): ParsedBill {
+  const next = structuredClone(data);
+  const keys = pathKeys(path);
+
+  let target: Record<string | number, unknown> = next as unknown as Record<string, unknown>;
+  for (let i = 0; i < keys.length - 1; i++) {
+    const existing = target[keys[i]];
+    if (existing === null || typeof existing !== "object") {
+      target[keys[i]] = typeof keys[i + 1] === "number" ? [] : {};
+    }
+    target = target[keys[i]] as Record<string | number, unknown>;
+  }
+
+  const last = keys[keys.length - 1];
+  if (value === null || value === "") delete target[last];
+  else target[last] = value;
+
+  const period = path.match(PERIOD_DATE);
+  if (period) {
+    const { start_date, end_date } = target as { start_date?: string; end_date?: string };
+    if (start_date && end_date && end_date >= start_date) target.days_count = billingPeriodDays(start_date, end_date);
+    else delete target.days_count;
+  }
+
+  return next;
+}
+
+// Parse an input's text into the stored value, or report why it cannot be stored
+export function parseFieldInput(kind: BillFieldKind, input: string): { value: string | number | null; error?: string } {
+  const text = input.trim();
+  if (!text) return { value: null };
+
+  if (kind === "number") {
+    const number = Number(text.replace(/[€,\s]/g, ""));
+    return Number.isFinite(number) ? { value: number } : { value: null, error: "Enter a number" };
+  }
+  if (kind === "date") {
+    const iso = parseBillDate(text);
+    return iso ? { value: iso } : { value: null, error: "Enter a valid date" };
+  }
+  return { value: text };
+}
+
+// The input text to show once the stored value has changed. A draft that already parses to that
+// value is kept as typed, so "134." (stored as 134) is not rewritten to "134" mid-edit.
+export function draftForValue(kind: BillFieldKind, draft: string, value: string | number | null | undefined): string {
+  const parsed = parseFieldInput(kind, draft);
+  if (!parsed.error && parsed.value === (value ?? null)) return draft;
+  return value === null || value === undefined ? "" : String(value);
+}
+
+// Problems that block approval, keyed by field path. Identifier warnings
+// (e.g. an unusual profile) are left to the operator, as onebill-review does.
+export function validateBill(data: ParsedBill): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  // checkBillIdentifiers normalises in place, so check a copy
+  for (const error of checkBillIdentifiers(structuredClone(data))) {
+    if (error.severity === "critical") errors[error.path] = error.message;
+  }
+
+  for (const service of ["electricity", "gas", "broadband"] as const) {
+    (data.bills?.[service] ?? []).forEach((bill, index) => {
+      const period = bill?.supplier_details?.billing_period;
+      if (period?.start_date && period.end_date && period.end_date < period.start_date) {
+        errors[`bills.${service}[${index}].supplier_details.billing_period.end_date`] = "Billing period ends before it starts";
+      }
+    });
+  }
+
+  return errors;
+}
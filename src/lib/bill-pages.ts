@@ -0,0 +1,35 @@
+import { supabase } from "@/integrations/supabase/client";
+import { convertedPagePath } from "@shared/converted-pages";
+import { renderPdfPagesToBlobs, type RenderPdfPagesOptions, type SkippedPdfPage } from "@/lib/pdf-to-image";
+
+export interface UploadedPdfPages {
+  pageCount: number;
+  pagePaths: string[];
+  skipped: SkippedPdfPage[];
+}
+
+export function isPdfFile(file: File): boolean {
+  return file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+}
+
+// Render a PDF's relevant pages and store them next to the uploaded original
+// (bills/converted/<sourcePath>/page-<n>.png), where the parser looks for them.
+export async function uploadPdfPageImages(
+  file: File,
+  sourcePath: string,
+  options?: RenderPdfPagesOptions,
+): Promise<UploadedPdfPages> {
+  const { pageCount, pages, skipped } = await renderPdfPagesToBlobs(file, options);
+
+  const pagePaths: string[] = [];
+  for (const page of pages) {
+    const pagePath = convertedPagePath(sourcePath, page.pageNumber);
+    const { error } = await supabase.storage
+      .from("bills")
+      .upload(pagePath, page.blob, { contentType: "image/png", upsert: true });
+    if (error) throw new Error(`Failed to upload page ${page.pageNumber}: ${error.message}`);
+    pagePaths.push(pagePath);
+  }
+
+  return { pageCount, pagePaths, skipped };
+}
@@ -1,36 +1,164 @@
-// Utility to render the first page of a PDF File to a PNG Blob (client-side)
+// Utilities to render PDF pages to PNG Blobs (client-side)
 // Uses pdfjs-dist with a CDN worker to avoid bundling complexity
 
 import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFPageProxy } from 'pdfjs-dist';
 
 // Configure worker from CDN to work reliably with Vite
 // Note: lock version to match installed pdfjs-dist
 (pdfjsLib as any).GlobalWorkerOptions.workerSrc =
   'https://unpkg.com/pdfjs-dist@5.4.394/build/pdf.worker.min.mjs';
 
-export async function renderPdfFirstPageToBlob(file: File, maxWidth = 1400): Promise<Blob> {
-  const arrayBuffer = await file.arrayBuffer();
-  const pdf = await (pdfjsLib as any).getDocument({ data: arrayBuffer }).promise;
-  const page = await pdf.getPage(1);
+// PDF user space is 72 points per inch
+const PDF_POINTS_PER_INCH = 72;
+
+// Pages with less than this share of non-white pixels are treated as blank
+const BLANK_INK_RATIO = 0.004;
+
+// Text that marks a page as part of the bill itself (never skipped)
+const BILL_KEYWORDS = [
+  'mprn', 'gprn', 'meter', 'kwh', 'account number', 'invoice', 'billing period',
+  'amount due', 'total due', 'standing charge', 'unit rate', 'reading',
+];
+
+// Text typical of promotional inserts and terms pages
+const MARKETING_KEYWORDS = [
+  'terms and conditions', 'special offer', 'refer a friend', 'competition', 'download our app',
+  'visit our website', 'switch today', 'promotion', 'rewards', 'follow us', 'privacy notice',
+];
 
-  const viewport = page.getViewport({ scale: 1.0 });
-  const scale = Math.min(2.0, maxWidth / viewport.width);
-  const scaledViewport = page.getViewport({ scale });
+export interface RenderPdfPagesOptions {
+  // 1-based page numbers to render; defaults to every page
+  pages?: number[];
+  // Upper bound on rendered pages after skipping
+  maxPages?: number;
+  // Resolution in dots per inch, either fixed or chosen per page
+  dpi?: number | ((pageNumber: number) => number);
+  // Cap on rendered width in pixels, applied after the DPI
+  maxWidth?: number;
+  // Skip blank and marketing pages (page 1 is always kept)
+  skipIrrelevantPages?: boolean;
+}
+
+export interface RenderedPdfPage {
+  pageNumber: number;
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface SkippedPdfPage {
+  pageNumber: number;
+  reason: 'blank' | 'marketing' | 'max_pages';
+}
+
+export interface RenderPdfPagesResult {
+  pageCount: number;
+  pages: RenderedPdfPage[];
+  skipped: SkippedPdfPage[];
+}
+
+async function renderPageToCanvas(page: PDFPageProxy, scale: number): Promise<HTMLCanvasElement> {
+  const viewport = page.getViewport({ scale });
 
   const canvas = document.createElement('canvas');
-  const context = canvas.getContext('2d');
+  const context = canvas.getContext('2d', { willReadFrequently: true });
   if (!context) throw new Error('Canvas 2D context not available');
 
-  canvas.width = Math.ceil(scaledViewport.width);
-  canvas.height = Math.ceil(scaledViewport.height);
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
 
-  const renderContext = { canvasContext: context, viewport: scaledViewport } as any;
-  await page.render(renderContext).promise;
+  await page.render({ canvas, canvasContext: context, viewport }).promise;
+  return canvas;
+}
 
-  return await new Promise<Blob>((resolve, reject) => {
+function canvasToPngBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise<Blob>((resolve, reject) => {
     canvas.toBlob((blob) => {
       if (blob) resolve(blob);
       else reject(new Error('Failed to create PNG blob'));
     }, 'image/png');
   });
 }
+
+// Share of sampled pixels that are noticeably darker than white
+function inkRatio(canvas: HTMLCanvasElement): number {
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return 1;
+
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  const step = 16; // sample every 4th pixel (4 bytes per pixel)
+  let inked = 0;
+  let sampled = 0;
+  for (let i = 0; i < data.length; i += step) {
+    sampled++;
+    if (data[i] < 200 || data[i + 1] < 200 || data[i + 2] < 200) inked++;
+  }
+  return sampled === 0 ? 0 : inked / sampled;
+}
+
+async function isMarketingPage(page: PDFPageProxy): Promise<boolean> {
+  const textContent = await page.getTextContent();
+  const text = textContent.items
+    .map((item) => ('str' in item ? item.str : ''))
+    .join(' ')
+    .toLowerCase();
+
+  // Scanned pages have no text layer; leave them to the blank check
+  if (text.trim().length === 0) return false;
+  if (BILL_KEYWORDS.some((keyword) => text.includes(keyword))) return false;
+  return MARKETING_KEYWORDS.filter((keyword) => text.includes(keyword)).length >= 2;
+}
+
+export async function renderPdfPagesToBlobs(file: File, options: RenderPdfPagesOptions = {}): Promise<RenderPdfPagesResult> {
+  const { maxPages = 6, dpi = 150, maxWidth = 2000, skipIrrelevantPages = true } = options;
+
+  const arrayBuffer = await file.arrayBuffer();
+  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+
+  const requested = options.pages
+    ? [...new Set(options.pages)].filter((n) => n >= 1 && n <= pdf.numPages).sort((a, b) => a - b)
+    : Array.from({ length: pdf.numPages }, (_, i) => i + 1);
+
+  const pages: RenderedPdfPage[] = [];
+  const skipped: SkippedPdfPage[] = [];
+
+  for (const pageNumber of requested) {
+    if (pages.length >= maxPages) {
+      skipped.push({ pageNumber, reason: 'max_pages' });
+      continue;
+    }
+
+    const page = await pdf.getPage(pageNumber);
+    const alwaysKeep = pageNumber === requested[0];
+
+    if (skipIrrelevantPages && !alwaysKeep && await isMarketingPage(page)) {
+      skipped.push({ pageNumber, reason: 'marketing' });
+      continue;
+    }
+
+    const pageDpi = typeof dpi === 'function' ? dpi(pageNumber) : dpi;
+    const baseViewport = page.getViewport({ scale: 1.0 });
+    const scale = Math.min(pageDpi / PDF_POINTS_PER_INCH, maxWidth / baseViewport.width);
+    const canvas = await renderPageToCanvas(page, scale);
+
+    if (skipIrrelevantPages && !alwaysKeep && inkRatio(canvas) < BLANK_INK_RATIO) {
+      skipped.push({ pageNumber, reason: 'blank' });
+      continue;
+    }
+
+    pages.push({ pageNumber, blob: await canvasToPngBlob(canvas), width: canvas.width, height: canvas.height });
+  }
+
+  return { pageCount: pdf.numPages, pages, skipped };
+}
+
+export async function renderPdfFirstPageToBlob(file: File, maxWidth = 1400): Promise<Blob> {
+  const { pages } = await renderPdfPagesToBlobs(file, {
+    pages: [1],
+    dpi: 2.0 * PDF_POINTS_PER_INCH,
+    maxWidth,
+    skipIrrelevantPages: false,
+  });
+  return pages[0].blob;
+}
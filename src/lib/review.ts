@@ -0,0 +1,31 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ParsedBill } from "@shared/bill-schema";
+import type { DispatchResult } from "@shared/onebill-dispatch";
+
+export type ReviewDecision =
+  | { action: "approve"; job_id: string; parsed_data?: ParsedBill; services?: string[]; note?: string }
+  | { action: "reject"; job_id: string; note?: string };
+
+export interface ReviewResponse {
+  ok: boolean;
+  job_id: string;
+  status: string;
+  api_calls?: DispatchResult[];
+}
+
+// supabase.functions.invoke only reports "non-2xx status"; the function's own message is in the response body
+export async function invokeErrorMessage(error: unknown): Promise<string> {
+  const response = (error as { context?: Response }).context;
+  if (response instanceof Response) {
+    const body = await response.json().catch(() => null);
+    if (body?.error) return body.error;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Approve (and dispatch) or reject a held parse through onebill-review
+export async function submitReview(decision: ReviewDecision): Promise<ReviewResponse> {
+  const { data, error } = await supabase.functions.invoke("onebill-review", { body: decision });
+  if (error) throw new Error(await invokeErrorMessage(error));
+  return data as ReviewResponse;
+}
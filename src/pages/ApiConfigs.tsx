@@ -8,8 +8,10 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Checkbox } from "@/components/ui/checkbox";
+import { ParameterPreview } from "@/components/ParameterPreview";
 import { Link } from "react-router-dom";
-import { Plus, Trash2 } from "lucide-react";
+import { Eye, Plus, Trash2 } from "lucide-react";
+import { validateTemplate } from "@shared/field-mapping";
 
 interface ApiConfig {
   id: string;
@@ -20,6 +22,16 @@ interface ApiConfig {
   is_active: boolean;
 }
 
+// The first malformed {{ }} placeholder in a parameters template, or null when they all parse
+const findTemplateError = (parameters: Record<string, unknown> | undefined): string | null => {
+  for (const [key, value] of Object.entries(parameters ?? {})) {
+    if (typeof value !== "string") continue;
+    const error = validateTemplate(value);
+    if (error) return `Parameter '${key}': ${error}`;
+  }
+  return null;
+};
+
 const ApiConfigs = () => {
   const [configs, setConfigs] = useState<ApiConfig[]>([]);
   const [loading, setLoading] = useState(true);
@@ -35,6 +47,7 @@ const ApiConfigs = () => {
   });
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [jsonError, setJsonError] = useState<string | null>(null);
+  const [previewId, setPreviewId] = useState<string | null>(null);
 
   useEffect(() => {
     fetchConfigs();
@@ -59,8 +72,17 @@ const ApiConfigs = () => {
     setEditForm(config);
   };
 
+  const rejectTemplateErrors = (parameters: Record<string, unknown> | undefined): boolean => {
+    const templateError = findTemplateError(parameters);
+    if (!templateError) return false;
+    setJsonError(templateError);
+    toast({ title: "Error", description: templateError, variant: "destructive" });
+    return true;
+  };
+
   const handleSave = async () => {
     if (!editingId) return;
+    if (rejectTemplateErrors(editForm.parameters)) return;
 
     const { error } = await supabase
       .from("api_configs")
@@ -105,6 +127,7 @@ const ApiConfigs = () => {
       toast({ title: "Error", description: "Name, endpoint URL, and service type are required", variant: "destructive" });
       return;
     }
+    if (rejectTemplateErrors(newConfig.parameters)) return;
 
     const { error } = await supabase
       .from("api_configs")
@@ -158,6 +181,13 @@ const ApiConfigs = () => {
     }
   };
 
+  // Preview whatever is being edited, otherwise the config picked with the eye button
+  const previewParameters = editingId
+    ? editForm.parameters
+    : isAddingNew
+      ? newConfig.parameters
+      : configs.find((c) => c.id === previewId)?.parameters;
+
   if (loading) return <div className="p-6">Loading...</div>;
 
   return (
@@ -178,6 +208,13 @@ const ApiConfigs = () => {
               </Button>
             </div>
           </div>
+          <p className="text-sm text-muted-foreground">
+            Every active config for a detected service is called with the original file plus its parameters.
+            Parameter values may use <code className="font-mono text-xs">{"{{path}}"}</code> placeholders such as{" "}
+            <code className="font-mono text-xs">{"{{ phone }}"}</code>,{" "}
+            <code className="font-mono text-xs">{"{{ electricity.meter_details.mprn | digits() }}"}</code> or{" "}
+            <code className="font-mono text-xs">{"{{ electricity.account_number ?? gas.account_number }}"}</code>.
+          </p>
           <Button onClick={handleAddNew} disabled={isAddingNew} className="w-full sm:w-auto">
             <Plus className="mr-2 h-4 w-4" />
             Add New API
@@ -343,6 +380,13 @@ const ApiConfigs = () => {
                     ) : (
                       <div className="flex gap-2">
                         <Button size="sm" variant="outline" onClick={() => handleEdit(config)}>Edit</Button>
+                        <Button
+                          size="sm"
+                          variant={previewId === config.id ? "secondary" : "outline"}
+                          onClick={() => setPreviewId(previewId === config.id ? null : config.id)}
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
                         <Button
                           size="sm"
                           variant="destructive"
@@ -359,6 +403,8 @@ const ApiConfigs = () => {
           </Table>
         </div>
 
+        {previewParameters && <ParameterPreview parameters={previewParameters} />}
+
         <AlertDialog open={!!deleteConfirmId} onOpenChange={() => setDeleteConfirmId(null)}>
           <AlertDialogContent>
             <AlertDialogHeader>
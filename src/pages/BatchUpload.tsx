@@ -0,0 +1,377 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Link, useSearchParams } from "react-router-dom";
+import { Download, Layers, RefreshCw } from "lucide-react";
+import { downloadCsv, parsePhoneMapping, toCsv } from "@/lib/batch-csv";
+import { isPdfFile, uploadPdfPageImages } from "@/lib/bill-pages";
+
+interface BatchJob {
+  id: string;
+  status: string;
+  phone: string;
+  file_path: string | null;
+  source_file_name: string | null;
+  services: string[];
+  confidence_score: number | null;
+  attempts: number;
+  error: string | null;
+  total_duration_ms: number | null;
+}
+
+const POLL_INTERVAL_MS = 3000;
+const UPLOAD_CONCURRENCY = 4;
+const WORKER_CONCURRENCY = 3;
+
+// Where each job ends up; anything else is still queued or processing
+const OUTCOMES: Record<string, string> = {
+  completed: "dispatched",
+  needs_review: "held for review",
+  rejected: "rejected",
+  dispatch_failed: "failed",
+  failed: "failed",
+};
+
+const BatchUpload = () => {
+  const [batchName, setBatchName] = useState("");
+  const [defaultPhone, setDefaultPhone] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [phoneMapping, setPhoneMapping] = useState<Map<string, string>>(new Map());
+  const [uploading, setUploading] = useState(false);
+  const [uploadedCount, setUploadedCount] = useState(0);
+  const [processing, setProcessing] = useState(false);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const batchId = searchParams.get("batch");
+
+  const isActive = jobs.some((job) => job.status === "queued" || job.status === "processing");
+
+  const fetchJobs = useCallback(async (id: string) => {
+    const { data, error } = await supabase
+      .from("parse_jobs")
+      .select("id, status, phone, file_path, source_file_name, services, confidence_score, attempts, error, total_duration_ms")
+      .eq("batch_id", id)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      setJobs(data || []);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!batchId) return;
+    fetchJobs(batchId);
+  }, [batchId, fetchJobs]);
+
+  // Poll while the batch still has work outstanding
+  useEffect(() => {
+    if (!batchId || (!isActive && !processing)) return;
+    const interval = setInterval(() => fetchJobs(batchId), POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [batchId, isActive, processing, fetchJobs]);
+
+  const handleMappingFile = async (mappingFile: File | undefined) => {
+    if (!mappingFile) {
+      setPhoneMapping(new Map());
+      return;
+    }
+    const mapping = parsePhoneMapping(await mappingFile.text());
+    setPhoneMapping(mapping);
+    toast({ title: "Mapping loaded", description: `${mapping.size} filename → phone row(s)` });
+  };
+
+  const phoneFor = (file: File) => phoneMapping.get(file.name.toLowerCase()) || defaultPhone.trim();
+
+  // Start on the batch straight away rather than waiting for the worker's scheduled sweep,
+  // which carries on with anything this run leaves queued (closing the page does not stop it)
+  const startWorker = async (id: string) => {
+    setProcessing(true);
+    try {
+      const { error } = await supabase.functions.invoke("onebill-batch-worker", {
+        body: { action: "process", batch_id: id, concurrency: WORKER_CONCURRENCY },
+      });
+      if (error) throw error;
+    } catch (error) {
+      toast({ title: "Worker error", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    } finally {
+      setProcessing(false);
+      await fetchJobs(id);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (files.length === 0) {
+      toast({ title: "Error", description: "Please select at least one bill", variant: "destructive" });
+      return;
+    }
+
+    const unmapped = files.filter((file) => !phoneFor(file));
+    if (unmapped.length > 0) {
+      toast({
+        title: "Error",
+        description: `No phone number for ${unmapped.map((file) => file.name).join(", ")}. Add them to the CSV or set a default phone.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUploading(true);
+    setUploadedCount(0);
+    try {
+      const items: Array<{ file_path: string; phone: string; source_file_name: string }> = [];
+      const queue = files.map((file, index) => ({ file, index }));
+      const uploadNext = async () => {
+        for (let entry = queue.shift(); entry; entry = queue.shift()) {
+          const filePath = `${Date.now()}_${entry.index}_${entry.file.name}`;
+          const { error: uploadError } = await supabase.storage.from("bills").upload(filePath, entry.file);
+          if (uploadError) throw new Error(`${entry.file.name}: ${uploadError.message}`);
+          if (isPdfFile(entry.file)) {
+            // Stored page images are the parser's fallback when it cannot read the PDF directly
+            await uploadPdfPageImages(entry.file, filePath).catch((error) =>
+              console.warn(`Page rendering failed for ${entry.file.name}:`, error),
+            );
+          }
+          items[entry.index] = { file_path: filePath, phone: phoneFor(entry.file), source_file_name: entry.file.name };
+          setUploadedCount((count) => count + 1);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, files.length) }, uploadNext));
+
+      const { data, error } = await supabase.functions.invoke("onebill-batch-worker", {
+        body: { action: "enqueue", name: batchName.trim() || undefined, items },
+      });
+      if (error) throw error;
+
+      toast({ title: "Batch queued", description: `${items.length} bill(s) queued for parsing` });
+      setFiles([]);
+      setSearchParams({ batch: data.batch_id });
+      await fetchJobs(data.batch_id);
+      startWorker(data.batch_id);
+    } catch (error) {
+      toast({ title: "Error", description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const retryJobs = async (jobIds: string[]) => {
+    if (!batchId || jobIds.length === 0) return;
+    const { error } = await supabase.functions.invoke("onebill-batch-worker", {
+      body: { action: "retry", batch_id: batchId, job_ids: jobIds },
+    });
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    await fetchJobs(batchId);
+    startWorker(batchId);
+  };
+
+  const exportResults = () => {
+    const csv = toCsv(
+      ["file_name", "file_path", "phone", "status", "outcome", "services", "confidence_score", "attempts", "error", "job_id"],
+      jobs.map((job) => [
+        job.source_file_name,
+        job.file_path,
+        job.phone,
+        job.status,
+        OUTCOMES[job.status] ?? "unfinished",
+        job.services.join(" "),
+        job.confidence_score,
+        job.attempts,
+        job.error,
+        job.id,
+      ]),
+    );
+    downloadCsv(`batch-${batchId}.csv`, csv);
+  };
+
+  const getStatusVariant = (status: string) => {
+    const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+      completed: "default",
+      processing: "secondary",
+      needs_review: "secondary",
+      dispatch_failed: "destructive",
+      failed: "destructive",
+    };
+    return variants[status] || "outline";
+  };
+
+  const finishedCount = jobs.filter((job) => job.status in OUTCOMES).length;
+  const heldCount = jobs.filter((job) => job.status === "needs_review").length;
+  const rejectedCount = jobs.filter((job) => job.status === "rejected").length;
+  const failedJobs = jobs.filter((job) => job.status === "failed" || job.status === "dispatch_failed");
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Batch Upload</h1>
+            <p className="text-muted-foreground">Queue a folder of bills and parse them in one go</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link to="/">← Back to Parser</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/jobs">Parse History</Link>
+            </Button>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4 bg-card p-6 rounded-lg border">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <label className="text-sm font-medium mb-2 block">Batch Name</label>
+              <Input value={batchName} onChange={(e) => setBatchName(e.target.value)} placeholder="Partner onboarding – March" />
+            </div>
+            <div>
+              <label className="text-sm font-medium mb-2 block">Default Phone Number</label>
+              <Input
+                type="tel"
+                value={defaultPhone}
+                onChange={(e) => setDefaultPhone(e.target.value)}
+                placeholder="Used for files not listed in the CSV"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Bills</label>
+            <Input
+              type="file"
+              multiple
+              accept="image/*,application/pdf,.csv,.xlsx,.xls"
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium mb-2 block">Phone Mapping CSV (optional)</label>
+            <Input type="file" accept=".csv,text/csv" onChange={(e) => handleMappingFile(e.target.files?.[0])} />
+            <p className="text-xs text-muted-foreground mt-1">
+              Columns <code>filename,phone</code>. Files not listed fall back to the default phone number.
+            </p>
+          </div>
+
+          {files.length > 0 && (
+            <div className="text-sm text-muted-foreground">
+              {files.length} file(s) selected, {files.filter((file) => phoneMapping.has(file.name.toLowerCase())).length} matched in the mapping CSV
+            </div>
+          )}
+
+          {uploading && (
+            <div className="space-y-1">
+              <Progress value={(uploadedCount / files.length) * 100} />
+              <p className="text-xs text-muted-foreground">Uploaded {uploadedCount} of {files.length}</p>
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Queued bills are parsed in the background, so this page can be closed once the upload finishes. Open the batch again
+            from its link to check on progress.
+          </p>
+
+          <Button type="submit" disabled={uploading || processing}>
+            {uploading ? "Uploading..." : "Upload & Queue Batch"}
+          </Button>
+        </form>
+
+        {batchId && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex-1 mr-6 space-y-1">
+                <Progress value={jobs.length ? (finishedCount / jobs.length) * 100 : 0} />
+                <p className="text-xs text-muted-foreground">
+                  {finishedCount} of {jobs.length} finished, {failedJobs.length} failed
+                  {heldCount > 0 && `, ${heldCount} held for review`}
+                  {rejectedCount > 0 && `, ${rejectedCount} rejected`}
+                  {isActive && " — processing..."}
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {failedJobs.length > 0 && (
+                  <Button variant="outline" disabled={processing} onClick={() => retryJobs(failedJobs.map((job) => job.id))}>
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Retry Failed
+                  </Button>
+                )}
+                <Button variant="outline" disabled={jobs.length === 0} onClick={exportResults}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </Button>
+              </div>
+            </div>
+
+            <div className="bg-card rounded-lg border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Services</TableHead>
+                    <TableHead className="text-right">Confidence</TableHead>
+                    <TableHead className="text-right">Attempts</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {jobs.map((job) => (
+                    <TableRow key={job.id}>
+                      <TableCell className="text-sm font-mono break-all">{job.source_file_name || job.file_path}</TableCell>
+                      <TableCell className="text-sm">{job.phone}</TableCell>
+                      <TableCell>
+                        <Badge variant={getStatusVariant(job.status)}>{job.status.replace("_", " ")}</Badge>
+                        {job.error && <p className="text-xs text-destructive mt-1 line-clamp-2">{job.error}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {job.services.map((service) => (
+                            <Badge key={service} variant="outline" className="capitalize">{service}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{job.confidence_score !== null ? `${job.confidence_score}%` : "-"}</TableCell>
+                      <TableCell className="text-right">{job.attempts}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          {(job.status === "failed" || job.status === "dispatch_failed") && (
+                            <Button size="sm" variant="outline" disabled={processing} onClick={() => retryJobs([job.id])}>
+                              Retry
+                            </Button>
+                          )}
+                          {job.status !== "queued" && (
+                            <Button size="sm" variant="outline" asChild>
+                              <Link to={`/?job=${job.id}`}>Open</Link>
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {jobs.length === 0 && (
+                <div className="py-12 text-center">
+                  <Layers className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">No files in this batch</p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BatchUpload;
@@ -1,11 +1,19 @@
-import { useState } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
 import { ApiRetryPanel } from "@/components/ApiRetryPanel";
 import { LiveTerminal } from "@/components/LiveTerminal";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { JsonViewer } from "@/components/JsonViewer";
-import { Link } from "react-router-dom";
+import { MeterPhotoBreakdown } from "@/components/MeterPhotoBreakdown";
+import { ReconciliationSummary } from "@/components/ReconciliationSummary";
+import { TariffRanking } from "@/components/TariffRanking";
+import { isPdfFile, uploadPdfPageImages } from "@/lib/bill-pages";
+import type { IdentifierError } from "@shared/identifiers";
+import type { ConsensusField } from "@shared/consensus";
+import type { ReviewReason } from "@shared/review-gate";
+import type { ReadingWarning } from "@shared/meter-readings";
+import { Link, useSearchParams } from "react-router-dom";
 
 const Index = () => {
   const [phone, setPhone] = useState("");
@@ -16,6 +24,55 @@ const Index = () => {
   const [logs, setLogs] = useState<Array<{ timestamp: string; type: "info" | "success" | "error" | "warning"; message: string }>>([]);
   const [parsedResults, setParsedResults] = useState<any>(null);
   const [confidenceScore, setConfidenceScore] = useState<number | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const jobIdParam = searchParams.get("job");
+
+  const loadJob = useCallback(async (jobId: string) => {
+    const { data: job, error } = await supabase
+      .from("parse_jobs")
+      .select("*")
+      .eq("id", jobId)
+      .maybeSingle();
+
+    if (error || !job) {
+      toast({ title: "Error", description: error?.message || "Parse job not found", variant: "destructive" });
+      return;
+    }
+
+    const apiCalls = Array.isArray(job.api_calls) ? (job.api_calls as Array<{ ok: boolean }>) : [];
+    setParsedResults({
+      ok: job.status === "completed",
+      job_id: job.id,
+      status: job.status,
+      error: job.error,
+      confidence_score: job.confidence_score,
+      parsed_data: job.parsed_data,
+      services_detected: job.services_detected,
+      classification_details: job.classification_details,
+      validation_warnings: job.validation_warnings,
+      api_calls: apiCalls,
+      input_type: job.input_type,
+      used_conversion: job.used_conversion,
+      visual_input_count: job.visual_input_count,
+      created_at: job.created_at,
+    });
+    setConfidenceScore(job.confidence_score);
+    setPhone(job.phone);
+    setLastUploadedFilePath(job.file_path);
+    setFailedApiCalls(apiCalls.filter((call) => !call.ok));
+    setLogs([{
+      timestamp: new Date(job.created_at).toLocaleTimeString(),
+      type: job.status === "completed" ? "success" : job.status === "processing" ? "info" : "error",
+      message: `Loaded parse job ${job.id} (${job.status}) from history`,
+    }]);
+  }, []);
+
+  // Restore a previous run from parse history (e.g. after a refresh or from /jobs)
+  const shownJobId = parsedResults?.job_id;
+  useEffect(() => {
+    if (!jobIdParam || shownJobId === jobIdParam) return;
+    loadJob(jobIdParam);
+  }, [jobIdParam, shownJobId, loadJob]);
 
   const addLog = (type: "info" | "success" | "error" | "warning", message: string) => {
     const timestamp = new Date().toLocaleTimeString();
@@ -49,14 +106,34 @@ const Index = () => {
       setLastUploadedFilePath(fileName);
       addLog("success", `File uploaded: ${fileName}`);
 
+      // Rasterise every relevant PDF page so the parser sees page 2 grids and back pages too
+      let pagePaths: string[] = [];
+      if (isPdfFile(file)) {
+        try {
+          addLog("info", "Rendering PDF pages...");
+          const rendered = await uploadPdfPageImages(file, fileName);
+          rendered.skipped.forEach((page) => addLog("warning", `Skipping page ${page.pageNumber} (${page.reason.replace("_", " ")})`));
+          pagePaths = rendered.pagePaths;
+          addLog("success", `Uploaded ${pagePaths.length} of ${rendered.pageCount} page image(s)`);
+        } catch (renderError) {
+          // The parser can still read the PDF directly
+          const message = renderError instanceof Error ? renderError.message : String(renderError);
+          addLog("warning", `Page rendering failed, sending PDF only: ${message}`);
+        }
+      }
+
       // Parse bill
       addLog("info", "Invoking AI vision parser...");
       const { data, error } = await supabase.functions.invoke("onebill-vision-parse", {
-        body: { phone, file_path: fileName }
+        body: { phone, file_path: fileName, page_paths: pagePaths.length > 0 ? pagePaths : undefined }
       });
 
       if (error) throw error;
       setParsedResults(data);
+      if (data.job_id) {
+        setSearchParams({ job: data.job_id });
+        addLog("info", `Saved to parse history as job ${data.job_id}`);
+      }
       setConfidenceScore(data.confidence_score || null);
       addLog("success", `AI parsing completed (Confidence: ${data.confidence_score || 0}%`);
 
@@ -87,6 +164,14 @@ const Index = () => {
           description: `${failed.length} API call(s) failed. Edit and retry below.`,
           variant: "destructive"
         });
+      } else if (data.needs_review) {
+        addLog("warning", `Dispatch held for review: ${data.classification_details?.review_services?.join(", ")}`);
+        toast({
+          title: "Needs review",
+          description: data.classification_details?.review_reasons?.[0]?.message
+            ? `${data.classification_details.review_reasons[0].message}. Approve it from the review queue.`
+            : "Dispatch has been held for review.",
+        });
       } else {
         addLog("success", "All API calls successful!");
         toast({
@@ -145,6 +230,34 @@ const Index = () => {
             >
               → Training Docs
             </Link>
+            <span className="text-muted-foreground">|</span>
+            <Link 
+              to="/jobs" 
+              className="text-sm text-primary hover:underline"
+            >
+              → Parse History
+            </Link>
+            <span className="text-muted-foreground">|</span>
+            <Link 
+              to="/review" 
+              className="text-sm text-primary hover:underline"
+            >
+              → Review Queue
+            </Link>
+            <span className="text-muted-foreground">|</span>
+            <Link 
+              to="/batch" 
+              className="text-sm text-primary hover:underline"
+            >
+              → Batch Upload
+            </Link>
+            <span className="text-muted-foreground">|</span>
+            <Link 
+              to="/reminders" 
+              className="text-sm text-primary hover:underline"
+            >
+              → Renewal Reminders
+            </Link>
           </div>
         </div>
 
@@ -187,6 +300,14 @@ const Index = () => {
 
         <LiveTerminal logs={logs} />
 
+        {parsedResults?.parsed_data?.bills?.meter_photo && (
+          <MeterPhotoBreakdown data={parsedResults.parsed_data.bills.meter_photo} />
+        )}
+
+        {parsedResults?.parsed_data && <ReconciliationSummary data={parsedResults.parsed_data} />}
+
+        {parsedResults?.parsed_data && <TariffRanking data={parsedResults.parsed_data} />}
+
         {parsedResults && (
           <Accordion type="single" collapsible className="bg-card rounded-lg border">
             <AccordionItem value="parsed-data" className="border-none">
@@ -202,6 +323,43 @@ const Index = () => {
                 </span>
               </AccordionTrigger>
               <AccordionContent className="px-6 pb-6 space-y-4">
+                {parsedResults.classification_details?.identifier_errors?.length > 0 && (
+                  <div className="p-3 bg-destructive/10 border border-destructive rounded-md">
+                    <p className="text-sm font-semibold text-destructive mb-2">
+                      🚫 Identifier Errors
+                      {parsedResults.classification_details.blocked_services?.length > 0 &&
+                        ` (dispatch blocked: ${parsedResults.classification_details.blocked_services.join(", ")})`}
+                    </p>
+                    {parsedResults.classification_details.identifier_errors.map((error: IdentifierError) => (
+                      <p key={error.path} className="text-xs text-destructive/90">
+                        <span className="font-mono">{error.path}</span> [{error.severity}]: {error.message}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {parsedResults.classification_details?.review_services?.length > 0 && (
+                  <div className="p-3 bg-warning/10 border border-warning rounded-md">
+                    <p className="text-sm font-semibold text-warning mb-2">
+                      ✋ Needs Review (dispatch held: {parsedResults.classification_details.review_services.join(", ")})
+                    </p>
+                    {parsedResults.classification_details.review_reasons?.map((reason: ReviewReason, idx: number) => (
+                      <p key={idx} className="text-xs text-warning/90">{reason.message}</p>
+                    ))}
+                    {parsedResults.classification_details.consensus?.fields
+                      ?.filter((field: ConsensusField) => !field.agreed)
+                      .map((field: ConsensusField) => (
+                        <p key={field.path} className="text-xs text-warning/90">
+                          <span className="font-mono">{field.path}</span>:{" "}
+                          {field.candidates.map((candidate) => `${candidate.value ?? "(missing)"} [${candidate.label}]`).join(" vs ")}
+                        </p>
+                      ))}
+                    {parsedResults.classification_details.consensus?.failed_samples?.map((sample: { label: string; error: string }) => (
+                      <p key={sample.label} className="text-xs text-warning/90">
+                        Sample {sample.label} failed: {sample.error}
+                      </p>
+                    ))}
+                  </div>
+                )}
                 {parsedResults.classification_details?.electricity_date_warnings?.length > 0 && (
                   <div className="p-3 bg-warning/10 border border-warning rounded-md">
                     <p className="text-sm font-semibold text-warning mb-2">⚠️ Electricity Date Warnings:</p>
@@ -218,6 +376,14 @@ const Index = () => {
                     ))}
                   </div>
                 )}
+                {parsedResults.classification_details?.reading_checks?.warnings?.length > 0 && (
+                  <div className="p-3 bg-warning/10 border border-warning rounded-md">
+                    <p className="text-sm font-semibold text-warning mb-2">⚠️ Meter Reading Checks:</p>
+                    {parsedResults.classification_details.reading_checks.warnings.map((warning: ReadingWarning, idx: number) => (
+                      <p key={idx} className="text-xs text-warning/90">{warning.message}</p>
+                    ))}
+                  </div>
+                )}
                 <JsonViewer data={parsedResults} />
               </AccordionContent>
             </AccordionItem>
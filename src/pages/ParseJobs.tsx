@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Link } from "react-router-dom";
+import { History } from "lucide-react";
+
+interface ParseJob {
+  id: string;
+  status: string;
+  phone: string;
+  file_path: string | null;
+  image_url: string | null;
+  input_type: string | null;
+  services: string[];
+  confidence_score: number | null;
+  validation_warnings: unknown;
+  error: string | null;
+  total_duration_ms: number | null;
+  created_at: string;
+}
+
+const PAGE_SIZE = 100;
+
+const ParseJobs = () => {
+  const [jobs, setJobs] = useState<ParseJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [serviceFilter, setServiceFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const fetchJobs = useCallback(async () => {
+    let query = supabase
+      .from("parse_jobs")
+      .select("id, status, phone, file_path, image_url, input_type, services, confidence_score, validation_warnings, error, total_duration_ms, created_at")
+      .order("created_at", { ascending: false })
+      .limit(PAGE_SIZE);
+
+    if (statusFilter !== "all") query = query.eq("status", statusFilter);
+    if (serviceFilter !== "all") query = query.contains("services", [serviceFilter]);
+    if (fromDate) query = query.gte("created_at", new Date(`${fromDate}T00:00:00`).toISOString());
+    if (toDate) query = query.lte("created_at", new Date(`${toDate}T23:59:59.999`).toISOString());
+
+    const { data, error } = await query;
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      setJobs(data || []);
+    }
+    setLoading(false);
+  }, [statusFilter, serviceFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const getStatusVariant = (status: string) => {
+    const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+      completed: "default",
+      processing: "secondary",
+      dispatch_failed: "destructive",
+      failed: "destructive",
+    };
+    return variants[status] || "outline";
+  };
+
+  const formatDuration = (ms: number | null) => {
+    if (ms === null) return "-";
+    return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+  };
+
+  const resetFilters = () => {
+    setStatusFilter("all");
+    setServiceFilter("all");
+    setFromDate("");
+    setToDate("");
+  };
+
+  if (loading) return <div className="p-6">Loading...</div>;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Parse History</h1>
+            <p className="text-muted-foreground">Every bill run through the parser, newest first</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link to="/">← Back to Parser</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/review">Review Queue</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/batch">Batch Upload</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/reminders">Reminders</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/api-configs">API Configs</Link>
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-5 items-end">
+          <div>
+            <label className="text-sm font-medium">Status</label>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="needs_review">Needs review</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="dispatch_failed">Dispatch failed</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="processing">Processing</SelectItem>
+                <SelectItem value="queued">Queued</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium">Service</label>
+            <Select value={serviceFilter} onValueChange={setServiceFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All services</SelectItem>
+                <SelectItem value="electricity">Electricity</SelectItem>
+                <SelectItem value="gas">Gas</SelectItem>
+                <SelectItem value="meter">Meter</SelectItem>
+                <SelectItem value="broadband">Broadband</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <label className="text-sm font-medium">From</label>
+            <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="text-sm font-medium">To</label>
+            <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={resetFilters}>Clear filters</Button>
+        </div>
+
+        <div className="bg-card rounded-lg border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Services</TableHead>
+                <TableHead className="text-right">Confidence</TableHead>
+                <TableHead className="text-right">Warnings</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map((job) => (
+                <TableRow key={job.id}>
+                  <TableCell className="whitespace-nowrap text-sm">{new Date(job.created_at).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <span className="text-sm font-mono break-all">{job.file_path || job.image_url || "-"}</span>
+                    {job.input_type && <span className="ml-2 text-xs text-muted-foreground uppercase">{job.input_type}</span>}
+                  </TableCell>
+                  <TableCell className="text-sm">{job.phone}</TableCell>
+                  <TableCell>
+                    <Badge variant={getStatusVariant(job.status)}>{job.status.replace("_", " ")}</Badge>
+                    {job.error && <p className="text-xs text-destructive mt-1 line-clamp-2">{job.error}</p>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {job.services.map((service) => (
+                        <Badge key={service} variant="outline" className="capitalize">{service}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{job.confidence_score !== null ? `${job.confidence_score}%` : "-"}</TableCell>
+                  <TableCell className="text-right">{Array.isArray(job.validation_warnings) ? job.validation_warnings.length : 0}</TableCell>
+                  <TableCell className="text-right">{formatDuration(job.total_duration_ms)}</TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="outline" asChild>
+                      <Link to={`/?job=${job.id}`}>Open</Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {jobs.length === 0 && (
+            <div className="py-12 text-center">
+              <History className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">No parse runs match these filters</p>
+            </div>
+          )}
+        </div>
+
+        {jobs.length === PAGE_SIZE && (
+          <p className="text-xs text-muted-foreground text-center">
+            Showing the latest {PAGE_SIZE} runs. Narrow the date range to see older ones.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ParseJobs;
@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Link } from "react-router-dom";
+import { CalendarClock } from "lucide-react";
+import { daysBetween, formatBillDate } from "@shared/dates";
+import { DEFAULT_REMINDER_WINDOWS, reminderWindow } from "@shared/contract-reminders";
+
+interface ReminderSummary {
+  window_days: number;
+  contract_end_date: string;
+  status: string;
+  delivery_attempts: number;
+  last_error: string | null;
+}
+
+interface UpcomingContract {
+  id: string;
+  service: string;
+  premises_id: string;
+  phone: string;
+  supplier: string | null;
+  contract_end_date: string;
+  source_job_id: string | null;
+  contract_reminders: ReminderSummary[];
+}
+
+// The reminder windows are configured on the edge function; the list covers the default widest one
+const HORIZON_DAYS = Math.max(...DEFAULT_REMINDER_WINDOWS);
+const PAGE_SIZE = 200;
+
+const STATUS_VARIANTS: Record<string, "secondary" | "outline" | "destructive"> = {
+  delivered: "secondary",
+  pending: "outline",
+  sending: "outline",
+  failed: "destructive",
+};
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const Reminders = () => {
+  const [contracts, setContracts] = useState<UpcomingContract[]>([]);
+  const [loading, setLoading] = useState(true);
+  const today = isoDate(new Date());
+
+  const fetchContracts = useCallback(async () => {
+    const horizon = isoDate(new Date(Date.now() + HORIZON_DAYS * 86_400_000));
+    const { data, error } = await supabase
+      .from("contracts")
+      .select("id, service, premises_id, phone, supplier, contract_end_date, source_job_id, contract_reminders(window_days, contract_end_date, status, delivery_attempts, last_error)")
+      .gte("contract_end_date", today)
+      .lte("contract_end_date", horizon)
+      .order("contract_end_date", { ascending: true })
+      .limit(PAGE_SIZE);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      setContracts((data || []) as UpcomingContract[]);
+    }
+    setLoading(false);
+  }, [today]);
+
+  useEffect(() => {
+    fetchContracts();
+  }, [fetchContracts]);
+
+  if (loading) return <div className="p-6">Loading...</div>;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Renewal Reminders</h1>
+            <p className="text-muted-foreground">Contracts ending in the next {HORIZON_DAYS} days, soonest first</p>
+            <p className="text-xs text-muted-foreground">Reminders are raised and sent to the CRM daily at 07:00 UTC.</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link to="/">← Back to Parser</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/jobs">Parse History</Link>
+            </Button>
+          </div>
+        </div>
+
+        {contracts.length === 0 ? (
+          <div className="py-12 text-center bg-card rounded-lg border">
+            <CalendarClock className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No contracts end in the next {HORIZON_DAYS} days</p>
+          </div>
+        ) : (
+          <div className="bg-card rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ends</TableHead>
+                  <TableHead>Service</TableHead>
+                  <TableHead>Premises</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Reminders</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contracts.map((contract) => {
+                  const daysRemaining = daysBetween(today, contract.contract_end_date);
+                  const window = reminderWindow(daysRemaining, DEFAULT_REMINDER_WINDOWS);
+                  // Reminders raised for an earlier end date belong to the previous contract
+                  const reminders = contract.contract_reminders
+                    .filter((reminder) => reminder.contract_end_date === contract.contract_end_date)
+                    .sort((a, b) => b.window_days - a.window_days);
+                  return (
+                    <TableRow key={contract.id}>
+                      <TableCell>
+                        <div className="font-medium">{formatBillDate(contract.contract_end_date)}</div>
+                        <div className={`text-xs ${window !== null && window <= 7 ? "text-destructive" : "text-muted-foreground"}`}>
+                          {daysRemaining === 0 ? "today" : `in ${daysRemaining} day${daysRemaining === 1 ? "" : "s"}`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="capitalize">{contract.service}</TableCell>
+                      <TableCell className="font-mono text-xs">{contract.premises_id}</TableCell>
+                      <TableCell>
+                        {contract.source_job_id ? (
+                          <Link to={`/?job=${contract.source_job_id}`} className="text-primary hover:underline">{contract.phone}</Link>
+                        ) : contract.phone}
+                      </TableCell>
+                      <TableCell>{contract.supplier ?? "—"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {reminders.length === 0 && <span className="text-xs text-muted-foreground">none yet</span>}
+                          {reminders.map((reminder) => (
+                            <Badge
+                              key={reminder.window_days}
+                              variant={STATUS_VARIANTS[reminder.status] ?? "outline"}
+                              title={reminder.last_error ?? `${reminder.delivery_attempts} delivery attempt(s)`}
+                            >
+                              {reminder.window_days}d · {reminder.status}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {contracts.length === PAGE_SIZE && (
+          <p className="text-xs text-muted-foreground text-center">Showing the first {PAGE_SIZE} contracts.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Reminders;
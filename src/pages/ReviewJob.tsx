@@ -0,0 +1,259 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { BillDocumentViewer, type DocumentHighlight } from "@/components/BillDocumentViewer";
+import { ElectricityBillBreakdown } from "@/components/ElectricityBillBreakdown";
+import { GasBillBreakdown } from "@/components/GasBillBreakdown";
+import { BroadbandBreakdown } from "@/components/BroadbandBreakdown";
+import { MeterPhotoBreakdown } from "@/components/MeterPhotoBreakdown";
+import { ReconciliationSummary } from "@/components/ReconciliationSummary";
+import { TariffRanking } from "@/components/TariffRanking";
+import { applyBillEdit, validateBill, type BillFieldEditor } from "@/lib/bill-edit";
+import { submitReview } from "@/lib/review";
+import type { ParsedBill } from "@shared/bill-schema";
+import type { ReviewReason } from "@shared/review-gate";
+import type { IdentifierError } from "@shared/identifiers";
+import type { FieldSource } from "@shared/field-provenance";
+
+interface HeldJob {
+  id: string;
+  status: string;
+  phone: string;
+  file_path: string | null;
+  image_url: string | null;
+  source_file_name: string | null;
+  confidence_score: number | null;
+  parsed_data: ParsedBill | null;
+  classification_details: {
+    review_services?: string[];
+    review_reasons?: ReviewReason[];
+    identifier_errors?: IdentifierError[];
+  } | null;
+  field_sources: FieldSource[];
+  created_at: string;
+}
+
+// "bills.electricity[0].electricity_details.meter_details.mprn" -> "Electricity MPRN"
+const fieldLabel = (path: string) => {
+  const service = path.match(/^bills\.(\w+)/)?.[1] ?? "";
+  const leaf = path.split(".").pop() ?? path;
+  const name = leaf.length <= 4 ? leaf.toUpperCase() : leaf.replace(/_/g, " ");
+  return `${service.charAt(0).toUpperCase()}${service.slice(1)} ${name}`;
+};
+
+const ReviewJob = () => {
+  const { jobId } = useParams<{ jobId: string }>();
+  const navigate = useNavigate();
+  const [job, setJob] = useState<HeldJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [data, setData] = useState<ParsedBill | null>(null);
+  const [edited, setEdited] = useState<Set<string>>(new Set());
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [activeField, setActiveField] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchJob = async () => {
+      const { data: row, error } = await supabase
+        .from("parse_jobs")
+        .select("id, status, phone, file_path, image_url, source_file_name, confidence_score, parsed_data, classification_details, field_sources, created_at")
+        .eq("id", jobId)
+        .maybeSingle();
+
+      if (error) {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+      } else if (row) {
+        const held = row as unknown as HeldJob;
+        setJob(held);
+        setData(held.parsed_data);
+        setEdited(new Set());
+      }
+      setLoading(false);
+    };
+    fetchJob();
+  }, [jobId]);
+
+  const errors = useMemo(() => (data ? validateBill(data) : {}), [data]);
+  const errorCount = Object.keys(errors).length;
+  const reviewable = job?.status === "needs_review";
+
+  const editor: BillFieldEditor | undefined = reviewable
+    ? {
+      onChange: (path, value) => {
+        setData((prev) => (prev ? applyBillEdit(prev, path, value) : prev));
+        setEdited((prev) => new Set(prev).add(path));
+      },
+      errors,
+      edited,
+    }
+    : undefined;
+
+  const submitDecision = async (action: "approve" | "reject") => {
+    if (!job) return;
+    setSubmitting(true);
+    try {
+      const result = action === "approve"
+        ? await submitReview({
+          action,
+          job_id: job.id,
+          parsed_data: edited.size > 0 && data ? data : undefined,
+          note: note || undefined,
+        })
+        : await submitReview({ action, job_id: job.id, note: note || undefined });
+
+      if (action === "reject") {
+        toast({ title: "Rejected", description: "The parse was closed without dispatching." });
+      } else if (result.ok) {
+        toast({ title: "Approved", description: `Dispatched ${result.api_calls?.length ?? 0} API call(s).` });
+      } else {
+        toast({
+          title: "Approved, but dispatch failed",
+          description: "Retry the failed calls from the parse run.",
+          variant: "destructive",
+        });
+      }
+      navigate("/review");
+    } catch (error) {
+      toast({ title: "Review failed", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) return <div className="p-6">Loading...</div>;
+  if (!job) return <div className="p-6">Parse run not found</div>;
+
+  const details = job.classification_details ?? {};
+  const fileUrl = job.file_path ? supabase.storage.from("bills").getPublicUrl(job.file_path).data.publicUrl : job.image_url;
+  const bills = data?.bills;
+  const sources = job.field_sources ?? [];
+  const highlights: DocumentHighlight[] = sources
+    .filter((source) => source.bbox)
+    .map((source) => ({
+      field: source.field,
+      label: `${fieldLabel(source.field)}: ${source.text}`,
+      pageNumber: source.page_number,
+      bbox: source.bbox!,
+      mismatch: !source.matches_value,
+    }));
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Review Parse</h1>
+            <p className="text-muted-foreground">
+              {job.phone} · {new Date(job.created_at).toLocaleString()}
+              {job.confidence_score !== null && ` · ${job.confidence_score}% confidence`}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link to="/review">← Review Queue</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to={`/?job=${job.id}`}>Open in Parser</Link>
+            </Button>
+          </div>
+        </div>
+
+        {!reviewable && (
+          <div className="p-3 bg-muted rounded-md text-sm">
+            This parse is <Badge variant="outline">{job.status.replace("_", " ")}</Badge> and can no longer be edited.
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Card className="p-2 lg:sticky lg:top-6 lg:self-start lg:max-h-[calc(100vh-3rem)] overflow-auto">
+            {fileUrl
+              ? (
+                <BillDocumentViewer
+                  url={fileUrl}
+                  name={job.file_path || job.source_file_name || fileUrl}
+                  highlights={highlights}
+                  activeField={activeField}
+                />
+              )
+              : <p className="p-4 text-sm text-muted-foreground">No document stored for this parse</p>}
+          </Card>
+
+          <div className="space-y-4">
+            {((details.review_reasons ?? []).length > 0 || (details.identifier_errors ?? []).length > 0) && (
+              <div className="p-3 bg-warning/10 border border-warning rounded-md space-y-1">
+                {(details.review_reasons ?? []).map((reason, idx) => (
+                  <p key={idx} className="text-sm text-warning">✋ {reason.message}</p>
+                ))}
+                {(details.identifier_errors ?? []).map((error) => (
+                  <p key={error.path} className="text-xs text-warning/90">
+                    <span className="font-mono">{error.path}</span> [{error.severity}]: {error.message}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {sources.length > 0 && (
+              <Card className="p-4 space-y-2">
+                <h3 className="text-sm font-semibold">Where the fields were read</h3>
+                {sources.map((source) => (
+                  <button
+                    key={source.field}
+                    type="button"
+                    onClick={() => setActiveField(source.field)}
+                    disabled={!source.bbox}
+                    className={`w-full text-left text-sm flex flex-wrap items-center gap-2 rounded px-2 py-1 hover:bg-muted ${activeField === source.field ? "bg-muted" : ""}`}
+                  >
+                    <span className="font-medium">{fieldLabel(source.field)}</span>
+                    <span className="text-muted-foreground">page {source.page_number}</span>
+                    <span className="font-mono text-xs break-all">"{source.text}"</span>
+                    {!source.matches_value && <Badge variant="destructive">differs from {String(source.value)}</Badge>}
+                    {!source.bbox && <span className="text-xs text-muted-foreground">(no location)</span>}
+                  </button>
+                ))}
+              </Card>
+            )}
+
+            <MeterPhotoBreakdown data={bills?.meter_photo} editor={editor} />
+            <ElectricityBillBreakdown data={bills?.electricity} editor={editor} />
+            <GasBillBreakdown data={bills?.gas} editor={editor} />
+            {(bills?.broadband?.length ?? 0) > 0 && <BroadbandBreakdown data={bills?.broadband} editor={editor} />}
+            <ReconciliationSummary data={data} />
+            <TariffRanking data={data} />
+
+            {reviewable && (
+              <Card className="p-4 space-y-3 sticky bottom-4">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  {(details.review_services ?? []).map((service) => (
+                    <Badge key={service} variant="outline" className="capitalize">{service}</Badge>
+                  ))}
+                  <span className="text-muted-foreground">
+                    {edited.size > 0 ? `${edited.size} field(s) corrected` : "No corrections"}
+                  </span>
+                  {errorCount > 0 && <span className="text-destructive">{errorCount} field(s) to fix before approving</span>}
+                </div>
+                <div className="flex flex-col md:flex-row gap-2 md:items-center">
+                  <Input placeholder="Review note (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+                  <div className="flex gap-2">
+                    <Button onClick={() => submitDecision("approve")} disabled={submitting || errorCount > 0}>
+                      Approve & dispatch
+                    </Button>
+                    <Button variant="destructive" onClick={() => submitDecision("reject")} disabled={submitting}>
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewJob;
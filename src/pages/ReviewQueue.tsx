@@ -0,0 +1,182 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Link } from "react-router-dom";
+import { ClipboardCheck } from "lucide-react";
+import { submitReview } from "@/lib/review";
+import type { ReviewReason } from "@shared/review-gate";
+import type { IdentifierError } from "@shared/identifiers";
+
+interface HeldJob {
+  id: string;
+  phone: string;
+  file_path: string | null;
+  image_url: string | null;
+  input_type: string | null;
+  confidence_score: number | null;
+  classification_details: {
+    review_services?: string[];
+    review_reasons?: ReviewReason[];
+    identifier_errors?: IdentifierError[];
+  } | null;
+  validation_warnings: unknown;
+  created_at: string;
+}
+
+const PAGE_SIZE = 50;
+
+const ReviewQueue = () => {
+  const [jobs, setJobs] = useState<HeldJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("parse_jobs")
+      .select("id, phone, file_path, image_url, input_type, confidence_score, classification_details, validation_warnings, created_at")
+      .eq("status", "needs_review")
+      .order("created_at", { ascending: true })
+      .limit(PAGE_SIZE);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      setJobs((data || []) as HeldJob[]);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const fileUrl = (job: HeldJob) =>
+    job.file_path ? supabase.storage.from("bills").getPublicUrl(job.file_path).data.publicUrl : job.image_url;
+
+  const submitDecision = async (job: HeldJob, action: "approve" | "reject") => {
+    setSubmitting(job.id);
+    try {
+      const data = await submitReview({ action, job_id: job.id, note: notes[job.id] });
+
+      if (action === "reject") {
+        toast({ title: "Rejected", description: "The parse was closed without dispatching." });
+      } else if (data.ok) {
+        toast({ title: "Approved", description: `Dispatched ${data.api_calls?.length ?? 0} API call(s).` });
+      } else {
+        toast({
+          title: "Approved, but dispatch failed",
+          description: "Retry the failed calls from the parse run.",
+          variant: "destructive",
+        });
+      }
+      setJobs((prev) => prev.filter((held) => held.id !== job.id));
+    } catch (error) {
+      toast({ title: "Review failed", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (loading) return <div className="p-6">Loading...</div>;
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Review Queue</h1>
+            <p className="text-muted-foreground">Parses held before dispatch, oldest first</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link to="/">← Back to Parser</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/jobs">Parse History</Link>
+            </Button>
+          </div>
+        </div>
+
+        {jobs.length === 0 && (
+          <div className="py-12 text-center bg-card rounded-lg border">
+            <ClipboardCheck className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">Nothing is waiting for review</p>
+          </div>
+        )}
+
+        {jobs.map((job) => {
+          const details = job.classification_details ?? {};
+          const url = fileUrl(job);
+          return (
+            <Card key={job.id} className="p-4 space-y-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {(details.review_services ?? []).map((service) => (
+                      <Badge key={service} variant="outline" className="capitalize">{service}</Badge>
+                    ))}
+                    <span className="text-sm text-muted-foreground">
+                      {job.confidence_score !== null ? `${job.confidence_score}% confidence` : "no confidence score"}
+                    </span>
+                  </div>
+                  <p className="text-sm">
+                    {job.phone} · {new Date(job.created_at).toLocaleString()}
+                    {job.input_type && <span className="ml-2 text-xs text-muted-foreground uppercase">{job.input_type}</span>}
+                  </p>
+                  {url && (
+                    <a href={url} target="_blank" rel="noreferrer" className="text-sm font-mono text-primary hover:underline break-all">
+                      {job.file_path || job.image_url}
+                    </a>
+                  )}
+                </div>
+                <Button size="sm" asChild>
+                  <Link to={`/review/${job.id}`}>Review side by side</Link>
+                </Button>
+              </div>
+
+              <div className="p-3 bg-warning/10 border border-warning rounded-md space-y-1">
+                {(details.review_reasons ?? []).map((reason, idx) => (
+                  <p key={idx} className="text-sm text-warning">✋ {reason.message}</p>
+                ))}
+                {(details.identifier_errors ?? []).map((error) => (
+                  <p key={error.path} className="text-xs text-warning/90">
+                    <span className="font-mono">{error.path}</span> [{error.severity}]: {error.message}
+                  </p>
+                ))}
+              </div>
+
+              <div className="flex flex-col md:flex-row gap-2 md:items-center">
+                <Input
+                  placeholder="Review note (optional)"
+                  value={notes[job.id] ?? ""}
+                  onChange={(e) => setNotes((prev) => ({ ...prev, [job.id]: e.target.value }))}
+                />
+                <div className="flex gap-2">
+                  <Button onClick={() => submitDecision(job, "approve")} disabled={submitting === job.id}>
+                    Approve & dispatch
+                  </Button>
+                  <Button variant="destructive" onClick={() => submitDecision(job, "reject")} disabled={submitting === job.id}>
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          );
+        })}
+
+        {jobs.length === PAGE_SIZE && (
+          <p className="text-xs text-muted-foreground text-center">
+            Showing the oldest {PAGE_SIZE} held parses. Clear these to see the rest.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewQueue;
@@ -0,0 +1,30 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// Downstream API configuration, loaded from the api_configs table.
+// Each active row for a service_type receives its own request, with the
+// row's `parameters` rendered against the parsed bill (see field-mapping.ts).
+
+export type ApiConfig = {
+  id: string;
+  name: string;
+  endpoint_url: string;
+  service_type: string;
+  parameters: Record<string, unknown>;
+  is_active: boolean;
+};
+
+export async function loadActiveApiConfigs(supabase: SupabaseClient, serviceTypes: string[]): Promise<ApiConfig[]> {
+  if (serviceTypes.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("api_configs")
+    .select("id, name, endpoint_url, service_type, parameters, is_active")
+    .eq("is_active", true)
+    .in("service_type", serviceTypes)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load API configs: ${error.message}`);
+  }
+  return (data || []) as ApiConfig[];
+}
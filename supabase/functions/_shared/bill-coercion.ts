@@ -0,0 +1,271 @@
+import { BILL_SCHEMA, type ParsedBill } from "./bill-schema.ts";
+import { billingPeriodDays, parseBillDate, parseBillingPeriodText, UNKNOWN_DATE } from "./dates.ts";
+
+// Schema-driven validation and coercion of the model's tool-call output.
+//
+// The model returns JSON that matches BILL_SCHEMA in shape but not always in
+// content: amounts arrive as "€123.45", dates in whatever format the bill
+// printed, enums as "cents" or "per day". Every leaf is coerced to its schema
+// type, each change is recorded as a BillCoercion, and values that cannot be
+// coerced are dropped. Output whose structure is unusable raises
+// BillOutputError with a machine-readable code.
+
+export type BillOutputErrorCode = "invalid_json" | "invalid_structure";
+
+export class BillOutputError extends Error {
+  constructor(public readonly code: BillOutputErrorCode, message: string) {
+    super(message);
+    this.name = "BillOutputError";
+  }
+}
+
+export type BillCoercion = {
+  path: string;
+  from: unknown;
+  to: unknown;
+  reason: string;
+};
+
+export type CoercedBill = {
+  data: ParsedBill;
+  coercions: BillCoercion[];
+};
+
+type SchemaNode = {
+  readonly type?: string;
+  readonly properties?: Readonly<Record<string, SchemaNode>>;
+  readonly items?: SchemaNode;
+  readonly enum?: readonly string[];
+};
+
+// Spellings the model uses for each enum value
+const ENUM_SYNONYMS: Record<string, string[]> = {
+  cent: ["c", "ct", "cents", "c/kwh", "cent/kwh", "cents/kwh"],
+  euro: ["€", "eur", "euros", "€/kwh", "euro/kwh"],
+  daily: ["day", "per day", "/day", "a day", "p/day", "per diem"],
+  annual: ["year", "yearly", "annually", "per year", "/year", "a year", "per annum", "p.a.", "pa"],
+};
+
+const SERVICE_SECTIONS = ["cus_details", "electricity", "gas", "broadband"] as const;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isDateField = (key: string) => key === "date" || key.endsWith("_date");
+
+// "€1,234.56", "123.45 EUR", "12.5c", "(12.30)", "-4.20 CR", "€-4.20" -> number
+export function parseAmount(value: string): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  const credit = /^\(.*\)$/.test(text) || /\bCR$/i.test(text);
+  text = text.replace(/^\(|\)$/g, "").replace(/\bCR$/i, "").replace(/(?:€|£|eur(?:os?)?|cents?|c|kwh|%)/gi, "");
+  text = text.replace(/[\s,]/g, "");
+  // The minus sign may come before or after the currency symbol
+  const negative = credit || text.startsWith("-");
+  text = text.replace(/^-/, "");
+
+  if (!/^\d+(?:\.\d+)?$/.test(text)) return null;
+  const amount = Number(text);
+  return negative ? -amount : amount;
+}
+
+function coerceEnum(value: unknown, allowed: readonly string[]): string | null {
+  const text = String(value).trim().toLowerCase();
+  if (allowed.includes(text)) return text;
+  return allowed.find((option) => ENUM_SYNONYMS[option]?.includes(text)) ?? null;
+}
+
+class Coercer {
+  coercions: BillCoercion[] = [];
+
+  private record(path: string, from: unknown, to: unknown, reason: string) {
+    this.coercions.push({ path, from, to, reason });
+  }
+
+  // Returns the coerced value, or undefined to drop the field
+  coerce(value: unknown, schema: SchemaNode, path: string, key: string): unknown {
+    if (value === null || value === undefined) return undefined;
+
+    if (schema.enum) {
+      const coerced = coerceEnum(value, schema.enum);
+      if (coerced === null) {
+        this.record(path, value, null, `not one of ${schema.enum.join(", ")}`);
+        return undefined;
+      }
+      if (coerced !== value) this.record(path, value, coerced, "normalised enum value");
+      return coerced;
+    }
+
+    if (key === "billing_period") return this.coerceBillingPeriod(value, schema, path);
+
+    switch (schema.type) {
+      case "object":
+        return this.coerceObject(value, schema, path);
+      case "array":
+        return this.coerceArray(value, schema, path, key);
+      case "number":
+      case "integer":
+        return this.coerceNumber(value, path);
+      case "boolean":
+        return this.coerceBoolean(value, path);
+      case "string":
+        return this.coerceString(value, path, key);
+      default:
+        return value;
+    }
+  }
+
+  private coerceObject(value: unknown, schema: SchemaNode, path: string): unknown {
+    if (!isPlainObject(value)) {
+      this.record(path, value, null, "expected an object");
+      return undefined;
+    }
+
+    // Unknown keys are kept as-is; only fields the schema describes are coerced
+    const result: Record<string, unknown> = { ...value };
+    for (const [childKey, childSchema] of Object.entries(schema.properties ?? {})) {
+      if (!(childKey in value)) continue;
+      const coerced = this.coerce(value[childKey], childSchema, `${path}.${childKey}`, childKey);
+      if (coerced === undefined) delete result[childKey];
+      else result[childKey] = coerced;
+    }
+    return result;
+  }
+
+  // `{ start_date, end_date, days_count }`; free-text periods are split, days_count is derived from the dates
+  private coerceBillingPeriod(value: unknown, schema: SchemaNode, path: string): unknown {
+    let period = value;
+    if (typeof value === "string") {
+      const parsed = parseBillingPeriodText(value);
+      if (!parsed) {
+        this.record(path, value, null, "unrecognised billing period");
+        return undefined;
+      }
+      this.record(path, value, parsed, "split billing period text into dates");
+      period = parsed;
+    }
+
+    const coerced = this.coerceObject(period, schema, path) as Record<string, unknown> | undefined;
+    if (!coerced) return undefined;
+
+    const { start_date, end_date, days_count } = coerced;
+    if (typeof start_date === "string" && typeof end_date === "string") {
+      const days = billingPeriodDays(start_date, end_date);
+      if (days < 1) {
+        // The date checks penalise the inverted range; a day count for it is meaningless
+        if (days_count !== undefined) this.record(`${path}.days_count`, days_count, null, "billing period ends before it starts");
+        delete coerced.days_count;
+      } else if (days_count !== days) {
+        if (days_count !== undefined) this.record(`${path}.days_count`, days_count, days, "recalculated from billing period dates");
+        coerced.days_count = days;
+      }
+    }
+    return coerced;
+  }
+
+  private coerceArray(value: unknown, schema: SchemaNode, path: string, key: string): unknown {
+    let items: unknown[];
+    if (Array.isArray(value)) {
+      items = value;
+    } else {
+      this.record(path, typeof value, "array", "wrapped single value in an array");
+      items = [value];
+    }
+
+    const itemSchema = schema.items ?? {};
+    return items
+      .map((item, index) => this.coerce(item, itemSchema, `${path}[${index}]`, key))
+      .filter((item) => item !== undefined);
+  }
+
+  private coerceNumber(value: unknown, path: string): number | undefined {
+    if (typeof value === "number") {
+      if (Number.isFinite(value)) return value;
+      this.record(path, value, null, "not a finite number");
+      return undefined;
+    }
+
+    const amount = typeof value === "string" ? parseAmount(value) : null;
+    if (amount === null) {
+      this.record(path, value, null, "not a number");
+      return undefined;
+    }
+    this.record(path, value, amount, "parsed number from text");
+    return amount;
+  }
+
+  private coerceBoolean(value: unknown, path: string): boolean | undefined {
+    if (typeof value === "boolean") return value;
+
+    const text = String(value).trim().toLowerCase();
+    const coerced = ["true", "yes", "y", "1"].includes(text) ? true : ["false", "no", "n", "0"].includes(text) ? false : undefined;
+    this.record(path, value, coerced ?? null, coerced === undefined ? "not a boolean" : "parsed boolean from text");
+    return coerced;
+  }
+
+  private coerceString(value: unknown, path: string, key: string): string | undefined {
+    if (typeof value === "object") {
+      this.record(path, value, null, "expected a string");
+      return undefined;
+    }
+
+    const text = String(value).trim();
+    if (typeof value !== "string") this.record(path, value, text, "converted to string");
+    if (!text) return undefined;
+
+    if (isDateField(key)) {
+      if (text === UNKNOWN_DATE) {
+        this.record(path, text, null, "unknown date placeholder");
+        return undefined;
+      }
+      const iso = parseBillDate(text);
+      if (!iso) {
+        this.record(path, text, null, "unrecognised date");
+        return undefined;
+      }
+      if (iso !== text) this.record(path, text, iso, "normalised date to YYYY-MM-DD");
+      return iso;
+    }
+
+    return text;
+  }
+}
+
+// Parse and coerce the raw tool-call arguments (a JSON string or an already-parsed object)
+export function coerceBillOutput(raw: unknown): CoercedBill {
+  let parsed: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw);
+    } catch (error) {
+      throw new BillOutputError("invalid_json", `Tool call arguments are not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new BillOutputError("invalid_structure", "Tool call arguments must be a JSON object");
+  }
+  const bills = parsed.bills ?? {};
+  if (!isPlainObject(bills)) {
+    throw new BillOutputError("invalid_structure", "`bills` must be an object");
+  }
+  for (const section of SERVICE_SECTIONS) {
+    const value = bills[section];
+    if (value !== undefined && value !== null && !Array.isArray(value) && !isPlainObject(value)) {
+      throw new BillOutputError("invalid_structure", `\`bills.${section}\` must be an array of objects, got ${typeof value}`);
+    }
+  }
+
+  const coercer = new Coercer();
+  const billsSchema = BILL_SCHEMA.properties.bills as SchemaNode;
+  const coercedBills = coercer.coerce(bills, billsSchema, "bills", "bills") as Record<string, unknown>;
+  for (const section of SERVICE_SECTIONS) {
+    if (!coercedBills[section]) coercedBills[section] = [];
+  }
+
+  return {
+    data: { ...parsed, bills: coercedBills } as ParsedBill,
+    coercions: coercer.coercions,
+  };
+}
@@ -0,0 +1,71 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { ParsedBill } from "./bill-schema.ts";
+import { loadActiveApiConfigs } from "./api-configs.ts";
+import { buildMappingContext, renderParameters } from "./field-mapping.ts";
+import { type BillFile, type DispatchRequest, type DispatchResult, dispatchToEndpoint, fetchBillFile } from "./onebill-dispatch.ts";
+
+// Send a parsed bill to every active api_configs row of the selected services.
+// Used by onebill-vision-parse for the automatic dispatch and by onebill-review
+// when an operator approves a held parse.
+
+export type BillDispatch = {
+  services: string[];
+  parsedData: ParsedBill;
+  phone: string;
+  filePath: string | null | undefined;
+  fileUrl: string;
+  apiKey: string;
+};
+
+export type BillDispatchOutcome = {
+  apiResults: DispatchResult[];
+  warnings: string[];
+};
+
+// Public URL of an object in the `bills` storage bucket
+export function billsPublicUrl(path: string): string {
+  return `${Deno.env.get("SUPABASE_URL")!}/storage/v1/object/public/bills/${path.split("/").map(encodeURIComponent).join("/")}`;
+}
+
+export async function dispatchBill(supabase: SupabaseClient, dispatch: BillDispatch): Promise<BillDispatchOutcome> {
+  const { services, parsedData, phone, filePath, fileUrl, apiKey } = dispatch;
+  const warnings: string[] = [];
+
+  // Load every active config for the selected services and render its parameters template
+  const apiConfigs = await loadActiveApiConfigs(supabase, services);
+  const mappingContext = buildMappingContext(parsedData, phone, filePath);
+  const apiCalls: DispatchRequest[] = apiConfigs.map((config) => {
+    const { payload, errors } = renderParameters(config.parameters, mappingContext);
+    for (const { key, message } of errors) {
+      console.warn(`⚠️ Field mapping error in '${config.name}' parameter '${key}': ${message}`);
+      warnings.push(`Field mapping error in API config '${config.name}' parameter '${key}': ${message}`);
+    }
+    return {
+      type: config.service_type,
+      endpoint: config.endpoint_url,
+      config_id: config.id,
+      config_name: config.name,
+      payload,
+    };
+  });
+
+  for (const service of services) {
+    if (!apiConfigs.some((config) => config.service_type === service) && service !== "broadband") {
+      console.warn(`⚠️ No active API config for ${service} - skipping dispatch`);
+      warnings.push(`No active API config for service '${service}' - bill was not dispatched`);
+    }
+  }
+
+  // Call all configured API endpoints with the original file attached
+  let billFile: BillFile | null = null;
+  if (apiCalls.length > 0) {
+    try {
+      billFile = await fetchBillFile(fileUrl, filePath);
+    } catch (e) {
+      console.error("Failed to fetch original file for upload:", e);
+    }
+  }
+  const apiResults = await Promise.all(apiCalls.map((call) => dispatchToEndpoint(call, billFile, apiKey)));
+
+  return { apiResults, warnings };
+}
@@ -0,0 +1,696 @@
+import type { ParsedBill } from "./bill-schema.ts";
+import type { BillCoercion } from "./bill-coercion.ts";
+import { parseBillDate, resolveBillingPeriod } from "./dates.ts";
+import { checkBillIdentifiers, type IdentifierError, type IdentifierService, servicesWithCriticalErrors } from "./identifiers.ts";
+import { crossCheckIdentifiers, crossCheckPenalty, type IdentifierCrossCheck } from "./identifier-scan.ts";
+import type { DocumentText } from "./document-text.ts";
+import { checkMeterPhoto, type MeterPhotoCheck } from "./meter-photo.ts";
+import { checkMeterReadings, type MeterReadingCheck, readingPenalty } from "./meter-readings.ts";
+import { describeReconciliation, type Reconciliation, reconciliationPenalty, reconcileBill } from "./reconciliation.ts";
+import type { VisionContentPart } from "./vision-providers.ts";
+
+// The deterministic half of the parse pipeline: the prompt sent to the vision
+// model, and everything that happens to its (coerced) output before dispatch -
+// consistency rules, identifier checks, classification and confidence scoring.
+// No I/O happens here, so onebill-vision-parse and the evaluation harness
+// (scripts/eval) produce identical results for the same model output.
+
+export type DispatchService = "electricity" | "gas" | "meter" | "broadband";
+
+export type BillAnalysis = {
+  validationWarnings: string[];
+  identifierErrors: IdentifierError[];
+  servicesWithInvalidIdentifiers: IdentifierService[];
+  identifierCrossChecks: IdentifierCrossCheck[];
+  electricityBillingIndicators: number;
+  gasBillingIndicators: number;
+  electricityDateWarnings: string[];
+  gasDateWarnings: string[];
+  // Null when the model returned no meter_photo section
+  meterPhoto: MeterPhotoCheck | null;
+  readingChecks: MeterReadingCheck;
+  // One per service whose line items are complete enough to rebuild the total
+  reconciliations: Reconciliation[];
+  hasElectricityData: boolean;
+  hasGasData: boolean;
+  // Services the bill should be sent to, before any dispatch is blocked or held
+  dispatchServices: DispatchService[];
+  confidenceScore: number;
+};
+
+export const PARSE_PROMPT = `Parse Irish utility bills comprehensively. Extract EVERY visible field. Return ONE JSON object only. No prose.
+
+⚠️ CRITICAL FIELD PRIORITIES (IN ORDER OF IMPORTANCE):
+1. MPRN (Meter Point Reference Number) - MOST CRITICAL for electricity routing
+   - ALWAYS starts with '10'
+   - ALWAYS exactly 11 digits long (e.g., 10305037936)
+   - If customer photographed full bill front/back, MPRN will ALWAYS be present
+   - Different suppliers display it differently (grid format OR side-by-side with DG/MC/Profile)
+   
+2. DG type (DG1, DG2, DG3, DG4) - CRITICAL for electricity API
+   - Must be prefixed with "DG" (add prefix if missing)
+   - Displayed near MPRN (grid format OR side-by-side)
+   
+3. MCC type (MCC01, MCC12, etc.) - CRITICAL determines meter type (traditional vs smart)
+   - Must be prefixed with "MCC" (add prefix if missing)
+   - May be labeled "MC" in grid format
+   - MCC12 = SMART METER (NO traditional meter readings, only kWh totals by time band)
+   
+4. Contract end date - CRITICAL if present on bill  
+
+5. Tariff name - VERY IMPORTANT (often near meter readings area)
+
+6. Meter readings with EXACT dates - correlate each reading with its specific read_date
+   - Meter readings often get mixed up with other numbers on bills
+   - IDENTIFICATION: Look for numbers with (A), (E), (C), or (P) appended to them
+     * (A) = Actual Meter Reading (physically read)
+     * (E) = Estimated Meter Reading (calculated)
+     * (C) = Customer Meter Reading (customer submitted)
+     * (P) = Prorated
+   - Meter readings are usually 5 or 6 digits long
+   - ONLY for traditional meters (NOT MCC12 smart meters)
+   
+7. GPRN (Gas Point Reference Number) - CRITICAL for gas routing
+
+8. Microgeneration/Solar/Export - ALWAYS check every bill for these credits
+
+9. Invoice/account numbers - LOW PRIORITY, can be ignored completely
+
+⚠️ CRITICAL ANTI-HALLUCINATION RULES:
+1. ONLY extract data you can DIRECTLY see - NEVER invent, guess, or fabricate
+2. If a field is not clearly visible, leave it EMPTY
+3. Most bills are SINGLE-SERVICE (electricity OR gas, not both)
+4. DO NOT extract identifiers from unrelated numbers like serial numbers or barcodes
+5. Invoice number and account number are LOW PRIORITY - skip if unclear
+
+CRITICAL: Distinguish between:
+1. UTILITY BILLS: Documents with invoice numbers, account numbers, billing periods, meter readings, charges breakdown, and financial totals
+2. METER PHOTOS: Physical meter displays (may show serial numbers, GPRN/MPRN visible on meter but NO invoice/billing data)
+3. ANNUAL STATEMENTS: Multi-month usage summaries labeled "statement" or "annual review" (NOT bills)
+
+METER PHOTO PARSING SPECIFICATIONS:
+Photos are likely blurry, angled poorly, badly lit. Most important: Type of meter (electricity/gas) and the 5-digit reading(s).
+
+1) CLASSIFY UTILITY FIRST:
+   GAS INDICATORS:
+   - Unit m³ or label "Meter Index … m³"
+   - Roller counter with last digit(s) on RED background or with decimal
+   - Models: BK-G4, G4, Apator G4, Landis+Gyr L210 (gas smart)
+   - Labels: "Gas Networks Ireland", "Bord Gáis"
+   
+   ELECTRICITY INDICATORS:
+   - Unit kWh (or kvarh shown nearby)
+   - Phrases/labels: A+, T1/T2, ESB Networks, Sagemcom, Kamstrup
+   
+   Return: utility = "gas" or "electricity"
+
+2) EXTRACT READINGS (critical rules):
+   GAS METERS (m³):
+   - Use integer BEFORE decimal point or red digits
+   - Examples:
+     * "Meter Index 02331.350 m³" → read_value=2331
+     * Roller "12038 8 m³" (final red digit is decimal) → read_value=12038
+     * "15019[red 57] m³" → read_value=15019
+     * "17113[red 5] m³" → read_value=17113
+   - Fields: read_value (integer), unit="m3"
+   - Strip leading zeros: 02331 → 2331
+   
+   ELECTRICITY METERS (kWh):
+   - Capture main kWh value shown
+   - Examples:
+     * "39147 kWh" → read_value=39147
+     * "I.8.0 A+ 3359 kWh" → read_value=3359
+   - If BOTH T1 and T2 visible: extract each AND compute total = T1 + T2
+   - Digital meters have multiple reads (TOU/Time of use tariffs, import/export)
+   - Photos may show button cycling/menu navigation - read ALL visible values
+   - Prefer I.8.0 (total) if exists, else send currently displayed T-register
+   - Field: read_value (integer), unit="kWh", register (T1/T2/I.8.0)
+
+3) ALWAYS INCLUDE:
+   - meter_make, meter_model if visible (Elster, BK-G4, Sagemcom XS211, Landis+Gyr L210, Kamstrup, Apator G4)
+   - serial_number if visible (barcode/plate)
+   - register if shown (T1, T2, I.8.0)
+   - confidence (0-1) for detection accuracy and parsed reading accuracy
+   - raw_text (OCR'd text block for audit)
+
+4) EDGE CASES & VALIDATION:
+   - Strip leading zeros (02331 → 2331)
+   - Reject clearly partial frames (cropped counter, unreadable units) with is_meter=false
+   - NEVER convert gas m³ to kWh
+   - Round DOWN on gas where decimals/colored digits appear
+   - For electricity with multiple registers: prefer I.8.0 total if exists
+
+For METER PHOTOS: 
+- Return the reading in bills.meter_photo: is_meter, utility, read_value, unit, register, registers (every register shown, e.g. [{register: "T1", read_value: 20411}, {register: "T2", read_value: 9310}]), meter_make, meter_model, serial_number, confidence, raw_text
+- MPRN/GPRN printed on the meter still go in the electricity/gas meter_details
+- Leave blank: invoice_number, account_number, billing_period, charges, financial fields
+
+For UTILITY BILLS:
+- Extract EVERY field visible: customer info, service addresses, all meter readings with dates and types, unit rates, charges breakdown, PSO levy, carbon tax, VAT details, discounts, payment methods, direct debit info, contract dates, tariff names, carbon emissions, efficiency tips
+- ⚠️ CRITICAL: Extract data ONLY for the service(s) present in the document
+- ⚠️ If you see ONLY electricity data (MPRN, DG, MCC, kWh charges), DO NOT populate ANY gas fields (leave gas array EMPTY)
+- ⚠️ If you see ONLY gas data (GPRN, m³ charges), DO NOT populate ANY electricity fields (leave electricity array EMPTY)
+- Most Irish bills are SINGLE-SERVICE - combined bills are uncommon and must show BOTH services with separate sections
+
+⚠️ METER READING DATE CORRELATION - EXTREMELY CRITICAL:
+- Bills show "from" and "to" dates for the usage period
+- Each meter reading MUST have its exact read_date from the bill
+- Usage = latest_reading - previous_reading over that date range
+- Some bills have MULTIPLE periods (price changes, interim readings, meter changes)
+- Extract EVERY reading with: meter_number, read_date, read_type (A/E/CU/I), reading values
+- ALWAYS correlate each reading value with its specific date visible on the bill
+
+⚠️ SMART METERS (MCC12) - SPECIAL HANDLING:
+- Smart meters (MCC12) do NOT have traditional meter readings (previous/current pairs)
+- Instead: extract PRE-CALCULATED KWH TOTALS for time-of-use intervals
+- Time bands: Day, Night, Peak, EV (Electric Vehicle), Weekend, Saturday, Sunday, Microgen
+- These are usage amounts for THIS billing period ONLY
+- Can show multiples if mid-term or pro-rata change occurred
+- Extract as separate entries with kwh_total, unit_type (time band), rate, charge, and time_window
+
+⚠️ MICROGENERATION / SOLAR / EXPORT - CHECK EVERY BILL:
+- ALWAYS look for: "Microgen Credit", "Export", "Solar Feed-in", negative charges
+- Extract as charge entry with negative amount or dedicated field
+- This is increasingly common and MUST NOT be missed
+
+- Billing period: Extract exact start_date and end_date in YYYY-MM-DD format, calculate days_count
+
+COMPREHENSIVE FIELD LIST TO EXTRACT:
+
+**Customer & Account:**
+customer_name, billing_address (structured object), supply_address, vat_number, vat_registration_address, account_number (LOW PRIORITY - can skip), invoice_number (LOW PRIORITY - can skip), bill_number, is_final_bill (check for "Final Bill" indicator)
+
+**Billing Period:**
+billing_period.start_date, billing_period.end_date, billing_period.days_count, issue_date, billing_date, due_date, payment_due_date
+
+**Meter Identifiers:**
+Electricity (mandatory): mprn (11 digits, starts with '10'), dg (prefixed with "DG"), mcc_type (prefixed with "MCC")
+Electricity (optional): profile (0, 01, 02, 04, 27, etc - shown in grid with MPRN/DG/MC - NOT mandatory)
+Gas (mandatory): gprn
+Meter Photo: meter_serial_number, meter_manufacturer, meter_model
+
+**Meter Readings Array (structured - for TRADITIONAL meters ONLY, NOT MCC12):**
+Each reading: meter_number (5-6 digits), meter_serial, read_date (EXACT date from bill), read_type (A/E/C/P - look for these markers), previous_reading, current_reading, interim_reading (if multiple periods), multiplier, units_consumed (latest - previous), unit_type (Day/Night/24hr), rate_per_unit, total_charge, time_window
+
+Gas bills: also return charges_and_usage.units_consumed (m³ between the readings) and kWh_consumed (the kWh billed after conversion)
+
+**Smart Meter Usage Array (for MCC12 ONLY):**
+Each time band: unit_type (Day/Night/Peak/EV/Weekend/Saturday/Sunday/Microgen), kwh_total (pre-calculated usage for THIS billing period), rate_per_kwh, total_charge, time_window (e.g., "8am-5pm / 7pm-11pm")
+
+**Charges Breakdown:**
+electricity_charges array (description, units, rate, amount), standing_charge, pso_levy, carbon_tax, discounts, microgen_credit, subtotal_before_vat, vat_rate, vat_amount, total_including_vat
+In charges_and_usage: pso_levy, carbon_tax, discounts and microgen_credit are the euro amounts charged or credited this period (credits as positive numbers), vat_rate is a percentage (9 for 9%), vat_amount in euro
+
+**Financial:**
+previous_balance, payments_received, amount_outstanding, total_amount_due, direct_debit_collection_date
+
+**Broadband:**
+plan_name, phone_number, broadband_service_number, uan_numbers, iban, bic
+
+**Extra Context:**
+service_provider, tariff_name (VERY IMPORTANT - often near meter readings), contract_end_date (CRITICAL if present), payment_method, average_daily_use, comparison_same_period_last_year, comparison_average_residential, carbon_emissions_kg, energy_efficiency_tips, emergency_contact_numbers, customer_service_hours, complaint_process_info, fuel_mix_information
+
+FIELD SOURCES (for review - where each critical field was read):
+For every one of these fields you return, add one entry to the top-level field_sources array:
+MPRN, DG, MCC, profile, GPRN, contract end date, billing period start and end dates, total due, broadband account number
+- field: the path of the value in this output, e.g. "bills.electricity[0].electricity_details.meter_details.mprn", "bills.gas[0].supplier_details.billing_period.end_date"
+- page: 0-based index of the page/image the value is printed on, in the order the pages were given
+- bbox: { x, y, width, height } of the printed value as fractions (0-1) of that page's width/height, measured from the top-left corner
+- text: the text exactly as printed, including its label if adjacent (e.g. "MPRN 1030 5037 936")
+Skip fields you did not extract. Never add a source for a value you cannot see.
+
+Rules:
+- Dates: "YYYY-MM-DD"; unknown → "0000-00-00"
+- Numbers: numeric; unknown → 0
+- Booleans: true/false (not strings)
+- Currencies: "cent" or "euro"
+- Always include all top-level sections; empty arrays if not present
+- Do NOT hallucinate GPRN from meter serial numbers or barcodes on meter photos
+- Extract identifiers ONLY when clearly labeled as MPRN/GPRN, not from random numbers`;
+
+// Spreadsheet bills are sent to the model as text, after the prompt
+export function spreadsheetContentPart(fileContent: string, kind: "CSV" | "Excel"): VisionContentPart {
+  return {
+    type: "text",
+    text: `\n\nFile content (${kind} data):\n\`\`\`\n${fileContent.slice(0, 50000)}\n\`\`\``,
+  };
+}
+
+// Calculate parsing confidence score (0-100%)
+export function calculateConfidenceScore(parsedData: any, hasElectricityData: boolean, hasGasData: boolean): number {
+  let score = 0;
+  const weights = {
+    keyFields: 40,      // 40% for presence of key fields
+    dataCompleteness: 35, // 35% for completeness of billing data
+    dateConsistency: 25   // 25% for date consistency
+  };
+
+  // 1. Key Fields Score (40 points) - Updated priorities per user feedback
+  let keyFieldScore = 0;
+  const keyFieldsToCheck = [
+    // MOST CRITICAL fields (higher weight)
+    { path: 'bills.electricity[0].electricity_details.meter_details.mprn', points: 12, condition: hasElectricityData }, // MOST CRITICAL
+    { path: 'bills.electricity[0].electricity_details.meter_details.dg', points: 10, condition: hasElectricityData },  // CRITICAL
+    { path: 'bills.electricity[0].electricity_details.meter_details.mcc', points: 8, condition: hasElectricityData },  // CRITICAL (smart meter)
+    { path: 'bills.gas[0].gas_details.gprn', points: 10, condition: hasGasData }, // CRITICAL for gas
+    
+    // VERY IMPORTANT fields
+    { path: 'bills.electricity[0].supplier_details.contract_end_date', points: 5, condition: hasElectricityData }, // CRITICAL if present
+    { path: 'bills.electricity[0].supplier_details.tariff_name', points: 4, condition: hasElectricityData }, // VERY IMPORTANT
+    { path: 'bills.gas[0].supplier_details.contract_end_date', points: 5, condition: hasGasData },
+    { path: 'bills.gas[0].supplier_details.tariff_name', points: 4, condition: hasGasData },
+    
+    // Lower priority (per user: can be ignored if unclear)
+    { path: 'bills.electricity[0].electricity_details.invoice_number', points: 2, condition: hasElectricityData },
+    { path: 'bills.gas[0].gas_details.invoice_number', points: 2, condition: hasGasData }
+  ];
+
+  keyFieldsToCheck.forEach(field => {
+    // Skip if service not detected (condition explicitly false)
+    if ('condition' in field && field.condition === false) return;
+    
+    const value = field.path.split('.').reduce((obj, key) => obj?.[key], parsedData);
+    if (value && (typeof value !== 'string' || value.trim() !== '')) {
+      keyFieldScore += field.points;
+    }
+  });
+
+  score += Math.min(keyFieldScore, weights.keyFields);
+
+  // 2. Data Completeness Score (35 points) - Enhanced for meter reading validation
+  let completenessScore = 0;
+  
+  if (hasElectricityData) {
+    const elec = parsedData.bills.electricity?.[0];
+    if (resolveBillingPeriod(elec?.supplier_details?.billing_period)) completenessScore += 5;
+    if (elec?.supplier_details?.issue_date) completenessScore += 2;
+    
+    const meterReadings = elec?.charges_and_usage?.meter_readings || [];
+    if (meterReadings.length > 0) {
+      completenessScore += 6; // Base points for having readings
+      
+      // CRITICAL: Check meter reading date correlation
+      const readingsWithDates = meterReadings.filter((r: any) => r.date && r.date !== '0000-00-00').length;
+      const dateCorrelationRatio = readingsWithDates / meterReadings.length;
+      completenessScore += Math.floor(dateCorrelationRatio * 6); // Up to 6 bonus points for date correlation
+    }
+    
+    // For smart meters (MCC12): usage amounts are more important than traditional readings
+    const isSmart = elec?.electricity_details?.meter_details?.mcc === 'MCC12';
+    if (isSmart && elec?.charges_and_usage?.detailed_kWh_usage?.length > 0) {
+      completenessScore += 8; // Smart meter time band data
+    } else if (elec?.charges_and_usage?.detailed_kWh_usage?.length > 0) {
+      completenessScore += 4; // Traditional meter usage
+    }
+    
+    if (elec?.charges_and_usage?.total_amount_due > 0) completenessScore += 4;
+    
+    // Bonus for microgeneration detection
+    if (elec?.charges_and_usage?.microgen_credit || elec?.charges_and_usage?.has_microgeneration) {
+      completenessScore += 2;
+    }
+  }
+  
+  if (hasGasData) {
+    const gas = parsedData.bills.gas?.[0];
+    if (resolveBillingPeriod(gas?.supplier_details?.billing_period)) completenessScore += 5;
+    if (gas?.supplier_details?.issue_date) completenessScore += 2;
+    
+    const meterReadings = gas?.charges_and_usage?.meter_readings || [];
+    if (meterReadings.length > 0) {
+      completenessScore += 6;
+      
+      // Check date correlation for gas readings too
+      const readingsWithDates = meterReadings.filter((r: any) => r.date && r.date !== '0000-00-00').length;
+      const dateCorrelationRatio = readingsWithDates / meterReadings.length;
+      completenessScore += Math.floor(dateCorrelationRatio * 6);
+    }
+    
+    if (gas?.charges_and_usage?.gas_usage?.length > 0) completenessScore += 4;
+    if (gas?.charges_and_usage?.total_amount_due > 0) completenessScore += 4;
+  }
+
+  score += Math.min(completenessScore, weights.dataCompleteness);
+
+  // 3. Date Consistency Score (25 points)
+  let dateScore = 25; // Start with perfect score, deduct for issues
+  
+  const checkDateConsistency = (service: any, serviceName: string) => {
+    const billingPeriod = service?.supplier_details?.billing_period;
+    if (!billingPeriod?.start_date && !billingPeriod?.end_date) {
+      dateScore -= 5; // Missing billing period
+      return;
+    }
+
+    const period = resolveBillingPeriod(billingPeriod);
+    if (!period) {
+      dateScore -= 3; // Incomplete or unparseable billing period
+      return;
+    }
+
+    // ISO dates compare correctly as strings
+    const { start_date: periodStart, end_date: periodEnd } = period;
+    if (periodStart >= periodEnd) {
+      dateScore -= 5; // Invalid date range
+      return;
+    }
+
+    // Check meter reading dates
+    const readings = service?.charges_and_usage?.meter_readings || [];
+    readings.forEach((reading: any) => {
+      const readDate = parseBillDate(reading.date);
+      if (readDate && (readDate < periodStart || readDate > periodEnd)) {
+        dateScore -= 3; // Reading date outside billing period
+      }
+    });
+
+    // Check issue date
+    const issue = parseBillDate(service?.supplier_details?.issue_date);
+    if (issue && issue < periodEnd) {
+      dateScore -= 2; // Issue date before period end
+    }
+  };
+
+  if (hasElectricityData) checkDateConsistency(parsedData.bills.electricity?.[0], 'electricity');
+  if (hasGasData) checkDateConsistency(parsedData.bills.gas?.[0], 'gas');
+
+  score += Math.max(dateScore, 0);
+
+  return Math.round(Math.min(score, 100));
+}
+
+// Validate, classify and score the model output. Mutates `parsedData`: services judged hallucinated
+// are cleared and identifiers are normalised in place.
+export function analyzeParsedBill(
+  parsedData: ParsedBill,
+  options: { coercions: BillCoercion[]; documentText: DocumentText; isSpreadsheet: boolean },
+): BillAnalysis {
+  const { coercions, documentText, isSpreadsheet } = options;
+
+  // ========== POST-PARSING DATA CONSISTENCY VALIDATION ==========
+  // Cross-check parsed data to detect and remove hallucinated fields
+  console.log("🔍 Running data consistency validation...");
+  const validationWarnings: string[] = coercions.map((c) =>
+    c.to === null
+      ? `Dropped ${c.path}: ${JSON.stringify(c.from)} (${c.reason})`
+      : `Coerced ${c.path}: ${JSON.stringify(c.from)} → ${JSON.stringify(c.to)} (${c.reason})`
+  );
+
+  const electricityData = parsedData.bills.electricity?.[0];
+  const gasData = parsedData.bills.gas?.[0];
+
+  // Count substantial data points for each service
+  const countElectricityData = () => {
+    if (!electricityData) return 0;
+    return [
+      !!electricityData.electricity_details?.invoice_number,
+      !!electricityData.electricity_details?.account_number,
+      !!electricityData.electricity_details?.meter_details?.mprn,
+      !!electricityData.electricity_details?.meter_details?.dg,
+      !!resolveBillingPeriod(electricityData.supplier_details?.billing_period),
+      !!electricityData.charges_and_usage?.meter_readings?.length,
+      !!electricityData.charges_and_usage?.unit_rates,
+      !!(electricityData.financial_information?.total_due && electricityData.financial_information.total_due > 0)
+    ].filter(Boolean).length;
+  };
+
+  const countGasData = () => {
+    if (!gasData) return 0;
+    return [
+      !!gasData.gas_details?.invoice_number,
+      !!gasData.gas_details?.account_number,
+      !!gasData.gas_details?.meter_details?.gprn,
+      !!resolveBillingPeriod(gasData.supplier_details?.billing_period),
+      !!gasData.charges_and_usage?.meter_readings?.length,
+      !!gasData.charges_and_usage?.unit_rates,
+      !!(gasData.financial_information?.total_due && gasData.financial_information.total_due > 0)
+    ].filter(Boolean).length;
+  };
+
+  const electricityDataPoints = countElectricityData();
+  const gasDataPoints = countGasData();
+
+  console.log("Data points:", { electricity: electricityDataPoints, gas: gasDataPoints });
+
+  // Check service provider names for single-service validation
+  const electricityProvider = electricityData?.supplier_details?.name?.toLowerCase() || "";
+  const gasProvider = gasData?.supplier_details?.name?.toLowerCase() || "";
+
+  const electricityOnlyProviders = ["electric ireland", "esb networks", "esb energy", "energia"];
+  const gasOnlyProviders = ["flogas", "natural gas"];
+
+  const isElectricityOnlyProvider = electricityOnlyProviders.some(p => electricityProvider.includes(p));
+  const isGasOnlyProvider = gasOnlyProviders.some(p => gasProvider.includes(p));
+
+  // VALIDATION RULE 1: If one service has substantial data (4+) and the other has minimal data (≤2), clear the weak service
+  if (electricityDataPoints >= 4 && gasDataPoints <= 2 && gasDataPoints > 0) {
+    console.warn("⚠️ VALIDATION: Clearing gas data - electricity has substantial data but gas appears hallucinated");
+    validationWarnings.push("Clearing gas data - electricity has substantial data but gas appears hallucinated");
+    parsedData.bills.gas = [];
+  } else if (gasDataPoints >= 4 && electricityDataPoints <= 2 && electricityDataPoints > 0) {
+    console.warn("⚠️ VALIDATION: Clearing electricity data - gas has substantial data but electricity appears hallucinated");
+    validationWarnings.push("Clearing electricity data - gas has substantial data but electricity appears hallucinated");
+    parsedData.bills.electricity = [];
+  }
+
+  // VALIDATION RULE 2: If service provider is known single-service, clear the other service
+  if (isElectricityOnlyProvider && gasDataPoints > 0) {
+    console.warn(`⚠️ VALIDATION: Clearing gas data - provider '${electricityProvider}' is electricity-only`);
+    validationWarnings.push(`Clearing gas data - provider '${electricityProvider}' is electricity-only`);
+    parsedData.bills.gas = [];
+  } else if (isGasOnlyProvider && electricityDataPoints > 0) {
+    console.warn(`⚠️ VALIDATION: Clearing electricity data - provider '${gasProvider}' is gas-only`);
+    validationWarnings.push(`Clearing electricity data - provider '${gasProvider}' is gas-only`);
+    parsedData.bills.electricity = [];
+  }
+
+  // VALIDATION RULE 3: If identifier exists but NO billing fields (invoice, account, billing period), clear that service
+  const hasElectricityIdentifier = !!(electricityData?.electricity_details?.meter_details?.mprn || electricityData?.electricity_details?.meter_details?.dg);
+  const hasElectricityBillingFields = !!(electricityData?.electricity_details?.invoice_number || electricityData?.electricity_details?.account_number || resolveBillingPeriod(electricityData?.supplier_details?.billing_period));
+
+  const hasGasIdentifier = !!gasData?.gas_details?.meter_details?.gprn;
+  const hasGasBillingFields = !!(gasData?.gas_details?.invoice_number || gasData?.gas_details?.account_number || resolveBillingPeriod(gasData?.supplier_details?.billing_period));
+
+  if (hasElectricityIdentifier && !hasElectricityBillingFields && electricityDataPoints <= 1) {
+    console.warn("⚠️ VALIDATION: Clearing electricity data - has identifier but zero billing fields (likely meter photo)");
+    validationWarnings.push("Clearing electricity data - has identifier but zero billing fields (likely meter photo)");
+    parsedData.bills.electricity = [];
+  }
+
+  if (hasGasIdentifier && !hasGasBillingFields && gasDataPoints <= 1) {
+    console.warn("⚠️ VALIDATION: Clearing gas data - has identifier but zero billing fields (likely meter photo or hallucination)");
+    validationWarnings.push("Clearing gas data - has identifier but zero billing fields (likely meter photo or hallucination)");
+    parsedData.bills.gas = [];
+  }
+
+  // Deterministic identifier checks - normalises DG/MCC prefixes in place before anything reads them
+  const identifierErrors = checkBillIdentifiers(parsedData);
+  for (const error of identifierErrors) {
+    console.warn(`⚠️ VALIDATION: ${error.severity} identifier error at ${error.path}: ${error.message}`);
+    validationWarnings.push(`Invalid ${error.field.toUpperCase()} (${error.severity}): ${error.message}`);
+  }
+  const servicesWithInvalidIdentifiers = servicesWithCriticalErrors(identifierErrors);
+
+  // Meter photo reading checks - normalises unit, registers and the T1+T2 total in place
+  const meterPhoto = parsedData.bills.meter_photo ? checkMeterPhoto(parsedData.bills.meter_photo) : null;
+  if (meterPhoto) {
+    parsedData.bills.meter_photo = meterPhoto.photo;
+    for (const correction of meterPhoto.corrections) validationWarnings.push(`Meter reading: ${correction}`);
+    for (const error of meterPhoto.errors) {
+      console.warn(`⚠️ VALIDATION: meter photo reading rejected - ${error}`);
+      validationWarnings.push(`Invalid meter reading: ${error}`);
+    }
+  }
+
+  // Cross-check the model's identifiers against the document's own text
+  const identifierCrossChecks = documentText.source === "none" ? [] : crossCheckIdentifiers(parsedData, documentText.text);
+  console.log(`🔎 Text pre-pass: ${documentText.source} (${documentText.text.length} chars), ${identifierCrossChecks.length} identifier(s) cross-checked`);
+  for (const check of identifierCrossChecks.filter((c) => !c.found)) {
+    console.warn(`⚠️ VALIDATION: ${check.field} '${check.value}' at ${check.path} not found in document text`);
+    validationWarnings.push(`${check.field.toUpperCase()} '${check.value}' returned by the model does not appear in the document text`);
+  }
+
+  console.log("✅ Data consistency validation complete");
+  // ========== END VALIDATION ==========
+
+  // Document classification based on parsed fields (using validated data - reuse variables from validation)
+  const mprn = parsedData.bills.electricity?.[0]?.electricity_details?.meter_details?.mprn;
+  const dg = parsedData.bills.electricity?.[0]?.electricity_details?.meter_details?.dg;
+  const mcc = parsedData.bills.electricity?.[0]?.electricity_details?.meter_details?.mcc;
+
+  // Check if electricity has IDENTIFIER and BILL DATA (not just identifier) - reuse from validation
+  const hasElectricityIdentifierForClassification = !!(mprn || dg);
+  // ENHANCED: Count solid billing indicators (require at least 3 for strict bill classification)
+  const electricityBillingIndicators = [
+    !!parsedData.bills.electricity?.[0]?.electricity_details?.invoice_number,
+    !!parsedData.bills.electricity?.[0]?.electricity_details?.account_number,
+    !!resolveBillingPeriod(parsedData.bills.electricity?.[0]?.supplier_details?.billing_period),
+    !!(parsedData.bills.electricity?.[0]?.financial_information?.total_due && parsedData.bills.electricity[0].financial_information.total_due > 0),
+    !!(parsedData.bills.electricity?.[0]?.charges_and_usage?.meter_readings && parsedData.bills.electricity[0].charges_and_usage.meter_readings.length > 0),
+    !!(parsedData.bills.electricity?.[0]?.charges_and_usage?.unit_rates)
+  ].filter(Boolean).length;
+  const hasElectricityBillData = electricityBillingIndicators >= 3;
+  const hasElectricityData = hasElectricityIdentifierForClassification && hasElectricityBillData;
+
+  // Check if gas has IDENTIFIER and BILL DATA (not just identifier)
+  const gprn = parsedData.bills.gas?.[0]?.gas_details?.meter_details?.gprn;
+  const hasGasIdentifierForClassification = !!gprn;
+  // ENHANCED: Count solid billing indicators (require at least 3 for strict bill classification)
+  const gasBillingIndicators = [
+    !!parsedData.bills.gas?.[0]?.gas_details?.invoice_number,
+    !!parsedData.bills.gas?.[0]?.gas_details?.account_number,
+    !!resolveBillingPeriod(parsedData.bills.gas?.[0]?.supplier_details?.billing_period),
+    !!(parsedData.bills.gas?.[0]?.financial_information?.total_due && parsedData.bills.gas[0].financial_information.total_due > 0),
+    !!(parsedData.bills.gas?.[0]?.charges_and_usage?.meter_readings && parsedData.bills.gas[0].charges_and_usage.meter_readings.length > 0),
+    !!(parsedData.bills.gas?.[0]?.charges_and_usage?.unit_rates)
+  ].filter(Boolean).length;
+  const hasGasBillData = gasBillingIndicators >= 3;
+  const hasGasData = hasGasIdentifierForClassification && hasGasBillData;
+
+  // Date correlation validation for meter readings
+  const validateMeterReadingDates = (billingPeriod: unknown, readings: any[]): string[] => {
+    const warnings: string[] = [];
+    const period = resolveBillingPeriod(billingPeriod);
+    if (!period || !readings || readings.length === 0) return warnings;
+
+    const { start_date: periodStart, end_date: periodEnd } = period;
+    readings.forEach((reading, idx) => {
+      const readDate = parseBillDate(reading.date || reading.read_date);
+      if (!readDate) return;
+
+      // ISO dates compare correctly as strings
+      if (readDate < periodStart || readDate > periodEnd) {
+        warnings.push(`Meter reading ${idx + 1} date ${readDate} falls outside billing period ${periodStart} to ${periodEnd}`);
+      }
+    });
+
+    return warnings;
+  };
+
+  const electricityDateWarnings = parsedData.bills.electricity?.[0]?.supplier_details?.billing_period && parsedData.bills.electricity[0]?.charges_and_usage?.meter_readings
+    ? validateMeterReadingDates(parsedData.bills.electricity[0].supplier_details.billing_period, parsedData.bills.electricity[0].charges_and_usage.meter_readings)
+    : [];
+  const gasDateWarnings = parsedData.bills.gas?.[0]?.supplier_details?.billing_period && parsedData.bills.gas[0]?.charges_and_usage?.meter_readings
+    ? validateMeterReadingDates(parsedData.bills.gas[0].supplier_details.billing_period, parsedData.bills.gas[0].charges_and_usage.meter_readings)
+    : [];
+
+  if (electricityDateWarnings.length > 0) {
+    console.warn("⚠️ Electricity meter reading date warnings:", electricityDateWarnings);
+  }
+  if (gasDateWarnings.length > 0) {
+    console.warn("⚠️ Gas meter reading date warnings:", gasDateWarnings);
+  }
+  validationWarnings.push(...electricityDateWarnings, ...gasDateWarnings);
+
+  // Consumption implied by consecutive reads of each register, checked for plausibility and against the billed usage
+  const readingChecks = checkMeterReadings(parsedData);
+  for (const warning of readingChecks.warnings) {
+    console.warn(`⚠️ VALIDATION: ${warning.service} ${warning.code}: ${warning.message}`);
+    validationWarnings.push(warning.message);
+  }
+
+  // Rebuild each bill total from its line items; a bill that does not add up has a misread number
+  const reconciliations = reconcileBill(parsedData, readingChecks.consumption);
+  for (const reconciliation of reconciliations.filter((r) => r.status !== "matched")) {
+    console.warn(`⚠️ VALIDATION: ${describeReconciliation(reconciliation)}`);
+    validationWarnings.push(describeReconciliation(reconciliation));
+    for (const suspect of reconciliation.suspects) validationWarnings.push(`Possible misread: ${suspect.message}`);
+  }
+
+  console.log("Classification check:", { 
+    mprn, 
+    dg, 
+    mcc,
+    gprn,
+    hasElectricityIdentifier: hasElectricityIdentifierForClassification,
+    electricityBillingIndicators,
+    hasElectricityBillData,
+    hasElectricityData,
+    hasGasIdentifier: hasGasIdentifierForClassification,
+    gasBillingIndicators,
+    hasGasBillData,
+    hasGasData,
+    electricityDateWarnings: electricityDateWarnings.length,
+    gasDateWarnings: gasDateWarnings.length
+  });
+
+  // Determine document type classification with enhanced logic
+  if (hasElectricityData && hasGasData) {
+    console.log("📋 COMBINED BILL DETECTED: Contains both electricity and gas billing data (3+ indicators each) - will send to multiple APIs");
+  } else if (hasElectricityData) {
+    console.log(`⚡ ELECTRICITY BILL: Contains electricity billing data (identifier + ${electricityBillingIndicators}/6 billing indicators)`);
+  } else if (hasGasData) {
+    console.log(`🔥 GAS BILL: Contains gas billing data (identifier + ${gasBillingIndicators}/6 billing indicators)`);
+  } else if (hasElectricityIdentifierForClassification || hasGasIdentifierForClassification) {
+    console.log(`📸 METER PHOTO: Has identifier visible but insufficient billing data (E:${electricityBillingIndicators}, G:${gasBillingIndicators}) - defaulting to meter API`);
+  } else {
+    console.log("📊 METER READING: No identifiers or billing data - defaulting to meter API");
+  }
+
+  // Decide which services to dispatch based on classification (supports multiple APIs for combined bills)
+  const dispatchServices: DispatchService[] = [];
+
+  // For CSV/Excel files, be more lenient - send to electricity/gas if there's ANY indicator
+  // since CSV files are NEVER meter photos
+  const hasAnyElectricityIndicator = hasElectricityIdentifierForClassification || electricityBillingIndicators > 0;
+  const hasAnyGasIndicator = hasGasIdentifierForClassification || gasBillingIndicators > 0;
+
+  // Classify as Electricity-File if there's electricity data OR (for CSV/Excel) any electricity indicator
+  if (hasElectricityData || (isSpreadsheet && hasAnyElectricityIndicator)) {
+    console.log(isSpreadsheet && !hasElectricityData ? 
+      `⚡ CSV/Excel with electricity indicators (${electricityBillingIndicators}) - sending to electricity API` :
+      `⚡ ELECTRICITY BILL: sending to electricity API`);
+    dispatchServices.push("electricity");
+  }
+
+  // Classify as Gas-File if there's gas data OR (for CSV/Excel) any gas indicator
+  if (hasGasData || (isSpreadsheet && hasAnyGasIndicator && !hasAnyElectricityIndicator)) {
+    console.log(isSpreadsheet && !hasGasData ? 
+      `🔥 CSV/Excel with gas indicators (${gasBillingIndicators}) - sending to gas API` :
+      `🔥 GAS BILL: sending to gas API`);
+    dispatchServices.push("gas");
+  }
+
+  // Default to Meter API for non-CSV/Excel files that aren't classified as bills
+  if (!hasElectricityData && !hasGasData) {
+    if (isSpreadsheet) {
+      console.log("⚠️ CSV/Excel file with no recognizable billing data - skipping OneBill API");
+    } else {
+      console.log("📸 METER PHOTO: defaulting to Meter API");
+      dispatchServices.push("meter");
+    }
+  }
+
+  // Broadband is only dispatched when a downstream has been configured for it
+  if (parsedData.bills.broadband?.length > 0) {
+    dispatchServices.push("broadband");
+  }
+
+  // Calculate confidence score
+  const crossCheckPenaltyPoints = crossCheckPenalty(identifierCrossChecks);
+  const readingPenaltyPoints = readingPenalty(readingChecks.warnings);
+  const reconciliationPenaltyPoints = reconciliationPenalty(reconciliations);
+  const confidenceScore = Math.max(
+    0,
+    calculateConfidenceScore(parsedData, hasElectricityData, hasGasData) - crossCheckPenaltyPoints - readingPenaltyPoints - reconciliationPenaltyPoints,
+  );
+  console.log(`✅ Confidence score: ${confidenceScore}%${crossCheckPenaltyPoints > 0 ? ` (-${crossCheckPenaltyPoints} for unverified identifiers)` : ""}${readingPenaltyPoints > 0 ? ` (-${readingPenaltyPoints} for implausible readings)` : ""}${reconciliationPenaltyPoints > 0 ? ` (-${reconciliationPenaltyPoints} for totals that do not add up)` : ""}`);
+
+  return {
+    validationWarnings,
+    identifierErrors,
+    servicesWithInvalidIdentifiers,
+    identifierCrossChecks,
+    electricityBillingIndicators,
+    gasBillingIndicators,
+    electricityDateWarnings,
+    gasDateWarnings,
+    meterPhoto,
+    readingChecks,
+    reconciliations,
+    hasElectricityData,
+    hasGasData,
+    dispatchServices,
+    confidenceScore,
+  };
+}
@@ -0,0 +1,422 @@
+// Single source of truth for the shape of a parsed bill.
+//
+// BILL_SCHEMA is the JSON Schema handed to the model as the `parse_irish_bill`
+// tool's parameters; the TypeScript types below are derived from it, so the
+// edge functions and the React breakdown components can never drift from what
+// the model is asked to return.
+
+// Start/end are ISO dates; days_count is inclusive of both ends, as printed on bills
+const BILLING_PERIOD_SCHEMA = {
+  type: "object",
+  properties: {
+    start_date: { type: "string" },
+    end_date: { type: "string" },
+    days_count: { type: "number" }
+  }
+} as const;
+
+// Where a critical field was read: the input page (0-based, in the order the pages
+// were sent), its box as fractions of the page measured from the top-left, and the
+// text exactly as printed. Post-processed by field-provenance.ts.
+const FIELD_SOURCE_SCHEMA = {
+  type: "object",
+  properties: {
+    field: { type: "string" },
+    page: { type: "integer" },
+    bbox: {
+      type: "object",
+      properties: {
+        x: { type: "number" },
+        y: { type: "number" },
+        width: { type: "number" },
+        height: { type: "number" }
+      }
+    },
+    text: { type: "string" }
+  }
+} as const;
+
+// A photographed meter rather than a bill: the reading as displayed and what
+// identifies the meter. Validated and normalised by meter-photo.ts.
+const METER_PHOTO_SCHEMA = {
+  type: "object",
+  properties: {
+    is_meter: { type: "boolean" },
+    utility: { type: "string", enum: ["electricity", "gas"] },
+    read_value: { type: "integer" },
+    unit: { type: "string" },
+    register: { type: "string" },
+    registers: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          register: { type: "string" },
+          read_value: { type: "integer" }
+        }
+      }
+    },
+    meter_make: { type: "string" },
+    meter_model: { type: "string" },
+    serial_number: { type: "string" },
+    confidence: { type: "number" },
+    raw_text: { type: "string" }
+  }
+} as const;
+
+export const BILL_SCHEMA = {
+  type: "object",
+  properties: {
+    field_sources: {
+      type: "array",
+      items: FIELD_SOURCE_SCHEMA
+    },
+    bills: {
+      type: "object",
+      properties: {
+        cus_details: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              details: {
+                type: "object",
+                properties: {
+                  customer_name: { type: "string" },
+                  address: {
+                    type: "object",
+                    properties: {
+                      line_1: { type: "string" },
+                      line_2: { type: "string" },
+                      city: { type: "string" },
+                      county: { type: "string" },
+                      eircode: { type: "string" }
+                    }
+                  }
+                }
+              },
+              services: {
+                type: "object",
+                properties: {
+                  gas: { type: "boolean" },
+                  broadband: { type: "boolean" },
+                  electricity: { type: "boolean" }
+                }
+              }
+            }
+          }
+        },
+        electricity: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              electricity_details: {
+                type: "object",
+                properties: {
+                  invoice_number: { type: "string" },
+                  account_number: { type: "string" },
+                  contract_end_date: { type: "string" },
+                  meter_details: {
+                    type: "object",
+                    properties: {
+                      mprn: { type: "string" },
+                      dg: { type: "string" },
+                      mcc: { type: "string" },
+                      profile: { type: "string" }
+                    }
+                  }
+                }
+              },
+              supplier_details: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  tariff_name: { type: "string" },
+                  issue_date: { type: "string" },
+                  billing_period: BILLING_PERIOD_SCHEMA
+                }
+              },
+              charges_and_usage: {
+                type: "object",
+                properties: {
+                  meter_readings: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        reading_type: { type: "string" },
+                        date: { type: "string" },
+                        nsh_reading: { type: "number" },
+                        day_reading: { type: "number" },
+                        night_reading: { type: "number" },
+                        peak_reading: { type: "number" }
+                      }
+                    }
+                  },
+                  detailed_kWh_usage: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        start_read_date: { type: "string" },
+                        end_read_date: { type: "string" },
+                        day_kWh: { type: "number" },
+                        night_kWh: { type: "number" },
+                        peak_kWh: { type: "number" },
+                        ev_kWh: { type: "number" }
+                      }
+                    }
+                  },
+                  unit_rates: {
+                    type: "object",
+                    properties: {
+                      "24_hour_rate": { type: "number" },
+                      day: { type: "number" },
+                      night: { type: "number" },
+                      peak: { type: "number" },
+                      ev: { type: "number" },
+                      nsh: { type: "number" },
+                      rate_currency: { type: "string", enum: ["cent", "euro"] },
+                      rate_discount_percentage: { type: "number" }
+                    }
+                  },
+                  standing_charge: { type: "number" },
+                  standing_charge_currency: { type: "string", enum: ["cent", "euro"] },
+                  standing_charge_period: { type: "string", enum: ["daily", "annual"] },
+                  nsh_standing_charge: { type: "number" },
+                  nsh_standing_charge_currency: { type: "string", enum: ["cent", "euro"] },
+                  nsh_standing_charge_period: { type: "string", enum: ["daily", "annual"] },
+                  pso_levy: { type: "number" },
+                  // Euro amounts before VAT; credits are positive numbers
+                  discounts: { type: "number" },
+                  microgen_credit: { type: "number" },
+                  vat_rate: { type: "number" },
+                  vat_amount: { type: "number" }
+                }
+              },
+              financial_information: {
+                type: "object",
+                properties: {
+                  total_due: { type: "number" },
+                  amount_due: { type: "number" },
+                  due_date: { type: "string" },
+                  payment_due_date: { type: "string" }
+                }
+              }
+            },
+            additionalProperties: false
+          }
+        },
+        gas: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              gas_details: {
+                type: "object",
+                properties: {
+                  invoice_number: { type: "string" },
+                  account_number: { type: "string" },
+                  contract_end_date: { type: "string" },
+                  meter_details: {
+                    type: "object",
+                    properties: {
+                      gprn: { type: "string" }
+                    }
+                  }
+                }
+              },
+              supplier_details: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  tariff_name: { type: "string" },
+                  issue_date: { type: "string" },
+                  billing_period: BILLING_PERIOD_SCHEMA
+                }
+              },
+              charges_and_usage: {
+                type: "object",
+                properties: {
+                  meter_readings: {
+                    type: "array",
+                    items: {
+                      type: "object",
+                      properties: {
+                        meter_type: { type: "string" },
+                        date: { type: "string" },
+                        reading: { type: "number" }
+                      }
+                    }
+                  },
+                  // Billed consumption: metered m³ and the kWh they were converted to
+                  units_consumed: { type: "number" },
+                  kWh_consumed: { type: "number" },
+                  unit_rates: {
+                    type: "object",
+                    properties: {
+                      rate: { type: "number" },
+                      rate_currency: { type: "string", enum: ["cent", "euro"] }
+                    }
+                  },
+                  standing_charge: { type: "number" },
+                  standing_charge_currency: { type: "string", enum: ["cent", "euro"] },
+                  standing_charge_period: { type: "string", enum: ["daily", "annual"] },
+                  carbon_tax: { type: "number" },
+                  discounts: { type: "number" },
+                  vat_rate: { type: "number" },
+                  vat_amount: { type: "number" }
+                }
+              },
+              financial_information: {
+                type: "object",
+                properties: {
+                  total_due: { type: "number" },
+                  amount_due: { type: "number" },
+                  due_date: { type: "string" },
+                  payment_due_date: { type: "string" }
+                }
+              }
+            },
+            additionalProperties: false
+          }
+        },
+        broadband: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              broadband_details: {
+                type: "object",
+                properties: {
+                  account_number: { type: "string" },
+                  phone_numbers: {
+                    type: "array",
+                    items: { type: "string" }
+                  }
+                }
+              },
+              supplier_details: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  tariff_name: { type: "string" },
+                  issue_date: { type: "string" },
+                  billing_period: BILLING_PERIOD_SCHEMA
+                }
+              },
+              service_details: {
+                type: "object",
+                properties: {
+                  broadband_number: { type: "string" },
+                  uan_number: { type: "string" },
+                  connection_type: { type: "string" },
+                  home_phone_number: { type: "string" },
+                  mobile_phone_numbers: {
+                    type: "array",
+                    items: { type: "string" }
+                  },
+                  utility_types: {
+                    type: "array",
+                    items: { type: "string" }
+                  }
+                }
+              },
+              package_information: {
+                type: "object",
+                properties: {
+                  package_name: { type: "string" },
+                  contract_changes: { type: "string" },
+                  contract_end_date: { type: "string" },
+                  what_s_included: {
+                    type: "object",
+                    properties: {
+                      calls: { type: "string" },
+                      usage: { type: "string" },
+                      bandwidth: { type: "string" },
+                      usage_minutes: { type: "string" },
+                      int_call_packages: { type: "string" },
+                      local_national_calls: { type: "string" }
+                    }
+                  }
+                }
+              },
+              financial_information: {
+                type: "object",
+                properties: {
+                  previous_bill_amount: { type: "number" },
+                  total_due: { type: "number" },
+                  amount_due: { type: "number" },
+                  due_date: { type: "string" },
+                  payment_due_date: { type: "string" },
+                  payment_method: { type: "string" },
+                  payments_received: { type: "string" },
+                  bank_details: {
+                    type: "object",
+                    properties: {
+                      iban: { type: "string" },
+                      bic: { type: "string" }
+                    }
+                  }
+                }
+              }
+            },
+            additionalProperties: false
+          }
+        },
+        meter_photo: METER_PHOTO_SCHEMA
+      },
+      required: ["cus_details", "electricity", "gas", "broadband"],
+      additionalProperties: true
+    }
+  },
+  required: ["bills"],
+  additionalProperties: false
+} as const;
+
+export const PARSE_BILL_TOOL_NAME = "parse_irish_bill";
+
+export const PARSE_BILL_TOOL = {
+  type: "function",
+  function: {
+    name: PARSE_BILL_TOOL_NAME,
+    description: "Parse Irish utility bill and return structured data",
+    parameters: BILL_SCHEMA,
+  },
+} as const;
+
+export const PARSE_BILL_TOOL_CHOICE = { type: "function", function: { name: PARSE_BILL_TOOL_NAME } } as const;
+
+// ---------- Types derived from the schema ----------
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectFromSchema<P, R extends PropertyKey> = Simplify<
+  { -readonly [K in keyof P as K extends R ? K : never]: FromSchema<P[K]> } &
+  { -readonly [K in keyof P as K extends R ? never : K]?: FromSchema<P[K]> }
+>;
+
+// Minimal JSON Schema -> TypeScript mapping covering the keywords BILL_SCHEMA uses
+export type FromSchema<S> =
+  S extends { readonly enum: readonly (infer E)[] } ? E
+  : S extends { readonly type: "string" } ? string
+  : S extends { readonly type: "number" | "integer" } ? number
+  : S extends { readonly type: "boolean" } ? boolean
+  : S extends { readonly type: "array"; readonly items: infer I } ? FromSchema<I>[]
+  : S extends { readonly type: "object"; readonly properties: infer P }
+    ? ObjectFromSchema<P, S extends { readonly required: readonly (infer R extends PropertyKey)[] } ? R : never>
+  : unknown;
+
+export type ParsedBill = FromSchema<typeof BILL_SCHEMA>;
+export type Bills = ParsedBill["bills"];
+export type CustomerDetails = Bills["cus_details"][number];
+export type ElectricityBill = Bills["electricity"][number];
+export type GasBill = Bills["gas"][number];
+export type BroadbandBill = Bills["broadband"][number];
+export type ElectricityMeterReading = NonNullable<NonNullable<ElectricityBill["charges_and_usage"]>["meter_readings"]>[number];
+export type ElectricityUsage = NonNullable<NonNullable<ElectricityBill["charges_and_usage"]>["detailed_kWh_usage"]>[number];
+export type GasMeterReading = NonNullable<NonNullable<GasBill["charges_and_usage"]>["meter_readings"]>[number];
+export type BillingPeriod = FromSchema<typeof BILLING_PERIOD_SCHEMA>;
+export type RawFieldSource = FromSchema<typeof FIELD_SOURCE_SCHEMA>;
+export type MeterPhoto = FromSchema<typeof METER_PHOTO_SCHEMA>;
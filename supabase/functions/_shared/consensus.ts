@@ -0,0 +1,134 @@
+import type { ParsedBill } from "./bill-schema.ts";
+import { type IdentifierService, normalizeDg, normalizeGprn, normalizeMcc, normalizeMprn } from "./identifiers.ts";
+
+// Multi-sample consensus on the identifiers that route a bill to OneBill.
+//
+// The primary parse is compared against one or more extra samples (other
+// providers, or the same provider at a higher temperature). Values are
+// normalised before comparison so "10 305 037 936" and "10305037936" agree.
+// A field agrees only when every sample produced the same value; a value
+// missing from one sample counts as a disagreement.
+
+export type ConsensusSample = {
+  label: string;
+  data: ParsedBill;
+};
+
+export type ConsensusCandidate = {
+  label: string;
+  value: string | null;
+};
+
+export type ConsensusField = {
+  service: IdentifierService;
+  field: "mprn" | "dg" | "mcc" | "gprn";
+  path: string;
+  agreed: boolean;
+  value: string | null;
+  candidates: ConsensusCandidate[];
+};
+
+export type ConsensusStatus = "agreed" | "disagreed" | "unavailable";
+
+export type ConsensusResult = {
+  status: ConsensusStatus;
+  samples: string[];
+  failed_samples: Array<{ label: string; error: string }>;
+  fields: ConsensusField[];
+  needs_review_services: IdentifierService[];
+};
+
+type FieldSpec = {
+  service: IdentifierService;
+  field: ConsensusField["field"];
+  path: string;
+  read: (data: ParsedBill) => unknown;
+  normalize: (value: string) => string;
+};
+
+const ELECTRICITY_METER = "bills.electricity[0].electricity_details.meter_details";
+const GAS_METER = "bills.gas[0].gas_details.meter_details";
+
+const CRITICAL_FIELDS: FieldSpec[] = [
+  {
+    service: "electricity",
+    field: "mprn",
+    path: `${ELECTRICITY_METER}.mprn`,
+    read: (data) => data.bills?.electricity?.[0]?.electricity_details?.meter_details?.mprn,
+    normalize: normalizeMprn,
+  },
+  {
+    service: "electricity",
+    field: "dg",
+    path: `${ELECTRICITY_METER}.dg`,
+    read: (data) => data.bills?.electricity?.[0]?.electricity_details?.meter_details?.dg,
+    normalize: normalizeDg,
+  },
+  {
+    service: "electricity",
+    field: "mcc",
+    path: `${ELECTRICITY_METER}.mcc`,
+    read: (data) => data.bills?.electricity?.[0]?.electricity_details?.meter_details?.mcc,
+    normalize: normalizeMcc,
+  },
+  {
+    service: "gas",
+    field: "gprn",
+    path: `${GAS_METER}.gprn`,
+    read: (data) => data.bills?.gas?.[0]?.gas_details?.meter_details?.gprn,
+    normalize: normalizeGprn,
+  },
+];
+
+function readValue(spec: FieldSpec, data: ParsedBill): string | null {
+  const raw = spec.read(data);
+  if (raw === null || raw === undefined) return null;
+  const text = String(raw).trim();
+  return text ? spec.normalize(text) : null;
+}
+
+// Compare the critical identifiers of the primary sample (first) against the others
+export function compareCriticalIdentifiers(
+  samples: ConsensusSample[],
+  failedSamples: ConsensusResult["failed_samples"] = [],
+): ConsensusResult {
+  const labels = samples.map((sample) => sample.label);
+
+  // Without a second opinion nothing can be auto-accepted: every service the primary sample identified needs review
+  if (samples.length < 2) {
+    const identified = CRITICAL_FIELDS.filter((spec) => samples[0] && readValue(spec, samples[0].data) !== null);
+    return {
+      status: "unavailable",
+      samples: labels,
+      failed_samples: failedSamples,
+      fields: [],
+      needs_review_services: [...new Set(identified.map((spec) => spec.service))],
+    };
+  }
+
+  const fields: ConsensusField[] = [];
+  for (const spec of CRITICAL_FIELDS) {
+    const candidates = samples.map((sample) => ({ label: sample.label, value: readValue(spec, sample.data) }));
+    // Fields no sample produced are not part of the comparison
+    if (candidates.every((candidate) => candidate.value === null)) continue;
+
+    const agreed = candidates.every((candidate) => candidate.value === candidates[0].value);
+    fields.push({
+      service: spec.service,
+      field: spec.field,
+      path: spec.path,
+      agreed,
+      value: agreed ? candidates[0].value : null,
+      candidates,
+    });
+  }
+
+  const needsReview = [...new Set(fields.filter((field) => !field.agreed).map((field) => field.service))];
+  return {
+    status: needsReview.length > 0 ? "disagreed" : "agreed",
+    samples: labels,
+    failed_samples: failedSamples,
+    fields,
+    needs_review_services: needsReview,
+  };
+}
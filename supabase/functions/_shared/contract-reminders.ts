@@ -0,0 +1,143 @@
+import type { ParsedBill } from "./bill-schema.ts";
+import { daysBetween, parseBillDate } from "./dates.ts";
+import { normalizeGprn, normalizeMprn } from "./identifiers.ts";
+
+// Contract-end tracking. Each dispatched bill records when the customer's
+// contract for that premises ends; the contract-reminders function runs daily
+// and raises one reminder per contract as it enters each reminder window
+// (60, 30 and 7 days out by default), which is delivered to the CRM webhook.
+
+export type ContractService = "electricity" | "gas" | "broadband";
+
+// A row of the contracts table, keyed by service and premises
+export type ContractRecord = {
+  service: ContractService;
+  // MPRN, GPRN, or the broadband account number
+  premises_id: string;
+  phone: string;
+  supplier: string | null;
+  account_number: string | null;
+  contract_end_date: string;
+  source_job_id: string | null;
+};
+
+export type Contract = ContractRecord & { id: string };
+
+// A reminder about to be raised; (contract_id, contract_end_date, window_days) is unique,
+// so a renewed contract with a new end date is reminded again
+export type PlannedReminder = {
+  contract_id: string;
+  contract_end_date: string;
+  window_days: number;
+  days_remaining: number;
+  payload: ContractEndingEvent["data"];
+};
+
+export type ContractEndingEvent = {
+  // The contract_reminders row id, stable across delivery retries
+  id: string;
+  type: "contract.ending";
+  created_at: string;
+  data: {
+    contract_id: string;
+    service: ContractService;
+    premises_id: string;
+    phone: string;
+    supplier: string | null;
+    account_number: string | null;
+    contract_end_date: string;
+    days_remaining: number;
+    window_days: number;
+  };
+};
+
+export const DEFAULT_REMINDER_WINDOWS = [60, 30, 7];
+
+// "60,30,7" -> [60, 30, 7]; falls back to the defaults when nothing valid is set
+export function parseReminderWindows(value: string | null | undefined): number[] {
+  const windows = (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "")
+    .map(Number)
+    .filter((days) => Number.isInteger(days) && days >= 0);
+  return windows.length > 0 ? [...new Set(windows)].sort((a, b) => b - a) : DEFAULT_REMINDER_WINDOWS;
+}
+
+// The tightest window the contract is inside, or null when it is further out than all of them.
+// A contract first seen 20 days out gets the 30-day reminder only, not the 60-day one as well.
+export function reminderWindow(daysRemaining: number, windows: number[]): number | null {
+  if (daysRemaining < 0) return null;
+  const inside = windows.filter((days) => daysRemaining <= days);
+  return inside.length > 0 ? Math.min(...inside) : null;
+}
+
+const trimmed = (value: string | undefined) => value?.trim() || null;
+
+// Contract end dates on the bill for the given services, one per premises
+export function contractsFromBill(
+  parsedData: ParsedBill,
+  services: string[],
+  phone: string,
+  sourceJobId: string | null,
+): ContractRecord[] {
+  const contracts: ContractRecord[] = [];
+  const add = (service: ContractService, premises: string | null, endDate: string | null, supplier?: string, account?: string) => {
+    if (!services.includes(service) || !premises || !endDate) return;
+    if (contracts.some((contract) => contract.service === service && contract.premises_id === premises)) return;
+    contracts.push({
+      service,
+      premises_id: premises,
+      phone,
+      supplier: trimmed(supplier),
+      account_number: trimmed(account),
+      contract_end_date: endDate,
+      source_job_id: sourceJobId,
+    });
+  };
+
+  for (const bill of parsedData.bills.electricity ?? []) {
+    const details = bill.electricity_details;
+    const mprn = details?.meter_details?.mprn;
+    add("electricity", mprn ? normalizeMprn(mprn) : null, parseBillDate(details?.contract_end_date), bill.supplier_details?.name, details?.account_number);
+  }
+  for (const bill of parsedData.bills.gas ?? []) {
+    const details = bill.gas_details;
+    const gprn = details?.meter_details?.gprn;
+    add("gas", gprn ? normalizeGprn(gprn) : null, parseBillDate(details?.contract_end_date), bill.supplier_details?.name, details?.account_number);
+  }
+  for (const bill of parsedData.bills.broadband ?? []) {
+    const account = trimmed(bill.broadband_details?.account_number);
+    add("broadband", account, parseBillDate(bill.package_information?.contract_end_date), bill.supplier_details?.name, account ?? undefined);
+  }
+
+  return contracts;
+}
+
+// Reminders due on `today` (YYYY-MM-DD) for the given contracts
+export function planReminders(contracts: Contract[], windows: number[], today: string): PlannedReminder[] {
+  const planned: PlannedReminder[] = [];
+  for (const contract of contracts) {
+    const daysRemaining = daysBetween(today, contract.contract_end_date);
+    const window = reminderWindow(daysRemaining, windows);
+    if (window === null) continue;
+    planned.push({
+      contract_id: contract.id,
+      contract_end_date: contract.contract_end_date,
+      window_days: window,
+      days_remaining: daysRemaining,
+      payload: {
+        contract_id: contract.id,
+        service: contract.service,
+        premises_id: contract.premises_id,
+        phone: contract.phone,
+        supplier: contract.supplier,
+        account_number: contract.account_number,
+        contract_end_date: contract.contract_end_date,
+        days_remaining: daysRemaining,
+        window_days: window,
+      },
+    });
+  }
+  return planned;
+}
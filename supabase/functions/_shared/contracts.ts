@@ -0,0 +1,18 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { ContractRecord } from "./contract-reminders.ts";
+
+// Persistence for the contracts table. Like parse_jobs writes, failures are
+// logged and swallowed: a missed contract end date must not fail a dispatch.
+
+// One row per service and premises; a newer bill replaces the end date, supplier and phone
+export async function saveContracts(supabase: SupabaseClient, contracts: ContractRecord[]): Promise<void> {
+  if (contracts.length === 0) return;
+
+  const { error } = await supabase
+    .from("contracts")
+    .upsert(contracts, { onConflict: "service,premises_id" });
+
+  if (error) {
+    console.error("Failed to save contract end dates:", error.message);
+  }
+}
@@ -0,0 +1,22 @@
+// Storage layout for PDF page images rendered by our own rasteriser
+// (src/lib/pdf-to-image.ts). Pages of `bills/<source>` live at
+// `bills/converted/<source>/page-<n>.png`, so re-rendering a file overwrites
+// its pages and the parser can find them from the source path alone.
+// Shared with the web app, so this module must stay free of Deno APIs.
+
+const CONVERTED_ROOT = "converted";
+const PAGE_FILE_PATTERN = /^page-(\d+)\.png$/;
+
+export function convertedPagesPrefix(sourcePath: string): string {
+  return `${CONVERTED_ROOT}/${sourcePath}`;
+}
+
+export function convertedPagePath(sourcePath: string, pageNumber: number): string {
+  return `${convertedPagesPrefix(sourcePath)}/page-${pageNumber}.png`;
+}
+
+// Page number of a file name inside a source's converted folder, or null if it is not a page image
+export function convertedPageNumber(fileName: string): number | null {
+  const match = PAGE_FILE_PATTERN.exec(fileName);
+  return match ? Number(match[1]) : null;
+}
@@ -0,0 +1,116 @@
+// Date parsing for the formats Irish suppliers print on bills.
+// Everything is normalised to ISO `YYYY-MM-DD` strings; day-first ordering is
+// assumed for numeric dates because no Irish supplier prints month-first.
+
+// Placeholder the model is told to use for unknown dates
+export const UNKNOWN_DATE = "0000-00-00";
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+function toIso(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject roll-overs such as 31/02
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// "2025-01-12", "12/01/2025", "12/01/25", "12-01-2025", "12.01.2025", "12 Jan 2025", "12th January 2025", "Jan 12, 2025"
+export function parseBillDate(input: string | null | undefined): string | null {
+  if (!input) return null;
+  const value = input.trim();
+  if (!value || value === UNKNOWN_DATE) return null;
+
+  let match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (match) return toIso(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})$/);
+  if (match) return toIso(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  match = value.match(/^(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3,9})\.?,?[\s-]+(\d{4}|\d{2})$/);
+  if (match) {
+    const month = MONTHS[match[2].slice(0, 4).toLowerCase()] ?? MONTHS[match[2].slice(0, 3).toLowerCase()];
+    return month ? toIso(Number(match[3]), month, Number(match[1])) : null;
+  }
+
+  match = value.match(/^([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/);
+  if (match) {
+    const month = MONTHS[match[1].slice(0, 4).toLowerCase()] ?? MONTHS[match[1].slice(0, 3).toLowerCase()];
+    return month ? toIso(Number(match[3]), month, Number(match[2])) : null;
+  }
+
+  return null;
+}
+
+// Whole days from `start` to `end` (ISO dates); negative when end precedes start
+export function daysBetween(start: string, end: string): number {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / 86_400_000);
+}
+
+// Suppliers count both the first and last day: 12 Jan – 11 Mar 2025 is 59 days
+export function billingPeriodDays(start: string, end: string): number {
+  return daysBetween(start, end) + 1;
+}
+
+// "12/01/2025 - 11/03/2025", "12 Jan 2025 to 11 Mar 2025", "2025-01-12 – 2025-03-11", "12/01/2025-11/03/2025"
+export function parseBillingPeriodText(input: string | null | undefined): { start_date: string; end_date: string } | null {
+  if (!input) return null;
+  const text = input.trim();
+  const parts = text.split(/\s+(?:-|–|—|to|until)\s+|\s*[–—]\s*/i);
+  if (parts.length === 2) {
+    const start = parseBillDate(parts[0]);
+    const end = parseBillDate(parts[1]);
+    return start && end ? { start_date: start, end_date: end } : null;
+  }
+  if (parts.length !== 1) return null;
+
+  // A bare hyphen between two dates, which may contain hyphens themselves ("12-01-2025-11-03-2025"):
+  // take the only split where both halves are complete dates
+  const periods = [...text.matchAll(/-/g)].flatMap((match) => {
+    const start = parseBillDate(text.slice(0, match.index));
+    const end = parseBillDate(text.slice(match.index! + 1));
+    return start && end ? [{ start_date: start, end_date: end }] : [];
+  });
+  return periods.length === 1 ? periods[0] : null;
+}
+
+export type BillingPeriodDates = {
+  start_date: string;
+  end_date: string;
+  days_count: number;
+};
+
+// Structured `{ start_date, end_date }` from the parser, or a legacy free-text period
+export function resolveBillingPeriod(value: unknown): BillingPeriodDates | null {
+  let start: string | null = null;
+  let end: string | null = null;
+
+  if (typeof value === "string") {
+    const period = parseBillingPeriodText(value);
+    start = period?.start_date ?? null;
+    end = period?.end_date ?? null;
+  } else if (typeof value === "object" && value !== null) {
+    const { start_date, end_date } = value as { start_date?: unknown; end_date?: unknown };
+    start = typeof start_date === "string" ? parseBillDate(start_date) : null;
+    end = typeof end_date === "string" ? parseBillDate(end_date) : null;
+  }
+
+  return start && end ? { start_date: start, end_date: end, days_count: billingPeriodDays(start, end) } : null;
+}
+
+export const DISPLAY_MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// "2025-01-12" -> "12 Jan 2025"
+export function formatBillDate(iso: string): string {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? `${Number(match[3])} ${DISPLAY_MONTHS[Number(match[2]) - 1]} ${match[1]}` : iso;
+}
+
+// "12 Jan 2025 – 11 Mar 2025 (59 days)", or null when the period is unknown
+export function formatBillingPeriod(value: unknown): string | null {
+  const period = resolveBillingPeriod(value);
+  if (!period) return typeof value === "string" && value.trim() ? value : null;
+  return `${formatBillDate(period.start_date)} – ${formatBillDate(period.end_date)} (${period.days_count} days)`;
+}
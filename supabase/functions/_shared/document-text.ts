@@ -0,0 +1,96 @@
+import * as pdfjs from "npm:pdfjs-dist@4.10.38/legacy/build/pdf.mjs";
+
+// Deterministic text pre-pass for uploaded bills.
+// Digital PDFs carry a text layer that pdf.js can read without any model;
+// scanned PDFs and photos need OCR, which is pluggable (see OcrProvider)
+// and disabled unless an OCR service is configured.
+
+export type DocumentTextSource = "pdf_text" | "spreadsheet" | "ocr" | "none";
+
+export type DocumentText = {
+  source: DocumentTextSource;
+  text: string;
+  ocr_provider?: string;
+};
+
+// Anything that can turn an image into text
+export interface OcrProvider {
+  name: string;
+  recognize(imageUrl: string): Promise<string>;
+}
+
+const MAX_PDF_TEXT_PAGES = 10;
+
+// Below this many characters a PDF text layer is treated as absent (scanned document)
+const MIN_TEXT_LAYER_LENGTH = 40;
+
+export async function extractPdfText(data: Uint8Array, maxPages = MAX_PDF_TEXT_PAGES): Promise<string> {
+  const pdf = await pdfjs.getDocument({ data, isEvalSupported: false, useSystemFonts: false }).promise;
+  try {
+    const pageTexts: string[] = [];
+    for (let pageNumber = 1; pageNumber <= Math.min(pdf.numPages, maxPages); pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pageTexts.push(content.items.map((item) => ("str" in item ? item.str : "")).join(" "));
+    }
+    return pageTexts.join("\n");
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Self-hosted OCR endpoint: receives the image bytes, answers `{ "text": "..." }`
+class HttpOcrProvider implements OcrProvider {
+  name = "http";
+
+  constructor(private endpoint: string, private apiKey?: string) {}
+
+  async recognize(imageUrl: string): Promise<string> {
+    const image = await fetch(imageUrl);
+    if (!image.ok) throw new Error(`Failed to fetch image for OCR: ${image.status}`);
+
+    const resp = await fetch(this.endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": image.headers.get("content-type") || "application/octet-stream",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: await image.arrayBuffer(),
+    });
+    if (!resp.ok) throw new Error(`OCR service returned ${resp.status}`);
+
+    const data = await resp.json();
+    return typeof data.text === "string" ? data.text : "";
+  }
+}
+
+// OCR is opt-in: bills must not leave our stack unless an endpoint is configured
+export function createOcrProviderFromEnv(): OcrProvider | null {
+  const endpoint = Deno.env.get("OCR_ENDPOINT_URL");
+  if (!endpoint) return null;
+  return new HttpOcrProvider(endpoint, Deno.env.get("OCR_API_KEY"));
+}
+
+export async function extractDocumentText(options: {
+  file: Blob | null;
+  isPdf: boolean;
+  imageUrls: string[];
+  ocr: OcrProvider | null;
+}): Promise<DocumentText> {
+  const { file, isPdf, imageUrls, ocr } = options;
+
+  if (isPdf && file) {
+    const text = await extractPdfText(new Uint8Array(await file.arrayBuffer()));
+    if (text.replace(/\s+/g, "").length >= MIN_TEXT_LAYER_LENGTH) {
+      return { source: "pdf_text", text };
+    }
+    console.log("PDF has no usable text layer, falling back to OCR");
+  }
+
+  if (ocr && imageUrls.length > 0) {
+    const texts = await Promise.all(imageUrls.map((url) => ocr.recognize(url)));
+    return { source: "ocr", text: texts.join("\n"), ocr_provider: ocr.name };
+  }
+
+  return { source: "none", text: "" };
+}
@@ -0,0 +1,327 @@
+// Field-mapping template language for api_configs.parameters.
+//
+// Parameter values are strings that may contain `{{ expression }}` placeholders:
+//
+//   {{ electricity.meter_details.mprn }}                    path into the mapping context
+//   {{ bills.electricity[0].supplier_details.name }}        array indexes are allowed
+//   {{ electricity.account_number ?? gas.account_number }}  fallback when the left side is empty
+//   {{ electricity.meter_details.mcc | upper() | prefix('MCC') }}
+//   {{ electricity.supplier_details.issue_date | date('DD/MM/YYYY') }}
+//   {{ 'literal' }}, {{ 42 }}                               literals
+//
+// A value consisting of a single placeholder renders that value; otherwise
+// placeholders are interpolated into the surrounding text. Everything renders
+// to strings because downstream APIs receive multipart form fields.
+//
+// The ApiConfigs preview renders templates in the browser too (see README.md).
+
+import type { Bills, ParsedBill } from "./bill-schema.ts";
+import { DISPLAY_MONTHS, parseBillDate } from "./dates.ts";
+import { checkMeterPhoto } from "./meter-photo.ts";
+
+export type MappingContext = Record<string, unknown>;
+
+export type FieldMappingError = {
+  key: string;
+  message: string;
+};
+
+export type RenderedParameters = {
+  payload: Record<string, string>;
+  errors: FieldMappingError[];
+};
+
+export class TemplateError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position === undefined ? message : `${message} (at position ${position})`);
+    this.name = "TemplateError";
+  }
+}
+
+// ---------- Context ----------
+
+// Build the object that placeholder paths are resolved against.
+// Service sections flatten their `<service>_details` object so templates can
+// use short paths such as `electricity.meter_details.mprn` or `gas.gprn`;
+// `meter` is the meter-photo reading (empty when it fails validation) and
+// `bills` exposes the raw parse result.
+export function buildMappingContext(parsedData: ParsedBill | null | undefined, phone: string, filePath?: string | null): MappingContext {
+  const bills: Partial<Bills> = parsedData?.bills ?? {};
+  const electricity = bills.electricity?.[0];
+  const gas = bills.gas?.[0];
+  const broadband = bills.broadband?.[0];
+  const meterPhoto = bills.meter_photo ? checkMeterPhoto(bills.meter_photo) : null;
+
+  return {
+    phone: (phone || "").replace(/\s+/g, ""),
+    file_path: filePath ?? "",
+    customer: bills.cus_details?.[0]?.details ?? {},
+    electricity: electricity ? { ...electricity, ...electricity.electricity_details } : {},
+    gas: gas ? { ...gas, ...gas.gas_details, gprn: gas.gas_details?.meter_details?.gprn ?? "" } : {},
+    broadband: broadband ? { ...broadband, ...broadband.broadband_details } : {},
+    meter: meterPhoto?.valid ? meterPhoto.photo : {},
+    bills,
+  };
+}
+
+export function resolvePath(context: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .filter(Boolean)
+    .reduce<unknown>((obj, key) => {
+      if (obj === null || obj === undefined) return undefined;
+      const arrayMatch = key.match(/^([^[\]]*)\[(\d+)\]$/);
+      if (arrayMatch) {
+        const [, name, index] = arrayMatch;
+        const arr = name ? (obj as Record<string, unknown>)[name] : obj;
+        return Array.isArray(arr) ? arr[Number(index)] : undefined;
+      }
+      return (obj as Record<string, unknown>)[key];
+    }, context);
+}
+
+// ---------- Tokenizer ----------
+
+type Token =
+  | { kind: "path"; value: string; pos: number }
+  | { kind: "string"; value: string; pos: number }
+  | { kind: "number"; value: number; pos: number }
+  | { kind: "ident"; value: string; pos: number }
+  | { kind: "punct"; value: "|" | "??" | "(" | ")" | ","; pos: number };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (source.startsWith("??", i)) {
+      tokens.push({ kind: "punct", value: "??", pos: i });
+      i += 2;
+      continue;
+    }
+    if (ch === "|" || ch === "(" || ch === ")" || ch === ",") {
+      tokens.push({ kind: "punct", value: ch, pos: i });
+      i++;
+      continue;
+    }
+    if (ch === "'" || ch === '"') {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === "\\" && i + 1 < source.length) i++;
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) throw new TemplateError("Unterminated string literal", start);
+      i++;
+      tokens.push({ kind: "string", value, pos: start });
+      continue;
+    }
+    const numberMatch = source.slice(i).match(/^-?\d+(\.\d+)?/);
+    if (numberMatch) {
+      tokens.push({ kind: "number", value: Number(numberMatch[0]), pos: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+    const pathMatch = source.slice(i).match(/^[A-Za-z_][\w]*(\[\d+\])*(\.[A-Za-z_0-9][\w]*(\[\d+\])*)*/);
+    if (pathMatch) {
+      const value = pathMatch[0];
+      // A bare word followed by "(" is a transform name, anything else is a path
+      const next = source.slice(i + value.length).trimStart();
+      tokens.push(next.startsWith("(") && !value.includes(".")
+        ? { kind: "ident", value, pos: i }
+        : { kind: "path", value, pos: i });
+      i += value.length;
+      continue;
+    }
+    throw new TemplateError(`Unexpected character '${ch}'`, i);
+  }
+
+  return tokens;
+}
+
+// ---------- Parser ----------
+
+type Operand = { kind: "path"; path: string } | { kind: "literal"; value: string | number };
+type TransformCall = { name: string; args: Array<string | number> };
+type Alternative = { operand: Operand; transforms: TransformCall[] };
+type Expression = Alternative[];
+
+function parseExpression(source: string): Expression {
+  const tokens = tokenize(source);
+  let index = 0;
+  const peek = () => tokens[index];
+  const take = () => tokens[index++];
+  const expectPunct = (value: string) => {
+    const token = take();
+    if (!token || token.kind !== "punct" || token.value !== value) {
+      throw new TemplateError(`Expected '${value}'`, token?.pos ?? source.length);
+    }
+  };
+
+  const parseOperand = (): Operand => {
+    const token = take();
+    if (!token) throw new TemplateError("Expected a path or literal", source.length);
+    if (token.kind === "path") return { kind: "path", path: token.value };
+    if (token.kind === "string" || token.kind === "number") return { kind: "literal", value: token.value };
+    throw new TemplateError("Expected a path or literal", token.pos);
+  };
+
+  const parseTransform = (): TransformCall => {
+    const token = take();
+    if (!token || (token.kind !== "ident" && token.kind !== "path")) {
+      throw new TemplateError("Expected a transform name after '|'", token?.pos ?? source.length);
+    }
+    if (!transformNamed(token.value)) {
+      throw new TemplateError(`Unknown transform '${token.value}'`, token.pos);
+    }
+    const args: Array<string | number> = [];
+    expectPunct("(");
+    while (peek() && !(peek().kind === "punct" && peek().value === ")")) {
+      const arg = take();
+      if (arg.kind !== "string" && arg.kind !== "number") {
+        throw new TemplateError("Transform arguments must be string or number literals", arg.pos);
+      }
+      args.push(arg.value);
+      if (peek()?.kind === "punct" && peek().value === ",") take();
+    }
+    expectPunct(")");
+    return { name: token.value, args };
+  };
+
+  const expression: Expression = [];
+  do {
+    if (expression.length > 0) take(); // consume "??"
+    const operand = parseOperand();
+    const transforms: TransformCall[] = [];
+    while (peek()?.kind === "punct" && peek().value === "|") {
+      take();
+      transforms.push(parseTransform());
+    }
+    expression.push({ operand, transforms });
+  } while (peek()?.kind === "punct" && peek().value === "??");
+
+  if (index < tokens.length) {
+    throw new TemplateError("Unexpected token", tokens[index].pos);
+  }
+  return expression;
+}
+
+// ---------- Transforms ----------
+
+// Any date parseBillDate reads, in the given format; unknown or unreadable dates render empty
+function formatDate(value: string, format: string): string {
+  const iso = parseBillDate(value);
+  if (!iso) return "";
+  const [year, month, day] = iso.split("-");
+  return format.replace(/YYYY|YY|MMM|MM|DD/g, (token) => {
+    switch (token) {
+      case "YYYY": return year;
+      case "YY": return year.slice(-2);
+      case "MMM": return DISPLAY_MONTHS[Number(month) - 1];
+      case "MM": return month;
+      default: return day;
+    }
+  });
+}
+
+type Transform = (value: string, args: Array<string | number>) => string;
+
+const TRANSFORMS: Record<string, Transform> = {
+  upper: (value) => value.toUpperCase(),
+  lower: (value) => value.toLowerCase(),
+  trim: (value) => value.trim(),
+  digits: (value) => value.replace(/\D/g, ""),
+  // Add a prefix unless the value already starts with it (case-insensitive); empty stays empty
+  prefix: (value, [prefix = ""]) =>
+    !value || value.toUpperCase().startsWith(String(prefix).toUpperCase()) ? value : `${prefix}${value}`,
+  suffix: (value, [suffix = ""]) =>
+    !value || value.toUpperCase().endsWith(String(suffix).toUpperCase()) ? value : `${value}${suffix}`,
+  date: (value, [format = "YYYY-MM-DD"]) => formatDate(value, String(format)),
+  number: (value) => {
+    const cleaned = value.replace(/[^\d.-]/g, "");
+    return cleaned && !isNaN(Number(cleaned)) ? String(Number(cleaned)) : "";
+  },
+  replace: (value, [search = "", replacement = ""]) => value.split(String(search)).join(String(replacement)),
+  default: (value, [fallback = ""]) => (isEmpty(value) ? String(fallback) : value),
+};
+
+export const TRANSFORM_NAMES = Object.keys(TRANSFORMS);
+
+// Own keys only, so `toString` or `constructor` are not taken for transforms
+function transformNamed(name: string): Transform | undefined {
+  return Object.prototype.hasOwnProperty.call(TRANSFORMS, name) ? TRANSFORMS[name] : undefined;
+}
+
+// ---------- Evaluation ----------
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === "" || value === "0000-00-00";
+}
+
+const stringify = (value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(stringify).join(",");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+function evaluateExpression(expression: Expression, context: MappingContext): string {
+  for (const { operand, transforms } of expression) {
+    const raw = operand.kind === "path" ? resolvePath(context, operand.path) : operand.value;
+    const value = transforms.reduce(
+      (current, { name, args }) => transformNamed(name)!(current, args),
+      isEmpty(raw) ? "" : stringify(raw),
+    );
+    if (!isEmpty(value)) return value;
+  }
+  return "";
+}
+
+const PLACEHOLDER = /\{\{([\s\S]*?)\}\}/g;
+
+// Render a single template string; throws TemplateError on malformed expressions
+export function renderTemplate(template: string, context: MappingContext): string {
+  return template.replace(PLACEHOLDER, (_, source: string) => evaluateExpression(parseExpression(source), context));
+}
+
+// Validate a template without evaluating it; returns the first error message or null
+export function validateTemplate(template: string): string | null {
+  try {
+    for (const match of template.matchAll(PLACEHOLDER)) {
+      parseExpression(match[1]);
+    }
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Render a config's parameters. Non-string values are sent as-is (stringified);
+// a field whose template is malformed renders empty and is reported in `errors`.
+export function renderParameters(template: Record<string, unknown>, context: MappingContext): RenderedParameters {
+  const payload: Record<string, string> = {};
+  const errors: FieldMappingError[] = [];
+
+  for (const [key, value] of Object.entries(template ?? {})) {
+    if (typeof value !== "string") {
+      payload[key] = stringify(value);
+      continue;
+    }
+    try {
+      payload[key] = renderTemplate(value, context);
+    } catch (error) {
+      payload[key] = "";
+      errors.push({ key, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { payload, errors };
+}
@@ -0,0 +1,150 @@
+import type { ParsedBill, RawFieldSource } from "./bill-schema.ts";
+import { parseAmount } from "./bill-coercion.ts";
+import { parseBillDate } from "./dates.ts";
+
+// Field provenance: where on the document the model read each critical field.
+//
+// The model reports `field_sources` alongside the bill (see BILL_SCHEMA). This
+// module drops entries that do not point at a critical field the parse actually
+// returned, normalises the boxes, maps the model's input page index back to the
+// page of the uploaded document and checks the quoted text against the value.
+// The result is stored with the parse job; `field_sources` is removed from the
+// bill itself so downstream payloads are unchanged.
+
+export type BoundingBox = { x: number; y: number; width: number; height: number };
+
+export type FieldSource = {
+  // Same path form as identifier errors: bills.electricity[0].electricity_details.meter_details.mprn
+  field: string;
+  // 1-based page of the uploaded document
+  page_number: number;
+  bbox: BoundingBox | null;
+  text: string;
+  value: string | number;
+  // Whether the printed text contains the extracted value
+  matches_value: boolean;
+};
+
+// Fields the model is asked to locate, relative to each bill in a service section
+const CRITICAL_FIELDS: Record<"electricity" | "gas" | "broadband", string[]> = {
+  electricity: [
+    "electricity_details.meter_details.mprn",
+    "electricity_details.meter_details.dg",
+    "electricity_details.meter_details.mcc",
+    "electricity_details.meter_details.profile",
+    "electricity_details.contract_end_date",
+    "supplier_details.billing_period.start_date",
+    "supplier_details.billing_period.end_date",
+    "financial_information.total_due",
+  ],
+  gas: [
+    "gas_details.meter_details.gprn",
+    "gas_details.contract_end_date",
+    "supplier_details.billing_period.start_date",
+    "supplier_details.billing_period.end_date",
+    "financial_information.total_due",
+  ],
+  broadband: [
+    "broadband_details.account_number",
+    "supplier_details.billing_period.start_date",
+    "supplier_details.billing_period.end_date",
+    "financial_information.total_due",
+  ],
+};
+
+const FIELD_PATH = /^bills\.(electricity|gas|broadband)\[(\d+)\]\.(.+)$/;
+
+// Gemini models answer on a 0-1000 grid even when asked for fractions
+const PERMILLE_SCALE = 1000;
+// Slack for fractions rounded past the page edge
+const EDGE_TOLERANCE = 1.001;
+
+export function isCriticalField(path: string): boolean {
+  const match = FIELD_PATH.exec(path);
+  return !!match && CRITICAL_FIELDS[match[1] as keyof typeof CRITICAL_FIELDS].includes(match[3]);
+}
+
+function valueAtPath(data: unknown, path: string): unknown {
+  let current = data;
+  for (const segment of path.split(".")) {
+    const match = /^([^[\]]+)(?:\[(\d+)\])?$/.exec(segment);
+    if (!match || typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[match[1]];
+    if (match[2] !== undefined) {
+      current = Array.isArray(current) ? current[Number(match[2])] : undefined;
+    }
+  }
+  return current;
+}
+
+function normaliseBox(bbox: RawFieldSource["bbox"]): BoundingBox | null {
+  if (!bbox) return null;
+  const values = [bbox.x, bbox.y, bbox.width, bbox.height];
+  if (!values.every((n): n is number => typeof n === "number" && Number.isFinite(n) && n >= 0)) return null;
+
+  const scale = Math.max(...values) > 1 ? PERMILLE_SCALE : 1;
+  const [x, y, width, height] = values.map((n) => n / scale);
+  if (width === 0 || height === 0 || x + width > EDGE_TOLERANCE || y + height > EDGE_TOLERANCE) return null;
+  return { x, y, width, height };
+}
+
+const compact = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+// "MPRN: 1030 5037 936" contains 10305037936; "€123.45" is 123.45; "12 Mar 2024" is 2024-03-12.
+// DG/MCC codes are prefixed by the model, so a bare "1" printed in the grid matches "DG1".
+export function sourceMatchesValue(text: string, value: string | number): boolean {
+  if (typeof value === "number") {
+    const amounts = text.match(/\(?-?[€£]?\d[\d,]*(?:\.\d+)?\)?/g) ?? [];
+    return amounts.some((token) => {
+      const amount = parseAmount(token);
+      return amount !== null && Math.abs(Math.abs(amount) - Math.abs(value)) < 0.005;
+    });
+  }
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return parseBillDate(text) === value || compact(text).includes(compact(value));
+  }
+  const expected = compact(value);
+  const printed = compact(text);
+  if (!expected) return false;
+  return printed.includes(expected) || printed.includes(expected.replace(/^(DG|MCC)(?=\d)/, ""));
+}
+
+export type FieldSourceOptions = {
+  // Document page number of each input page the model saw; null when it read the PDF itself
+  inputPageNumbers: number[] | null;
+};
+
+// Validate and remove `field_sources` from the bill. Mutates `parsedData`.
+export function extractFieldSources(parsedData: ParsedBill, { inputPageNumbers }: FieldSourceOptions): FieldSource[] {
+  const raw = (parsedData as { field_sources?: unknown }).field_sources;
+  delete (parsedData as { field_sources?: unknown }).field_sources;
+  if (!Array.isArray(raw)) return [];
+
+  const sources: FieldSource[] = [];
+  const seen = new Set<string>();
+  for (const entry of raw as RawFieldSource[]) {
+    if (typeof entry !== "object" || entry === null || typeof entry.field !== "string") continue;
+    const field = entry.field.trim();
+    if (!isCriticalField(field) || seen.has(field)) continue;
+
+    const value = valueAtPath(parsedData, field);
+    if (typeof value !== "string" && typeof value !== "number") continue;
+
+    const page = Number(entry.page ?? 0);
+    if (!Number.isInteger(page) || page < 0) continue;
+    const pageNumber = inputPageNumbers ? inputPageNumbers[page] : page + 1;
+    if (pageNumber === undefined) continue;
+
+    const text = typeof entry.text === "string" ? entry.text.trim() : String(entry.text ?? "");
+    seen.add(field);
+    sources.push({
+      field,
+      page_number: pageNumber,
+      bbox: normaliseBox(entry.bbox),
+      text,
+      value,
+      matches_value: text ? sourceMatchesValue(text, value) : false,
+    });
+  }
+  return sources;
+}
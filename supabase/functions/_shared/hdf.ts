@@ -0,0 +1,238 @@
+import type { ElectricityUsage, ParsedBill } from "./bill-schema.ts";
+import { billingPeriodDays, parseBillDate } from "./dates.ts";
+
+// ESB Networks Harmonised Downloadable File (HDF): the smart-meter interval
+// export customers download from the ESB Networks portal.
+//
+//   MPRN,Meter Serial Number,Read Value,Read Type,Read Date and End Time
+//   10306268587,000000000024591,0.045000,Active Import Interval (kW),31-12-2022 23:30
+//
+// Each row is one 30-minute interval, stamped with its end time in Irish local
+// time. Interval reads are average demand in kW (newer files give kWh), so a kW
+// read is halved to get the interval's energy. The file is read
+// deterministically - no model call - into per-MPRN import/export series,
+// daily and day/night/peak totals, and an electricity bill for dispatch.
+
+export class HdfFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HdfFormatError";
+  }
+}
+
+export type HdfInterval = {
+  // Local end time, YYYY-MM-DDTHH:MM
+  end: string;
+  import_kwh: number;
+  export_kwh: number;
+};
+
+export type HdfTotals = {
+  import_kwh: number;
+  export_kwh: number;
+  day_kwh: number;
+  night_kwh: number;
+  peak_kwh: number;
+};
+
+export type HdfDay = HdfTotals & { date: string };
+
+export type HdfMeterData = {
+  mprn: string;
+  meter_serial_numbers: string[];
+  start_date: string;
+  end_date: string;
+  intervals: HdfInterval[];
+  daily: HdfDay[];
+  totals: HdfTotals;
+};
+
+export type HdfImport = {
+  meters: HdfMeterData[];
+  // Rows that are not interval reads (e.g. daily register reads) or could not be read
+  skipped_rows: number;
+  skipped_read_types: string[];
+};
+
+export type TouBand = "day" | "night" | "peak";
+
+const HDF_COLUMNS = ["mprn", "meter serial number", "read value", "read type", "read date and end time"];
+
+const INTERVAL_MINUTES = 30;
+
+// Standard Irish smart tariff bands, by the local time an interval starts
+const NIGHT_START_MINUTE = 23 * 60;
+const NIGHT_END_MINUTE = 8 * 60;
+const PEAK_START_MINUTE = 17 * 60;
+const PEAK_END_MINUTE = 19 * 60;
+
+const READ_TYPE_PATTERN = /^active (import|export) interval \((kw|kwh)\)$/i;
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+const pad = (n: number) => String(n).padStart(2, "0");
+
+const splitRow = (line: string) => line.split(",").map((cell) => cell.trim().replace(/^"(.*)"$/, "$1").trim());
+
+const emptyTotals = (): HdfTotals => ({ import_kwh: 0, export_kwh: 0, day_kwh: 0, night_kwh: 0, peak_kwh: 0 });
+
+export function isHdfExport(text: string): boolean {
+  const firstLine = text.replace(/^\uFEFF/, "").split(/\r?\n/, 1)[0] ?? "";
+  const header = splitRow(firstLine).map((cell) => cell.toLowerCase());
+  return HDF_COLUMNS.every((column, index) => header[index] === column);
+}
+
+export function touBand(startMinuteOfDay: number): TouBand {
+  if (startMinuteOfDay >= NIGHT_START_MINUTE || startMinuteOfDay < NIGHT_END_MINUTE) return "night";
+  if (startMinuteOfDay >= PEAK_START_MINUTE && startMinuteOfDay < PEAK_END_MINUTE) return "peak";
+  return "day";
+}
+
+// "31-12-2022 23:30" (or "2022-12-31 23:30") -> wall-clock minutes since the epoch, treating local time as UTC
+function parseEndTime(value: string): number | null {
+  const match = value.match(/^(\S+)[ T](\d{1,2}):(\d{2})(?::\d{2})?$/);
+  if (!match) return null;
+  const date = parseBillDate(match[1]);
+  const hours = Number(match[2]);
+  const minutes = Number(match[3]);
+  if (!date || hours > 24 || minutes > 59) return null;
+  return Date.parse(`${date}T00:00:00Z`) / 60000 + hours * 60 + minutes;
+}
+
+function formatMinutes(epochMinutes: number): { date: string; time: string; minuteOfDay: number } {
+  const date = new Date(epochMinutes * 60000);
+  return {
+    date: `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`,
+    time: `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`,
+    minuteOfDay: date.getUTCHours() * 60 + date.getUTCMinutes(),
+  };
+}
+
+export function parseHdf(text: string): HdfImport {
+  if (!isHdfExport(text)) throw new HdfFormatError("Not an ESB Networks HDF export (unexpected header row)");
+
+  // Per MPRN: interval end (epoch minutes) -> energy
+  const meters = new Map<string, { serials: Set<string>; intervals: Map<number, { import_kwh: number; export_kwh: number }> }>();
+  const skippedReadTypes = new Set<string>();
+  let skippedRows = 0;
+
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).slice(1);
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const [mprn, serial, readValue, readType, endTime] = splitRow(line);
+
+    const type = READ_TYPE_PATTERN.exec(readType ?? "");
+    const value = Number(readValue);
+    const end = parseEndTime(endTime ?? "");
+    if (!type || !mprn || !Number.isFinite(value) || end === null) {
+      if (readType && !type) skippedReadTypes.add(readType);
+      skippedRows++;
+      continue;
+    }
+
+    const meter = meters.get(mprn) ?? { serials: new Set<string>(), intervals: new Map() };
+    meters.set(mprn, meter);
+    if (serial) meter.serials.add(serial);
+
+    const kwh = type[2].toLowerCase() === "kw" ? value * (INTERVAL_MINUTES / 60) : value;
+    const interval = meter.intervals.get(end) ?? { import_kwh: 0, export_kwh: 0 };
+    if (type[1].toLowerCase() === "import") interval.import_kwh += kwh;
+    else interval.export_kwh += kwh;
+    meter.intervals.set(end, interval);
+  }
+
+  if (meters.size === 0) throw new HdfFormatError("The HDF export contains no interval reads");
+
+  return {
+    meters: [...meters.entries()].map(([mprn, meter]) => summariseMeter(mprn, [...meter.serials], meter.intervals)),
+    skipped_rows: skippedRows,
+    skipped_read_types: [...skippedReadTypes],
+  };
+}
+
+function summariseMeter(
+  mprn: string,
+  serials: string[],
+  byEnd: Map<number, { import_kwh: number; export_kwh: number }>,
+): HdfMeterData {
+  const ends = [...byEnd.keys()].sort((a, b) => a - b);
+  const days = new Map<string, HdfDay>();
+  const totals = emptyTotals();
+  const intervals: HdfInterval[] = [];
+
+  for (const end of ends) {
+    const energy = byEnd.get(end)!;
+    const endAt = formatMinutes(end);
+    intervals.push({ end: `${endAt.date}T${endAt.time}`, import_kwh: round3(energy.import_kwh), export_kwh: round3(energy.export_kwh) });
+
+    // An interval ending at 00:00 belongs to the day (and band) it started in
+    const start = formatMinutes(end - INTERVAL_MINUTES);
+    const day = days.get(start.date) ?? { date: start.date, ...emptyTotals() };
+    days.set(start.date, day);
+
+    const band = touBand(start.minuteOfDay);
+    for (const bucket of [day, totals]) {
+      bucket.import_kwh += energy.import_kwh;
+      bucket.export_kwh += energy.export_kwh;
+      bucket[`${band}_kwh`] += energy.import_kwh;
+    }
+  }
+
+  const roundTotals = <T extends HdfTotals>(t: T): T => ({
+    ...t,
+    import_kwh: round3(t.import_kwh),
+    export_kwh: round3(t.export_kwh),
+    day_kwh: round3(t.day_kwh),
+    night_kwh: round3(t.night_kwh),
+    peak_kwh: round3(t.peak_kwh),
+  });
+
+  const daily = [...days.values()].map(roundTotals);
+  return {
+    mprn,
+    meter_serial_numbers: serials,
+    start_date: daily[0].date,
+    end_date: daily[daily.length - 1].date,
+    intervals,
+    daily,
+    totals: roundTotals(totals),
+  };
+}
+
+// One usage row per calendar month, as bills print them
+function monthlyUsage(daily: HdfDay[]): ElectricityUsage[] {
+  const months = new Map<string, HdfDay[]>();
+  for (const day of daily) {
+    const key = day.date.slice(0, 7);
+    months.set(key, [...(months.get(key) ?? []), day]);
+  }
+
+  return [...months.values()].map((days) => ({
+    start_read_date: days[0].date,
+    end_read_date: days[days.length - 1].date,
+    day_kWh: round3(days.reduce((sum, day) => sum + day.day_kwh, 0)),
+    night_kWh: round3(days.reduce((sum, day) => sum + day.night_kwh, 0)),
+    peak_kWh: round3(days.reduce((sum, day) => sum + day.peak_kwh, 0)),
+  }));
+}
+
+// The electricity result dispatched for an HDF upload: one bill per MPRN in the file
+export function hdfToParsedBill(hdf: HdfImport): ParsedBill {
+  return {
+    bills: {
+      cus_details: [],
+      gas: [],
+      broadband: [],
+      electricity: hdf.meters.map((meter) => ({
+        electricity_details: { meter_details: { mprn: meter.mprn } },
+        supplier_details: {
+          billing_period: {
+            start_date: meter.start_date,
+            end_date: meter.end_date,
+            days_count: billingPeriodDays(meter.start_date, meter.end_date),
+          },
+        },
+        charges_and_usage: { detailed_kWh_usage: monthlyUsage(meter.daily) },
+      })),
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { normalizeMcc } from "./identifiers.ts";
+
+// Regex scan of raw document text for meter point and account identifiers,
+// used to cross-check what the vision model returned. An identifier the model
+// reports but which never appears in the document text is a likely
+// hallucination (e.g. a meter serial number read as an MPRN).
+
+export type ScannedIdentifiers = {
+  mprns: string[];
+  gprns: string[];
+  mccs: string[];
+  account_numbers: string[];
+};
+
+export type CrossCheckField = "mprn" | "gprn" | "mcc" | "account_number";
+
+export type IdentifierCrossCheck = {
+  field: CrossCheckField;
+  path: string;
+  value: string;
+  found: boolean;
+};
+
+// Confidence points removed for each model identifier missing from the document text
+export const CROSS_CHECK_PENALTIES: Record<CrossCheckField, number> = {
+  mprn: 25,
+  gprn: 20,
+  mcc: 5,
+  account_number: 10,
+};
+
+// 11 digits starting with 10, allowing the space/hyphen grouping bills print them with
+const MPRN_PATTERN = /(?<![\d])1[\s-]?0(?:[\s-]?\d){9}(?![\d])/g;
+// GPRNs are only trusted next to their label; bare 7-digit numbers are too common
+const GPRN_PATTERN = /GPRN[^\d]{0,40}((?:\d[\s-]?){6,8})/gi;
+// Printed as "MCC01", "MCC 1" or "MCC: 01"
+const MCC_PATTERN = /\bMCC\s*[:.]?\s*(\d{1,2})(?!\d)/gi;
+const ACCOUNT_PATTERN = /Account\s*(?:No\.?|Number|#)?\s*[:.]?\s*([A-Z0-9][A-Z0-9-]{4,19})/gi;
+
+const digitsOnly = (value: string) => value.replace(/\D/g, "");
+const compact = (value: string) => value.replace(/[\s-]/g, "").toUpperCase();
+
+export function scanIdentifiers(text: string): ScannedIdentifiers {
+  const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+
+  return {
+    mprns: unique([...text.matchAll(MPRN_PATTERN)].map((m) => digitsOnly(m[0]))),
+    gprns: unique([...text.matchAll(GPRN_PATTERN)].map((m) => digitsOnly(m[1]))),
+    mccs: unique([...text.matchAll(MCC_PATTERN)].map((m) => normalizeMcc(m[1]))),
+    account_numbers: unique([...text.matchAll(ACCOUNT_PATTERN)].map((m) => compact(m[1]))),
+  };
+}
+
+function isPresent(value: unknown): value is string | number {
+  return value !== null && value !== undefined && String(value).trim() !== "" && String(value).trim() !== "0000-00-00";
+}
+
+// Whether `value` appears in the text, ignoring spacing/hyphenation differences
+function appearsInText(value: string, compactText: string, found: string[]): boolean {
+  const needle = compact(value);
+  return found.includes(needle) || (needle.length >= 5 && compactText.includes(needle));
+}
+
+type CrossCheckBills = {
+  bills?: {
+    electricity?: Array<{ electricity_details?: { account_number?: unknown; meter_details?: { mprn?: unknown; mcc?: unknown } } } | null>;
+    gas?: Array<{ gas_details?: { account_number?: unknown; meter_details?: { gprn?: unknown } } } | null>;
+  };
+};
+
+// Compare the model's identifiers against the scanned document text
+export function crossCheckIdentifiers(parsedData: CrossCheckBills | null | undefined, text: string): IdentifierCrossCheck[] {
+  const scanned = scanIdentifiers(text);
+  const compactText = compact(text);
+  const bills = parsedData?.bills ?? {};
+  const checks: IdentifierCrossCheck[] = [];
+
+  const check = (field: CrossCheckField, path: string, value: unknown, found: string[]) => {
+    if (!isPresent(value)) return;
+    checks.push({ field, path, value: String(value), found: appearsInText(String(value), compactText, found) });
+  };
+
+  (bills.electricity ?? []).forEach((bill, index) => {
+    const base = `bills.electricity[${index}].electricity_details`;
+    check("mprn", `${base}.meter_details.mprn`, bill?.electricity_details?.meter_details?.mprn, scanned.mprns);
+    check("mcc", `${base}.meter_details.mcc`, bill?.electricity_details?.meter_details?.mcc, scanned.mccs);
+    check("account_number", `${base}.account_number`, bill?.electricity_details?.account_number, scanned.account_numbers);
+  });
+
+  (bills.gas ?? []).forEach((bill, index) => {
+    const base = `bills.gas[${index}].gas_details`;
+    check("gprn", `${base}.meter_details.gprn`, bill?.gas_details?.meter_details?.gprn, scanned.gprns);
+    check("account_number", `${base}.account_number`, bill?.gas_details?.account_number, scanned.account_numbers);
+  });
+
+  return checks;
+}
+
+export function crossCheckPenalty(checks: IdentifierCrossCheck[]): number {
+  return checks.filter((c) => !c.found).reduce((total, c) => total + CROSS_CHECK_PENALTIES[c.field], 0);
+}
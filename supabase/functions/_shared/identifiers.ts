@@ -0,0 +1,185 @@
+// Deterministic checks for the meter point identifiers the model extracts.
+//
+// PARSE_PROMPT asks for these formats, but nothing guarantees the model obeyed,
+// and downstream routing depends on them. Values are normalised first
+// (whitespace stripped, DG/MCC prefixes added) and then checked against the
+// format rules and code sets below. The rules are format-only: neither
+// ESB Networks nor Gas Networks Ireland publish a check-digit algorithm for
+// MPRN/GPRN, so none is applied.
+
+export type IdentifierService = "electricity" | "gas";
+export type IdentifierField = "mprn" | "gprn" | "dg" | "mcc" | "profile";
+export type IdentifierSeverity = "critical" | "warning";
+
+export type IdentifierError = {
+  service: IdentifierService;
+  field: IdentifierField;
+  path: string;
+  value: string;
+  code: "invalid_format" | "invalid_prefix" | "unknown_code";
+  severity: IdentifierSeverity;
+  message: string;
+};
+
+type MeterDetails = Record<string, unknown>;
+
+type IdentifierBills = {
+  bills?: {
+    electricity?: Array<{ electricity_details?: { meter_details?: MeterDetails } } | null>;
+    gas?: Array<{ gas_details?: { meter_details?: MeterDetails } } | null>;
+  };
+};
+
+// Distribution loss adjustment factor groups
+export const DG_CODES = ["DG1", "DG2", "DG3", "DG4", "DG5", "DG6", "DG7", "DG8", "DG9", "DG10"] as const;
+
+// Meter configuration codes issued for Irish electricity meters; MCC12 is a smart meter
+export const MCC_CODES = [
+  "MCC01", "MCC02", "MCC03", "MCC04", "MCC05", "MCC06", "MCC07", "MCC08",
+  "MCC09", "MCC10", "MCC11", "MCC12", "MCC13", "MCC14", "MCC15", "MCC16",
+] as const;
+
+const MPRN_PATTERN = /^10\d{9}$/;
+const GPRN_PATTERN = /^\d{7}$/;
+const PROFILE_PATTERN = /^\d{1,2}$/;
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || String(value).trim() === "" || String(value).trim() === "0000-00-00";
+
+// ---------- Normalisation ----------
+
+export function normalizeMprn(value: string): string {
+  return value.replace(/[\s-]/g, "");
+}
+
+export function normalizeGprn(value: string): string {
+  return value.replace(/[\s-]/g, "");
+}
+
+// "1", "dg 1", "DG01" -> "DG1"
+export function normalizeDg(value: string): string {
+  const match = value.trim().match(/^(?:dg)?\s*0*(\d+)$/i);
+  return match ? `DG${match[1]}` : value.trim().toUpperCase();
+}
+
+// "12", "mcc 12", "MC12", "MCC1" -> "MCC12" / "MCC01"
+export function normalizeMcc(value: string): string {
+  const match = value.trim().match(/^(?:mcc?)?\s*(\d+)$/i);
+  return match ? `MCC${match[1].padStart(2, "0")}` : value.trim().toUpperCase();
+}
+
+export function normalizeProfile(value: string): string {
+  return value.trim();
+}
+
+// ---------- Validation ----------
+
+type Check = {
+  field: IdentifierField;
+  severity: IdentifierSeverity;
+  normalize: (value: string) => string;
+  validate: (value: string) => Pick<IdentifierError, "code" | "message"> | null;
+};
+
+const ELECTRICITY_CHECKS: Check[] = [
+  {
+    field: "mprn",
+    severity: "critical",
+    normalize: normalizeMprn,
+    validate: (value) => {
+      if (!/^\d{11}$/.test(value)) return { code: "invalid_format", message: `MPRN must be exactly 11 digits, got '${value}'` };
+      if (!MPRN_PATTERN.test(value)) return { code: "invalid_prefix", message: `MPRN must start with '10', got '${value}'` };
+      return null;
+    },
+  },
+  {
+    field: "dg",
+    severity: "critical",
+    normalize: normalizeDg,
+    validate: (value) => (DG_CODES as readonly string[]).includes(value)
+      ? null
+      : { code: "unknown_code", message: `DG must be one of DG1–DG10, got '${value}'` },
+  },
+  {
+    field: "mcc",
+    severity: "critical",
+    normalize: normalizeMcc,
+    validate: (value) => (MCC_CODES as readonly string[]).includes(value)
+      ? null
+      : { code: "unknown_code", message: `MCC '${value}' is not a known meter configuration code` },
+  },
+  {
+    field: "profile",
+    severity: "warning",
+    normalize: normalizeProfile,
+    validate: (value) => PROFILE_PATTERN.test(value)
+      ? null
+      : { code: "invalid_format", message: `Profile must be a 1–2 digit load profile code, got '${value}'` },
+  },
+];
+
+const GAS_CHECKS: Check[] = [
+  {
+    field: "gprn",
+    severity: "critical",
+    normalize: normalizeGprn,
+    validate: (value) => GPRN_PATTERN.test(value)
+      ? null
+      : { code: "invalid_format", message: `GPRN must be exactly 7 digits, got '${value}'` },
+  },
+];
+
+function checkMeterDetails(
+  meterDetails: MeterDetails | undefined,
+  service: IdentifierService,
+  basePath: string,
+  checks: Check[],
+): IdentifierError[] {
+  if (!meterDetails) return [];
+
+  const errors: IdentifierError[] = [];
+  for (const check of checks) {
+    const raw = meterDetails[check.field];
+    if (isEmpty(raw)) continue; // missing identifiers are handled by classification
+
+    const value = check.normalize(String(raw));
+    meterDetails[check.field] = value;
+
+    const failure = check.validate(value);
+    if (failure) {
+      errors.push({ service, field: check.field, path: `${basePath}.${check.field}`, value, severity: check.severity, ...failure });
+    }
+  }
+  return errors;
+}
+
+// Normalise every identifier in the parse result in place and return the field-level errors
+export function checkBillIdentifiers(parsedData: IdentifierBills | null | undefined): IdentifierError[] {
+  const bills = parsedData?.bills ?? {};
+  const errors: IdentifierError[] = [];
+
+  (bills.electricity ?? []).forEach((bill, index) => {
+    errors.push(...checkMeterDetails(
+      bill?.electricity_details?.meter_details,
+      "electricity",
+      `bills.electricity[${index}].electricity_details.meter_details`,
+      ELECTRICITY_CHECKS,
+    ));
+  });
+
+  (bills.gas ?? []).forEach((bill, index) => {
+    errors.push(...checkMeterDetails(
+      bill?.gas_details?.meter_details,
+      "gas",
+      `bills.gas[${index}].gas_details.meter_details`,
+      GAS_CHECKS,
+    ));
+  });
+
+  return errors;
+}
+
+// Services whose dispatch must be blocked because a critical identifier is malformed
+export function servicesWithCriticalErrors(errors: IdentifierError[]): IdentifierService[] {
+  return [...new Set(errors.filter((error) => error.severity === "critical").map((error) => error.service))];
+}
@@ -0,0 +1,107 @@
+import type { MeterPhoto } from "./bill-schema.ts";
+
+// Deterministic checks on a meter-photo reading before it is sent to the
+// meter-file endpoint. The reading must be a whole number in the unit the
+// utility is metered in (gas in m³, electricity in kWh), and a T1/T2 display
+// must add up: when both day and night registers were photographed the reading
+// sent is their total, unless the meter showed its I.8.0 total register.
+
+export type MeterPhotoCheck = {
+  // The photo with unit, registers and total normalised
+  photo: MeterPhoto;
+  // Changes made while normalising, e.g. a fractional gas reading rounded down
+  corrections: string[];
+  // Problems that make the reading unusable; the photo is then sent without it
+  errors: string[];
+  valid: boolean;
+};
+
+const TOTAL_REGISTERS = ["I.8.0", "1.8.0"];
+const TIME_OF_USE_REGISTER = /^T\d$/;
+
+const UNIT_SPELLINGS: Record<string, "kWh" | "m3"> = {
+  kwh: "kWh",
+  "kw h": "kWh",
+  m3: "m3",
+  "m³": "m3",
+  "m^3": "m3",
+  "cubic metres": "m3",
+  "cubic meters": "m3",
+};
+
+const UTILITY_UNITS = { electricity: "kWh", gas: "m3" } as const;
+
+const normaliseRegister = (register: string) => register.trim().toUpperCase().replace(/\s+/g, "");
+
+export function checkMeterPhoto(input: MeterPhoto): MeterPhotoCheck {
+  const photo: MeterPhoto = { ...input };
+  const corrections: string[] = [];
+  const errors: string[] = [];
+
+  if (photo.is_meter === false) {
+    errors.push("the photo does not show a readable meter");
+  }
+
+  let unitRecognised = true;
+  if (photo.unit !== undefined) {
+    const unit = UNIT_SPELLINGS[photo.unit.trim().toLowerCase()];
+    if (unit) {
+      photo.unit = unit;
+    } else {
+      unitRecognised = false;
+      errors.push(`unrecognised unit '${photo.unit}'`);
+    }
+  }
+  if (!photo.utility && (photo.unit === "kWh" || photo.unit === "m3")) {
+    photo.utility = photo.unit === "m3" ? "gas" : "electricity";
+  }
+  if (photo.utility && !photo.unit) {
+    photo.unit = UTILITY_UNITS[photo.utility];
+  }
+  if (photo.utility && unitRecognised && photo.unit !== UTILITY_UNITS[photo.utility]) {
+    errors.push(`${photo.utility} meters read in ${UTILITY_UNITS[photo.utility]}, not ${photo.unit}`);
+  }
+
+  // Registers read as whole units; the red drum / decimal digits are never part of the reading
+  const registers = (photo.registers ?? [])
+    .filter((entry) => entry.register && typeof entry.read_value === "number")
+    .map((entry) => ({ register: normaliseRegister(entry.register!), read_value: Math.floor(entry.read_value!) }));
+  if (registers.length > 0) photo.registers = registers;
+
+  if (typeof photo.read_value === "number" && !Number.isInteger(photo.read_value)) {
+    const rounded = Math.floor(photo.read_value);
+    corrections.push(`rounded reading ${photo.read_value} down to ${rounded}`);
+    photo.read_value = rounded;
+  }
+
+  const total = registers.find((entry) => TOTAL_REGISTERS.includes(entry.register));
+  const timeOfUse = registers.filter((entry) => TIME_OF_USE_REGISTER.test(entry.register));
+  const expected = total
+    ? { register: "I.8.0", read_value: total.read_value }
+    : timeOfUse.length >= 2
+    ? { register: timeOfUse.map((entry) => entry.register).join("+"), read_value: timeOfUse.reduce((sum, entry) => sum + entry.read_value, 0) }
+    : null;
+
+  if (expected && photo.read_value !== expected.read_value) {
+    // Missing, or the single register the display happened to show: replace with the total
+    if (photo.read_value === undefined || registers.some((entry) => entry.read_value === photo.read_value)) {
+      if (photo.read_value !== undefined) corrections.push(`reading ${photo.read_value} replaced by the ${expected.register} total ${expected.read_value}`);
+      photo.read_value = expected.read_value;
+      photo.register = expected.register;
+    } else {
+      errors.push(`reading ${photo.read_value} does not match the ${expected.register} total ${expected.read_value}`);
+    }
+  } else if (expected) {
+    photo.register = expected.register;
+  }
+
+  if (photo.read_value === undefined) {
+    errors.push("no reading was read from the display");
+  } else if (photo.read_value < 0) {
+    errors.push(`reading ${photo.read_value} is negative`);
+  }
+
+  if (photo.register) photo.register = normaliseRegister(photo.register);
+
+  return { photo, corrections, errors, valid: errors.length === 0 };
+}
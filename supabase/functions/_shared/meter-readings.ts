@@ -0,0 +1,258 @@
+import type { ParsedBill } from "./bill-schema.ts";
+import { daysBetween, parseBillDate, resolveBillingPeriod } from "./dates.ts";
+
+// Plausibility checks on a bill's meter readings. Consecutive reads of each
+// register (day, night, NSH, peak; the gas index) give the consumption the
+// meter recorded, which must be non-negative (or explained by the counter
+// wrapping round), read with a consistent number of digits, plausible for a
+// domestic supply, and agree with the consumption the bill charges for.
+
+export type ReadingService = "electricity" | "gas";
+export type ReadingRegister = "day" | "night" | "nsh" | "peak" | "gas";
+
+export type ReadingWarningCode =
+  | "negative_delta"
+  | "rollover"
+  | "digit_mismatch"
+  | "implausible_daily_average"
+  | "billed_mismatch";
+
+export type ReadingWarning = {
+  service: ReadingService;
+  register: ReadingRegister;
+  code: ReadingWarningCode;
+  message: string;
+};
+
+// Consumption between two consecutive reads of one register
+export type RegisterConsumption = {
+  service: ReadingService;
+  register: ReadingRegister;
+  previous: number;
+  current: number;
+  previous_date: string | null;
+  current_date: string | null;
+  consumption: number;
+  days: number | null;
+};
+
+export type MeterReadingCheck = {
+  consumption: RegisterConsumption[];
+  warnings: ReadingWarning[];
+};
+
+const ELECTRICITY_REGISTERS = {
+  day_reading: "day",
+  night_reading: "night",
+  nsh_reading: "nsh",
+  peak_reading: "peak",
+} as const;
+
+// Billed kWh bands that correspond to a register
+const USAGE_BANDS = { day: "day_kWh", night: "night_kWh", peak: "peak_kWh" } as const;
+
+// Above these a domestic meter is more likely misread than used: ~10x a typical home
+const MAX_DOMESTIC_DAILY = { electricity: 100, gas: 20 } as const;
+const DOMESTIC_DG = ["DG1", "DG2"];
+
+// A counter within 10% of wrapping round that reads low next time has rolled over
+const ROLLOVER_HEADROOM = 0.1;
+
+// m³ -> kWh: volume correction 1.02264 x calorific value 37.5-41 MJ/m³ / 3.6
+const GAS_KWH_PER_M3 = { min: 10.6, max: 11.7 };
+
+// Billed consumption may differ from the reads by rounding, never by more than this
+const billedTolerance = (billed: number) => Math.max(1, billed * 0.02);
+
+// Confidence points deducted per warning
+const READING_PENALTIES: Record<ReadingWarningCode, number> = {
+  negative_delta: 10,
+  digit_mismatch: 8,
+  billed_mismatch: 6,
+  implausible_daily_average: 5,
+  rollover: 2,
+};
+
+const digitCount = (value: number) => String(Math.floor(Math.abs(value))).length;
+
+type Read = { date: string | null; value: number };
+
+// Reads in the order they were taken; the model lists them as printed when dates are missing
+function orderReads(reads: Read[]): Read[] {
+  return reads.every((read) => read.date) ? [...reads].sort((a, b) => a.date!.localeCompare(b.date!)) : reads;
+}
+
+function checkRegister(
+  service: ReadingService,
+  register: ReadingRegister,
+  reads: Read[],
+  fallbackDays: number | null,
+  warnings: ReadingWarning[],
+): RegisterConsumption[] {
+  const label = service === "gas" ? "Gas" : `${register.toUpperCase()} register`;
+  const unit = service === "gas" ? "m³" : "kWh";
+  const ordered = orderReads(reads);
+  const consumption: RegisterConsumption[] = [];
+
+  for (let i = 1; i < ordered.length; i++) {
+    const previous = ordered[i - 1];
+    const current = ordered[i];
+    let delta = current.value - previous.value;
+    const counterSize = 10 ** digitCount(previous.value);
+
+    if (delta < 0 && previous.value >= counterSize * (1 - ROLLOVER_HEADROOM) && current.value < counterSize * ROLLOVER_HEADROOM) {
+      delta += counterSize;
+      warnings.push({
+        service, register, code: "rollover",
+        message: `${label} rolled over from ${previous.value} to ${current.value}; counted as ${delta} ${unit}`,
+      });
+    } else if (
+      digitCount(previous.value) !== digitCount(current.value) &&
+      // 9950 -> 10020 is the counter growing a digit, not a misread
+      !(delta > 0 && previous.value >= counterSize * (1 - ROLLOVER_HEADROOM))
+    ) {
+      warnings.push({
+        service, register, code: "digit_mismatch",
+        message: `${label} reads ${previous.value} then ${current.value} - different number of digits`,
+      });
+    } else if (delta < 0) {
+      warnings.push({
+        service, register, code: "negative_delta",
+        message: `${label} went backwards from ${previous.value} to ${current.value}`,
+      });
+    }
+
+    const days = previous.date && current.date ? daysBetween(previous.date, current.date) : fallbackDays;
+    consumption.push({
+      service,
+      register,
+      previous: previous.value,
+      current: current.value,
+      previous_date: previous.date,
+      current_date: current.date,
+      consumption: delta,
+      days: days && days > 0 ? days : null,
+    });
+  }
+
+  return consumption;
+}
+
+// Total consumption per register over the whole bill, ignoring pairs that went backwards
+function totalsByRegister(consumption: RegisterConsumption[]): Map<ReadingRegister, number> {
+  const totals = new Map<ReadingRegister, number>();
+  for (const entry of consumption) {
+    if (entry.consumption < 0) continue;
+    totals.set(entry.register, (totals.get(entry.register) ?? 0) + entry.consumption);
+  }
+  return totals;
+}
+
+function checkDailyAverage(service: ReadingService, consumption: RegisterConsumption[], warnings: ReadingWarning[]) {
+  const valid = consumption.filter((entry) => entry.consumption >= 0 && entry.days);
+  if (valid.length === 0) return;
+
+  // Every register is read over the same days, so the daily use is the sum of each register's average
+  const daily = [...new Set(valid.map((entry) => entry.register))].reduce((sum, register) => {
+    const entries = valid.filter((entry) => entry.register === register);
+    const used = entries.reduce((total, entry) => total + entry.consumption, 0);
+    const days = entries.reduce((total, entry) => total + entry.days!, 0);
+    return sum + used / days;
+  }, 0);
+
+  if (daily > MAX_DOMESTIC_DAILY[service]) {
+    const unit = service === "gas" ? "m³" : "kWh";
+    warnings.push({
+      service,
+      register: service === "gas" ? "gas" : valid[0].register,
+      code: "implausible_daily_average",
+      message: `${service === "gas" ? "Gas" : "Electricity"} readings imply ${Math.round(daily)} ${unit}/day, implausible for a domestic supply`,
+    });
+  }
+}
+
+function checkElectricity(bill: ParsedBill["bills"]["electricity"][number], warnings: ReadingWarning[]): RegisterConsumption[] {
+  const readings = bill.charges_and_usage?.meter_readings ?? [];
+  const period = resolveBillingPeriod(bill.supplier_details?.billing_period);
+  const fallbackDays = period ? daysBetween(period.start_date, period.end_date) : null;
+
+  const consumption = Object.entries(ELECTRICITY_REGISTERS).flatMap(([field, register]) => {
+    const reads = readings
+      .filter((reading) => typeof reading[field as keyof typeof ELECTRICITY_REGISTERS] === "number")
+      .map((reading) => ({ date: parseBillDate(reading.date), value: reading[field as keyof typeof ELECTRICITY_REGISTERS]! }));
+    return checkRegister("electricity", register, reads, fallbackDays, warnings);
+  });
+
+  const dg = bill.electricity_details?.meter_details?.dg;
+  if (!dg || DOMESTIC_DG.includes(dg)) checkDailyAverage("electricity", consumption, warnings);
+
+  // Meter reads against the kWh the bill charges for, band by band
+  const usage = bill.charges_and_usage?.detailed_kWh_usage ?? [];
+  for (const [register, recorded] of totalsByRegister(consumption)) {
+    if (!(register in USAGE_BANDS)) continue;
+    const band = USAGE_BANDS[register as keyof typeof USAGE_BANDS];
+    const billedValues = usage.map((row) => row[band]).filter((value): value is number => typeof value === "number");
+    if (billedValues.length === 0) continue;
+    const billed = billedValues.reduce((sum, value) => sum + value, 0);
+    if (Math.abs(billed - recorded) > billedTolerance(billed)) {
+      warnings.push({
+        service: "electricity",
+        register,
+        code: "billed_mismatch",
+        message: `${register.toUpperCase()} register reads show ${recorded} kWh used but ${billed} kWh were billed`,
+      });
+    }
+  }
+
+  return consumption;
+}
+
+function checkGas(bill: ParsedBill["bills"]["gas"][number], warnings: ReadingWarning[]): RegisterConsumption[] {
+  const charges = bill.charges_and_usage;
+  const period = resolveBillingPeriod(bill.supplier_details?.billing_period);
+  const fallbackDays = period ? daysBetween(period.start_date, period.end_date) : null;
+  const reads = (charges?.meter_readings ?? [])
+    .filter((reading) => typeof reading.reading === "number")
+    .map((reading) => ({ date: parseBillDate(reading.date), value: reading.reading! }));
+
+  const consumption = checkRegister("gas", "gas", reads, fallbackDays, warnings);
+  checkDailyAverage("gas", consumption, warnings);
+
+  const recorded = totalsByRegister(consumption).get("gas");
+  if (recorded === undefined) return consumption;
+
+  if (typeof charges?.units_consumed === "number" && Math.abs(charges.units_consumed - recorded) > billedTolerance(charges.units_consumed)) {
+    warnings.push({
+      service: "gas", register: "gas", code: "billed_mismatch",
+      message: `Gas reads show ${recorded} m³ used but ${charges.units_consumed} m³ were billed`,
+    });
+  }
+  if (typeof charges?.kWh_consumed === "number" && recorded > 0) {
+    const factor = charges.kWh_consumed / recorded;
+    if (factor < GAS_KWH_PER_M3.min || factor > GAS_KWH_PER_M3.max) {
+      warnings.push({
+        service: "gas", register: "gas", code: "billed_mismatch",
+        message: `Gas reads show ${recorded} m³ but ${charges.kWh_consumed} kWh were billed (${factor.toFixed(1)} kWh/m³)`,
+      });
+    }
+  }
+
+  return consumption;
+}
+
+export function checkMeterReadings(parsedData: ParsedBill): MeterReadingCheck {
+  const warnings: ReadingWarning[] = [];
+  const consumption: RegisterConsumption[] = [];
+
+  const electricity = parsedData.bills.electricity?.[0];
+  if (electricity) consumption.push(...checkElectricity(electricity, warnings));
+  const gas = parsedData.bills.gas?.[0];
+  if (gas) consumption.push(...checkGas(gas, warnings));
+
+  return { consumption, warnings };
+}
+
+// Confidence points to deduct for implausible readings
+export function readingPenalty(warnings: ReadingWarning[]): number {
+  return warnings.reduce((total, warning) => total + READING_PENALTIES[warning.code], 0);
+}
@@ -0,0 +1,105 @@
+// Sends parsed bills to downstream APIs as multipart/form-data:
+// the original uploaded file plus the rendered text fields of each config.
+
+export type DispatchRequest = {
+  type: string;
+  endpoint: string;
+  payload: Record<string, string>;
+  config_id?: string;
+  config_name?: string;
+};
+
+export type DispatchResult = DispatchRequest & {
+  status: number;
+  ok: boolean;
+  response?: string;
+  error?: string;
+};
+
+export type BillFile = {
+  blob: Blob;
+  name: string;
+};
+
+const MAX_ERROR_LENGTH = 4096;
+
+export function detectContentType(url: string): string {
+  const urlLower = url.toLowerCase();
+  if (urlLower.endsWith(".xlsx")) return "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+  if (urlLower.endsWith(".xls")) return "application/vnd.ms-excel";
+  if (urlLower.endsWith(".csv")) return "text/csv";
+  if (urlLower.endsWith(".png")) return "image/png";
+  if (urlLower.endsWith(".jpg") || urlLower.endsWith(".jpeg")) return "image/jpeg";
+  if (urlLower.endsWith(".pdf")) return "application/pdf";
+  return "application/octet-stream";
+}
+
+// Fetch the original uploaded file once so every endpoint receives the same bytes
+export async function fetchBillFile(fileUrl: string, filePath?: string | null): Promise<BillFile> {
+  const fileResp = await fetch(fileUrl);
+  if (!fileResp.ok) {
+    throw new Error(`Failed to fetch original file: ${fileResp.status}`);
+  }
+  const arrayBuf = await fileResp.arrayBuffer();
+  const contentType = fileResp.headers.get("content-type") || detectContentType(fileUrl);
+  const name = typeof filePath === "string" && filePath.length > 0 ? filePath : "upload.bin";
+
+  // Use Uint8Array wrapper for consistent binary file handling
+  return { blob: new Blob([new Uint8Array(arrayBuf)], { type: contentType }), name };
+}
+
+export async function dispatchToEndpoint(request: DispatchRequest, file: BillFile | null, apiKey: string): Promise<DispatchResult> {
+  const { type, endpoint, payload } = request;
+
+  try {
+    console.log(`Calling ${type} API (${request.config_name || "unnamed config"}):`, endpoint);
+    console.log(`${type} fields (non-binary):`, JSON.stringify(payload, null, 2));
+
+    if (!file) {
+      throw new Error("Original file unavailable for upload");
+    }
+
+    const form = new FormData();
+    form.append("file", file.blob, file.name);
+    for (const [key, value] of Object.entries(payload)) {
+      form.append(key, value);
+    }
+
+    const apiResponse = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`
+        // Do NOT set Content-Type when sending FormData; the runtime will set the correct boundary
+      },
+      body: form
+    });
+
+    let responseText = "";
+    try {
+      responseText = await apiResponse.text();
+    } catch (_e) {
+      responseText = "Failed to read response body";
+    }
+
+    // Truncate error responses
+    const truncatedResponse = responseText.slice(0, MAX_ERROR_LENGTH);
+    console.log(`${type} API response:`, apiResponse.status, truncatedResponse.slice(0, 200));
+
+    return {
+      ...request,
+      status: apiResponse.status,
+      ok: apiResponse.ok,
+      response: truncatedResponse,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Error calling ${type} API:`, errorMessage);
+
+    return {
+      ...request,
+      status: 500,
+      ok: false,
+      error: errorMessage.slice(0, MAX_ERROR_LENGTH),
+    };
+  }
+}
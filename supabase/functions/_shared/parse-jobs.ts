@@ -0,0 +1,73 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// Persistence helpers for the parse_jobs history table.
+// Failures here are logged and swallowed so that a database hiccup never
+// prevents a bill from being parsed and dispatched.
+
+export type ParseJobStatus = "queued" | "processing" | "completed" | "needs_review" | "rejected" | "dispatch_failed" | "failed";
+
+export type ParseJobFields = {
+  status?: ParseJobStatus;
+  phone?: string;
+  file_path?: string | null;
+  image_url?: string | null;
+  input_type?: string;
+  batch_id?: string | null;
+  source_file_name?: string | null;
+  services?: string[];
+  services_detected?: Record<string, boolean>;
+  parsed_data?: unknown;
+  confidence_score?: number;
+  classification_details?: unknown;
+  field_sources?: unknown[];
+  interval_data?: unknown[] | null;
+  validation_warnings?: string[];
+  api_calls?: unknown[];
+  error?: string | null;
+  used_conversion?: boolean;
+  visual_input_count?: number;
+  ai_duration_ms?: number;
+  dispatch_duration_ms?: number;
+  total_duration_ms?: number;
+  completed_at?: string;
+  reviewed_at?: string;
+  review_decision?: "approved" | "rejected";
+  review_note?: string | null;
+};
+
+export async function createParseJob(supabase: SupabaseClient, fields: ParseJobFields): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("parse_jobs")
+    .insert({ status: "processing", ...fields })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Failed to create parse job:", error.message);
+    return null;
+  }
+  return data.id;
+}
+
+export async function updateParseJob(supabase: SupabaseClient, jobId: string | null, fields: ParseJobFields): Promise<void> {
+  if (!jobId) return;
+
+  const { error } = await supabase
+    .from("parse_jobs")
+    .update(fields)
+    .eq("id", jobId);
+
+  if (error) {
+    console.error(`Failed to update parse job ${jobId}:`, error.message);
+  }
+}
+
+// Mark a job as failed, recording the error and total duration
+export async function failParseJob(supabase: SupabaseClient, jobId: string | null, error: string, startedAt: number): Promise<void> {
+  await updateParseJob(supabase, jobId, {
+    status: "failed",
+    error: error.slice(0, 4096),
+    total_duration_ms: Date.now() - startedAt,
+    completed_at: new Date().toISOString(),
+  });
+}
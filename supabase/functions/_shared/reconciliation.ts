@@ -0,0 +1,296 @@
+import type { ElectricityBill, GasBill, ParsedBill } from "./bill-schema.ts";
+import { resolveBillingPeriod } from "./dates.ts";
+import type { RegisterConsumption } from "./meter-readings.ts";
+
+// Bill arithmetic reconciliation: rebuild each bill's total from the extracted
+// line items -
+//
+//   units x unit rates (less any rate discount) + standing charge x days
+//   + PSO levy + carbon tax - discounts - microgen credit, plus VAT
+//
+// - and compare it with financial_information.total_due. A mismatch usually
+// means one number was misread, so each line item is tested for the classic
+// slips (a decimal point, cents read as euro, a line that is not on the bill)
+// that would explain the difference exactly.
+
+export type ReconciliationService = "electricity" | "gas";
+export type ReconciliationStatus = "matched" | "mismatch" | "large_mismatch";
+
+export type ReconciliationLine = {
+  item: string;
+  // Parse-result field the amount was computed from
+  path: string;
+  // Euro, before VAT; credits are negative
+  amount: number;
+  detail: string;
+};
+
+export type ReconciliationSuspect = {
+  item: string;
+  path: string;
+  message: string;
+};
+
+export type Reconciliation = {
+  service: ReconciliationService;
+  lines: ReconciliationLine[];
+  subtotal: number;
+  vat_rate: number;
+  // No VAT rate or amount on the bill; the standard energy rate was used
+  vat_rate_assumed: boolean;
+  vat: number;
+  expected_total: number;
+  billed_total: number;
+  // billed_total - expected_total
+  discrepancy: number;
+  status: ReconciliationStatus;
+  suspects: ReconciliationSuspect[];
+};
+
+// Irish VAT on domestic energy; 13.5% applied before May 2022
+export const STANDARD_ENERGY_VAT_RATE = 9;
+const ALTERNATIVE_VAT_RATES = [13.5, 23];
+
+// Unit rates above this are cents per kWh, standing charges above these are cents
+const MAX_EURO_UNIT_RATE = 2;
+const MAX_EURO_DAILY_STANDING_CHARGE = 5;
+
+// Rounding across a handful of lines never exceeds a euro or 2%; more than €5 and 10% is a misread
+const tolerance = (billed: number) => Math.max(1, Math.abs(billed) * 0.02);
+const largeMismatch = (billed: number) => Math.max(5, Math.abs(billed) * 0.1);
+
+// Confidence points deducted per service that does not add up
+const RECONCILIATION_PENALTIES: Record<ReconciliationStatus, number> = {
+  matched: 0,
+  mismatch: 5,
+  large_mismatch: 15,
+};
+
+// How a misread line item would have to be rescaled to explain the difference
+const SLIPS = [
+  { factor: 0, message: "accounts for the whole difference - likely not on the bill or counted twice" },
+  { factor: 10, message: "is 10x too small - decimal point likely misread" },
+  { factor: 0.1, message: "is 10x too large - decimal point likely misread" },
+  { factor: 100, message: "is 100x too small - likely cents read as euro" },
+  { factor: 0.01, message: "is 100x too large - likely euro read as cents" },
+];
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const euro = (n: number) => `${n < 0 ? "-" : ""}€${Math.abs(n).toFixed(2)}`;
+
+// Euro per kWh from a bill's unit rate; the currency is guessed from the size when not stated
+export function toEuroRate(rate: number, currency: string | undefined): number {
+  if (currency === "cent") return rate / 100;
+  if (currency === "euro") return rate;
+  return rate > MAX_EURO_UNIT_RATE ? rate / 100 : rate;
+}
+
+// Euro per day from a bill's standing charge, quoted daily or annually in cent or euro
+export function dailyStandingCharge(charge: number, currency: string | undefined, period: string | undefined): number {
+  const annual = period === "annual";
+  const inCents = currency === "cent" || (currency === undefined && !annual && charge > MAX_EURO_DAILY_STANDING_CHARGE);
+  return (inCents ? charge / 100 : charge) / (annual ? 365 : 1);
+}
+
+function standingChargeLine(
+  item: string,
+  path: string,
+  charge: number | undefined,
+  currency: string | undefined,
+  period: string | undefined,
+  days: number | null,
+): ReconciliationLine | null | undefined {
+  if (typeof charge !== "number") return undefined;
+  if (days === null) return null;
+
+  const perDay = dailyStandingCharge(charge, currency, period);
+  return { item, path, amount: perDay * days, detail: `${days} days x ${euro(perDay)}/day` };
+}
+
+type Priced = { lines: ReconciliationLine[] } | null;
+
+function electricityLines(bill: ElectricityBill, consumption: RegisterConsumption[]): Priced {
+  const charges = bill.charges_and_usage ?? {};
+  const rates = charges.unit_rates ?? {};
+  const base = "bills.electricity[0].charges_and_usage";
+  const lines: ReconciliationLine[] = [];
+
+  // Billed kWh per band, or the reads when the bill has no usage table
+  const usage = charges.detailed_kWh_usage ?? [];
+  const units: Partial<Record<"day" | "night" | "peak" | "ev" | "nsh", { kWh: number; path: string }>> = {};
+  for (const band of ["day", "night", "peak", "ev"] as const) {
+    const values = usage.map((row) => row[`${band}_kWh`]).filter((value): value is number => typeof value === "number");
+    if (values.length > 0) units[band] = { kWh: values.reduce((sum, value) => sum + value, 0), path: `${base}.detailed_kWh_usage` };
+  }
+  for (const entry of consumption) {
+    if (entry.service !== "electricity" || entry.register === "gas" || entry.consumption < 0) continue;
+    if (units[entry.register] && units[entry.register]!.path !== `${base}.meter_readings`) continue;
+    const current = units[entry.register]?.kWh ?? 0;
+    units[entry.register] = { kWh: current + entry.consumption, path: `${base}.meter_readings` };
+  }
+
+  for (const [band, { kWh, path }] of Object.entries(units)) {
+    // 24-hour meters bill everything as day units at the 24-hour rate
+    const rate = rates[band as keyof typeof rates] ?? (band === "day" ? rates["24_hour_rate"] : undefined);
+    if (typeof rate !== "number") return null;
+    const perKWh = toEuroRate(rate, rates.rate_currency);
+    lines.push({ item: `${band} units`, path, amount: kWh * perKWh, detail: `${round2(kWh)} kWh x ${euro(perKWh)}` });
+  }
+  if (lines.length === 0) return null;
+
+  if (typeof rates.rate_discount_percentage === "number" && rates.rate_discount_percentage > 0) {
+    const energy = lines.reduce((sum, line) => sum + line.amount, 0);
+    lines.push({
+      item: "unit rate discount",
+      path: `${base}.unit_rates.rate_discount_percentage`,
+      amount: -energy * rates.rate_discount_percentage / 100,
+      detail: `${rates.rate_discount_percentage}% of unit charges`,
+    });
+  }
+
+  const days = resolveBillingPeriod(bill.supplier_details?.billing_period)?.days_count ?? null;
+  const standing = [
+    standingChargeLine("standing charge", `${base}.standing_charge`, charges.standing_charge, charges.standing_charge_currency, charges.standing_charge_period, days),
+    standingChargeLine("NSH standing charge", `${base}.nsh_standing_charge`, charges.nsh_standing_charge, charges.nsh_standing_charge_currency, charges.nsh_standing_charge_period, days),
+  ];
+  if (standing.includes(null)) return null;
+  lines.push(...standing.filter((line): line is ReconciliationLine => !!line));
+
+  if (typeof charges.pso_levy === "number") lines.push({ item: "PSO levy", path: `${base}.pso_levy`, amount: charges.pso_levy, detail: "as billed" });
+  if (typeof charges.discounts === "number") {
+    lines.push({ item: "discounts", path: `${base}.discounts`, amount: -Math.abs(charges.discounts), detail: "credit" });
+  }
+  if (typeof charges.microgen_credit === "number") {
+    lines.push({ item: "microgen credit", path: `${base}.microgen_credit`, amount: -Math.abs(charges.microgen_credit), detail: "credit" });
+  }
+
+  return { lines };
+}
+
+function gasLines(bill: GasBill): Priced {
+  const charges = bill.charges_and_usage ?? {};
+  const base = "bills.gas[0].charges_and_usage";
+  const rate = charges.unit_rates?.rate;
+  if (typeof charges.kWh_consumed !== "number" || typeof rate !== "number") return null;
+
+  const perKWh = toEuroRate(rate, charges.unit_rates?.rate_currency);
+  const lines: ReconciliationLine[] = [{
+    item: "gas units",
+    path: `${base}.kWh_consumed`,
+    amount: charges.kWh_consumed * perKWh,
+    detail: `${round2(charges.kWh_consumed)} kWh x ${euro(perKWh)}`,
+  }];
+
+  const days = resolveBillingPeriod(bill.supplier_details?.billing_period)?.days_count ?? null;
+  const standing = standingChargeLine("standing charge", `${base}.standing_charge`, charges.standing_charge, charges.standing_charge_currency, charges.standing_charge_period, days);
+  if (standing === null) return null;
+  if (standing) lines.push(standing);
+
+  if (typeof charges.carbon_tax === "number") lines.push({ item: "carbon tax", path: `${base}.carbon_tax`, amount: charges.carbon_tax, detail: "as billed" });
+  if (typeof charges.discounts === "number") {
+    lines.push({ item: "discounts", path: `${base}.discounts`, amount: -Math.abs(charges.discounts), detail: "credit" });
+  }
+
+  return { lines };
+}
+
+function findSuspects(
+  lines: ReconciliationLine[],
+  subtotal: number,
+  vatRate: number,
+  vatRateAssumed: boolean,
+  billed: number,
+  discrepancy: number,
+  vatPath: string,
+): ReconciliationSuspect[] {
+  const suspects: ReconciliationSuspect[] = [];
+  const vatFactor = 1 + vatRate / 100;
+  const allowed = tolerance(billed);
+
+  for (const line of lines) {
+    if (line.amount === 0) continue;
+    // The pre-VAT amount this line would need for the total to match
+    const needed = line.amount + discrepancy / vatFactor;
+    const slip = SLIPS.find(({ factor }) => Math.abs(needed - line.amount * factor) * vatFactor <= allowed);
+    if (slip) suspects.push({ item: line.item, path: line.path, message: `${line.item} (${euro(line.amount)}) ${slip.message}` });
+  }
+
+  for (const rate of vatRateAssumed ? ALTERNATIVE_VAT_RATES : []) {
+    if (Math.abs(subtotal * (1 + rate / 100) - billed) <= allowed) {
+      suspects.push({ item: "VAT", path: vatPath, message: `total matches VAT at ${rate}% rather than ${vatRate}%` });
+    }
+  }
+
+  return suspects;
+}
+
+function reconcile(
+  service: ReconciliationService,
+  bill: ElectricityBill | GasBill,
+  priced: Priced,
+): Reconciliation | null {
+  const charges = bill.charges_and_usage as { vat_rate?: number; vat_amount?: number } | undefined;
+  const financial = bill.financial_information;
+  const billed = financial?.total_due ?? financial?.amount_due;
+  if (!priced || typeof billed !== "number") return null;
+
+  const subtotal = priced.lines.reduce((sum, line) => sum + line.amount, 0);
+  const vatRateAssumed = typeof charges?.vat_rate !== "number" && typeof charges?.vat_amount !== "number";
+  const vatRate = typeof charges?.vat_rate === "number"
+    ? charges.vat_rate
+    : typeof charges?.vat_amount === "number" && subtotal > 0
+    ? (charges.vat_amount / subtotal) * 100
+    : STANDARD_ENERGY_VAT_RATE;
+  const vat = typeof charges?.vat_rate !== "number" && typeof charges?.vat_amount === "number" ? charges.vat_amount : subtotal * vatRate / 100;
+
+  const expected = subtotal + vat;
+  const discrepancy = billed - expected;
+  const status: ReconciliationStatus = Math.abs(discrepancy) <= tolerance(billed)
+    ? "matched"
+    : Math.abs(discrepancy) > largeMismatch(billed)
+    ? "large_mismatch"
+    : "mismatch";
+
+  return {
+    service,
+    lines: priced.lines.map((line) => ({ ...line, amount: round2(line.amount) })),
+    subtotal: round2(subtotal),
+    vat_rate: round2(vatRate),
+    vat_rate_assumed: vatRateAssumed,
+    vat: round2(vat),
+    expected_total: round2(expected),
+    billed_total: billed,
+    discrepancy: round2(discrepancy),
+    status,
+    suspects: status === "matched"
+      ? []
+      : findSuspects(priced.lines, subtotal, vatRate, vatRateAssumed, billed, discrepancy, `bills.${service}[0].charges_and_usage.vat_rate`),
+  };
+}
+
+// One reconciliation per service whose bill has enough line items to rebuild its total
+export function reconcileBill(parsedData: ParsedBill, consumption: RegisterConsumption[] = []): Reconciliation[] {
+  const results: Reconciliation[] = [];
+
+  const electricity = parsedData.bills.electricity?.[0];
+  if (electricity) {
+    const result = reconcile("electricity", electricity, electricityLines(electricity, consumption));
+    if (result) results.push(result);
+  }
+  const gas = parsedData.bills.gas?.[0];
+  if (gas) {
+    const result = reconcile("gas", gas, gasLines(gas));
+    if (result) results.push(result);
+  }
+
+  return results;
+}
+
+export function reconciliationPenalty(reconciliations: Reconciliation[]): number {
+  return reconciliations.reduce((total, reconciliation) => total + RECONCILIATION_PENALTIES[reconciliation.status], 0);
+}
+
+export function describeReconciliation(reconciliation: Reconciliation): string {
+  const service = reconciliation.service === "gas" ? "Gas" : "Electricity";
+  return `${service} charges add up to ${euro(reconciliation.expected_total)} but the bill total is ${euro(reconciliation.billed_total)} (${reconciliation.discrepancy > 0 ? "+" : ""}${euro(reconciliation.discrepancy)})`;
+}
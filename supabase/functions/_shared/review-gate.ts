@@ -0,0 +1,88 @@
+import type { IdentifierError } from "./identifiers.ts";
+import { describeReconciliation, type Reconciliation } from "./reconciliation.ts";
+
+// Review gate: decides whether a parse is held in `needs_review` instead of
+// being dispatched straight to OneBill. Every check is on by default;
+// deployments can change or turn them off:
+//
+//   REVIEW_MIN_CONFIDENCE=60          hold parses scoring below 60% (default 70, "off" to disable)
+//   REVIEW_ON_IDENTIFIER_ERRORS=off   stop holding parses with an identifier validation error
+//   REVIEW_ON_DATE_WARNINGS=off       stop holding parses whose meter reading dates fall outside the billing period
+//   REVIEW_ON_RECONCILIATION=off      stop holding bills whose line items fall well short of or over
+//                                     the billed total (see reconciliation.ts)
+//
+// Consensus disagreements (see consensus.ts) are reported through the same
+// reasons list so the review queue shows every cause in one place.
+
+export type ReviewGateConfig = {
+  minConfidence: number | null;
+  holdOnIdentifierErrors: boolean;
+  holdOnDateWarnings: boolean;
+  holdOnReconciliationMismatch: boolean;
+};
+
+export type ReviewReasonCode = "low_confidence" | "identifier_errors" | "date_warnings" | "reconciliation" | "consensus";
+
+export type ReviewReason = {
+  code: ReviewReasonCode;
+  message: string;
+};
+
+export const DEFAULT_MIN_CONFIDENCE = 70;
+
+const isOff = (value: string | undefined) => value?.trim().toLowerCase() === "off";
+
+// Build the config from environment-style string values; unset or unparseable values keep the default
+export function parseReviewGateConfig(values: {
+  minConfidence?: string;
+  identifierErrors?: string;
+  dateWarnings?: string;
+  reconciliation?: string;
+}): ReviewGateConfig {
+  const threshold = values.minConfidence?.trim() ? Number(values.minConfidence) : NaN;
+  return {
+    minConfidence: isOff(values.minConfidence) ? null : Number.isFinite(threshold) ? threshold : DEFAULT_MIN_CONFIDENCE,
+    holdOnIdentifierErrors: !isOff(values.identifierErrors),
+    holdOnDateWarnings: !isOff(values.dateWarnings),
+    holdOnReconciliationMismatch: !isOff(values.reconciliation),
+  };
+}
+
+export function evaluateReviewGate(
+  analysis: {
+    confidenceScore: number;
+    identifierErrors: IdentifierError[];
+    dateWarnings: string[];
+    reconciliations: Reconciliation[];
+  },
+  config: ReviewGateConfig,
+): ReviewReason[] {
+  const reasons: ReviewReason[] = [];
+
+  if (config.minConfidence !== null && analysis.confidenceScore < config.minConfidence) {
+    reasons.push({
+      code: "low_confidence",
+      message: `Confidence ${analysis.confidenceScore}% is below the review threshold of ${config.minConfidence}%`,
+    });
+  }
+
+  if (config.holdOnIdentifierErrors && analysis.identifierErrors.length > 0) {
+    const fields = [...new Set(analysis.identifierErrors.map((error) => error.field.toUpperCase()))];
+    reasons.push({ code: "identifier_errors", message: `Identifier validation failed for ${fields.join(", ")}` });
+  }
+
+  if (config.holdOnDateWarnings && analysis.dateWarnings.length > 0) {
+    reasons.push({
+      code: "date_warnings",
+      message: `${analysis.dateWarnings.length} meter reading date(s) fall outside the billing period`,
+    });
+  }
+
+  if (config.holdOnReconciliationMismatch) {
+    for (const reconciliation of analysis.reconciliations.filter((r) => r.status === "large_mismatch")) {
+      reasons.push({ code: "reconciliation", message: describeReconciliation(reconciliation) });
+    }
+  }
+
+  return reasons;
+}
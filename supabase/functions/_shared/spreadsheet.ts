@@ -0,0 +1,157 @@
+import * as XLSX from "npm:xlsx@0.18.5";
+
+// Spreadsheet bills - CSV and Excel exports from supplier portals - as text the
+// model can read. Every sheet is read cell by cell: merged ranges repeat their
+// value, date cells become YYYY-MM-DD, and the header row is located below any
+// preamble (account name, MPRN, export date) so each sheet becomes a clean
+// pipe-separated table with its context lines above it.
+
+export type SpreadsheetKind = "CSV" | "Excel";
+
+export type SheetTable = {
+  name: string;
+  // Non-empty rows above the header, e.g. ["MPRN", "10305037936"]
+  preamble: string[][];
+  // Null when no row looks like a header; every row is then data
+  header: string[] | null;
+  rows: string[][];
+};
+
+// Supplier exports put at most a short block of account details above the table
+const MAX_HEADER_SCAN_ROWS = 20;
+
+const HEADER_KEYWORDS = [
+  "date", "read", "reading", "kwh", "units", "usage", "consumption", "amount", "charge", "cost", "rate",
+  "period", "start", "end", "from", "to", "mprn", "gprn", "meter", "type", "day", "night", "peak", "total", "value",
+];
+
+const isNumberLike = (cell: string) => /^[-+(]?[€£]?\d[\d,.\s]*%?\)?$/.test(cell);
+const isDateLike = (cell: string) => /^\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}(?:[ T]\d{1,2}:\d{2}(?::\d{2})?)?$/.test(cell);
+const isLabel = (cell: string) => cell !== "" && /[a-z]/i.test(cell) && !isNumberLike(cell) && !isDateLike(cell);
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+function cellText(cell: XLSX.CellObject | undefined): string {
+  if (!cell || cell.v === undefined || cell.v === null) return "";
+  switch (cell.t) {
+    case "d": {
+      // SheetJS builds dates in local time; edge functions run in UTC
+      const date = cell.v as Date;
+      const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+      return date.getHours() || date.getMinutes() ? `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}` : day;
+    }
+    case "n":
+      // Drop binary float noise (0.30000000000000004) without rounding real precision away
+      return String(Number((cell.v as number).toPrecision(12)));
+    case "b":
+      return cell.v ? "TRUE" : "FALSE";
+    case "e":
+      return "";
+    default:
+      return String(cell.v).replace(/\s+/g, " ").trim();
+  }
+}
+
+function sheetRows(sheet: XLSX.WorkSheet): string[][] {
+  if (!sheet["!ref"]) return [];
+  const range = XLSX.utils.decode_range(sheet["!ref"]);
+
+  const grid: string[][] = [];
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: string[] = [];
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      row.push(cellText(sheet[XLSX.utils.encode_cell({ r, c })]));
+    }
+    grid.push(row);
+  }
+
+  // A merged range only stores its value in the top-left cell
+  for (const merge of sheet["!merges"] ?? []) {
+    const value = grid[merge.s.r - range.s.r]?.[merge.s.c - range.s.c] ?? "";
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        const row = grid[r - range.s.r];
+        if (row && c - range.s.c < row.length) row[c - range.s.c] = value;
+      }
+    }
+  }
+
+  return grid
+    .map((row) => {
+      let end = row.length;
+      while (end > 0 && row[end - 1] === "") end--;
+      return row.slice(0, end);
+    })
+    .filter((row) => row.length > 0);
+}
+
+// Index of the header row among the first rows, or null when the sheet has none.
+// A header is a row of at least two labels (no amounts or dates) followed by a row
+// holding data; among candidates, the widest with the most familiar column names wins.
+export function findHeaderRow(rows: string[][]): number | null {
+  let best: { index: number; score: number } | null = null;
+
+  for (let i = 0; i < Math.min(rows.length - 1, MAX_HEADER_SCAN_ROWS); i++) {
+    const cells = rows[i].filter((cell) => cell !== "");
+    const labels = cells.filter(isLabel);
+    if (labels.length < 2 || labels.length < cells.length * 0.8) continue;
+
+    // Group labels over a second header row ("Period" over "From | To") are not followed by data
+    const next = rows[i + 1].filter((cell) => cell !== "");
+    if (next.length < Math.max(2, cells.length / 2) || next.every(isLabel)) continue;
+
+    const keywords = labels.filter((label) =>
+      HEADER_KEYWORDS.some((keyword) => new RegExp(`\\b${keyword}\\b`, "i").test(label))
+    ).length;
+    const score = cells.length + 3 * keywords;
+    if (!best || score > best.score) best = { index: i, score };
+  }
+
+  return best?.index ?? null;
+}
+
+export function readSpreadsheet(bytes: Uint8Array, kind: SpreadsheetKind): SheetTable[] {
+  // CSV cells stay as text: SheetJS would read 12/03/2025 as the 3rd of December
+  const workbook = kind === "CSV"
+    ? XLSX.read(new TextDecoder().decode(bytes), { type: "string", raw: true })
+    : XLSX.read(bytes, { type: "array", cellDates: true });
+
+  const sheets = workbook.SheetNames.flatMap((name): SheetTable[] => {
+    const rows = sheetRows(workbook.Sheets[name]);
+    if (rows.length === 0) return [];
+
+    const headerIndex = findHeaderRow(rows);
+    if (headerIndex === null) return [{ name, preamble: [], header: null, rows }];
+
+    const header = rows[headerIndex];
+    return [{
+      name,
+      preamble: rows.slice(0, headerIndex),
+      header,
+      rows: rows.slice(headerIndex + 1).map((row) =>
+        row.length < header.length ? [...row, ...Array(header.length - row.length).fill("")] : row
+      ),
+    }];
+  });
+
+  if (sheets.length === 0) throw new Error(`The ${kind} file has no data`);
+  return sheets;
+}
+
+export function formatSheets(sheets: SheetTable[]): string {
+  return sheets.map((sheet) => {
+    const lines = [`Sheet: ${sheet.name}`];
+    for (const row of sheet.preamble) lines.push(row.filter((cell) => cell !== "").join(" | "));
+    if (sheet.header) {
+      lines.push(sheet.header.join(" | "));
+      lines.push(sheet.header.map(() => "---").join(" | "));
+    }
+    for (const row of sheet.rows) lines.push(row.join(" | "));
+    return lines.join("\n");
+  }).join("\n\n");
+}
+
+// The prompt and identifier cross-check text for a spreadsheet upload
+export function spreadsheetToText(bytes: Uint8Array, kind: SpreadsheetKind): string {
+  return formatSheets(readSpreadsheet(bytes, kind));
+}
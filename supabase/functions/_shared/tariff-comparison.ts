@@ -0,0 +1,274 @@
+import type { ElectricityBill, GasBill, ParsedBill } from "./bill-schema.ts";
+import { billingPeriodDays, parseBillDate, resolveBillingPeriod } from "./dates.ts";
+import { dailyStandingCharge, STANDARD_ENERGY_VAT_RATE, toEuroRate } from "./reconciliation.ts";
+
+// Tariff comparison: scale the usage on a parsed bill up to a year, price it
+// on every plan in the tariffs table that is in force, and rank the plans by
+// estimated annual cost against what the customer's current rates would cost.
+//
+// Usage is annualised linearly from the billing period, so a winter bill
+// overstates the year; the ranking holds because every plan is priced on the
+// same kWh. Carbon tax and microgen credits are the same on any plan and are
+// left out of both sides.
+
+export type TariffUtility = "electricity" | "gas";
+// "standard" is the single rate of 24-hour electricity and gas plans
+export type TariffBand = "standard" | "day" | "night" | "peak" | "ev";
+
+// A row of the tariffs table; prices exclude VAT
+export type Tariff = {
+  id: string;
+  utility: TariffUtility;
+  supplier: string;
+  plan_name: string;
+  // Cent per kWh
+  unit_rates: Partial<Record<TariffBand, number>>;
+  // Euro per year; rural (DG2) supplies pay rural_standing_charge when the plan sets one
+  standing_charge: number;
+  rural_standing_charge: number | null;
+  pso_levy: number;
+  discount_percentage: number;
+  // How long the discount lasts; null for the life of the plan
+  discount_months: number | null;
+  valid_from: string;
+  valid_to: string | null;
+  is_active?: boolean;
+};
+
+export type AnnualUsage = {
+  utility: TariffUtility;
+  // kWh per year by band; a 24-hour meter's usage is all "standard"
+  bands: Partial<Record<TariffBand, number>>;
+  total_kWh: number;
+  // Length of the bill the year was scaled from
+  period_days: number;
+  rural: boolean;
+};
+
+// Euro per year including VAT
+export type TariffEstimate = {
+  tariff_id: string;
+  supplier: string;
+  plan_name: string;
+  energy: number;
+  discount: number;
+  standing_charge: number;
+  pso_levy: number;
+  vat: number;
+  annual_cost: number;
+};
+
+export type TariffOption = TariffEstimate & {
+  // Against the current rates; positive is cheaper. Null when the bill's own rates could not be priced
+  saving: number | null;
+  same_supplier: boolean;
+};
+
+export type TariffComparison = {
+  utility: TariffUtility;
+  usage: AnnualUsage;
+  current_supplier: string | null;
+  // The bill's own rates priced the same way; null when the bill has no usable rates
+  current: TariffEstimate | null;
+  // Cheapest first
+  options: TariffOption[];
+  // Plans with no rate for a band the customer uses, i.e. that need a different meter
+  unpriced_plans: string[];
+};
+
+const DAYS_PER_YEAR = 365;
+const TIME_OF_USE_BANDS = ["day", "night", "peak", "ev"] as const;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const numbers = (values: unknown[]) => values.filter((value): value is number => typeof value === "number");
+const planLabel = (tariff: Pick<Tariff, "supplier" | "plan_name">) => `${tariff.supplier} - ${tariff.plan_name}`;
+const normaliseSupplier = (name: string) => name.trim().toLowerCase().replace(/\s+/g, " ");
+
+type UsageRow = { start_read_date?: string; end_read_date?: string };
+
+// The bill's days, or the span of its usage table when the billing period was not read
+function usageDays(billingPeriod: unknown, rows: UsageRow[] = []): number | null {
+  const period = resolveBillingPeriod(billingPeriod);
+  if (period) return period.days_count;
+
+  const starts = rows.map((row) => parseBillDate(row.start_read_date)).filter((date): date is string => !!date).sort();
+  const ends = rows.map((row) => parseBillDate(row.end_read_date)).filter((date): date is string => !!date).sort();
+  if (starts.length === 0 || ends.length === 0) return null;
+  const days = billingPeriodDays(starts[0], ends[ends.length - 1]);
+  return days > 0 ? days : null;
+}
+
+function electricityUsage(bill: ElectricityBill): AnnualUsage | null {
+  const charges = bill.charges_and_usage;
+  const rows = charges?.detailed_kWh_usage ?? [];
+  const days = usageDays(bill.supplier_details?.billing_period, rows);
+  if (!days) return null;
+
+  const billed: Partial<Record<TariffBand, number>> = {};
+  for (const band of TIME_OF_USE_BANDS) {
+    const values = numbers(rows.map((row) => row[`${band}_kWh`]));
+    if (values.length > 0) billed[band] = sum(values);
+  }
+  // 24-hour meters bill everything as day units
+  const rates = charges?.unit_rates;
+  const onlyDay = Object.keys(billed).length === 1 && billed.day !== undefined;
+  if (onlyDay && (typeof rates?.["24_hour_rate"] === "number" || typeof rates?.day !== "number")) {
+    billed.standard = billed.day;
+    delete billed.day;
+  }
+
+  const bands = Object.fromEntries(
+    Object.entries(billed).map(([band, kWh]) => [band, kWh * DAYS_PER_YEAR / days]),
+  ) as Partial<Record<TariffBand, number>>;
+  const total = sum(Object.values(bands));
+  if (total <= 0) return null;
+
+  const dg = bill.electricity_details?.meter_details?.dg?.trim().toUpperCase();
+  return { utility: "electricity", bands, total_kWh: total, period_days: days, rural: dg === "DG2" };
+}
+
+function gasUsage(bill: GasBill): AnnualUsage | null {
+  const kWh = bill.charges_and_usage?.kWh_consumed;
+  const days = usageDays(bill.supplier_details?.billing_period);
+  if (typeof kWh !== "number" || kWh <= 0 || !days) return null;
+  const annual = kWh * DAYS_PER_YEAR / days;
+  return { utility: "gas", bands: { standard: annual }, total_kWh: annual, period_days: days, rural: false };
+}
+
+export function annualiseUsage(parsedData: ParsedBill, utility: TariffUtility): AnnualUsage | null {
+  if (utility === "gas") {
+    const gas = parsedData.bills.gas?.[0];
+    return gas ? gasUsage(gas) : null;
+  }
+  const electricity = parsedData.bills.electricity?.[0];
+  return electricity ? electricityUsage(electricity) : null;
+}
+
+// Null when the plan has no rate for a band the customer uses
+export function estimateAnnualCost(tariff: Tariff, usage: AnnualUsage): TariffEstimate | null {
+  let energy = 0;
+  for (const [band, kWh] of Object.entries(usage.bands) as [TariffBand, number][]) {
+    // A single-rate plan prices every band; a time-of-use plan cannot price 24-hour usage
+    const rate = tariff.unit_rates[band] ?? tariff.unit_rates.standard;
+    if (typeof rate !== "number") return null;
+    energy += kWh * rate / 100;
+  }
+
+  const discountedMonths = tariff.discount_months === null ? 12 : Math.min(tariff.discount_months, 12);
+  const discount = energy * tariff.discount_percentage / 100 * discountedMonths / 12;
+  const standing = usage.rural && tariff.rural_standing_charge !== null ? tariff.rural_standing_charge : tariff.standing_charge;
+  const pso = usage.utility === "electricity" ? tariff.pso_levy : 0;
+  const subtotal = energy - discount + standing + pso;
+  const vat = subtotal * STANDARD_ENERGY_VAT_RATE / 100;
+
+  return {
+    tariff_id: tariff.id,
+    supplier: tariff.supplier,
+    plan_name: tariff.plan_name,
+    energy: round2(energy),
+    discount: round2(discount),
+    standing_charge: round2(standing),
+    pso_levy: round2(pso),
+    vat: round2(vat),
+    annual_cost: round2(subtotal + vat),
+  };
+}
+
+// The customer's current rates as a catalogue entry, or null when the bill has none
+function currentTariff(parsedData: ParsedBill, usage: AnnualUsage): Tariff | null {
+  const base = { id: "current", plan_name: "Current plan", rural_standing_charge: null, discount_months: null, valid_from: "", valid_to: null };
+
+  if (usage.utility === "gas") {
+    const bill = parsedData.bills.gas[0];
+    const charges = bill.charges_and_usage;
+    const rate = charges?.unit_rates?.rate;
+    if (typeof rate !== "number") return null;
+    return {
+      ...base,
+      utility: "gas",
+      supplier: bill.supplier_details?.name ?? "Current supplier",
+      unit_rates: { standard: toEuroRate(rate, charges?.unit_rates?.rate_currency) * 100 },
+      standing_charge: typeof charges?.standing_charge === "number"
+        ? dailyStandingCharge(charges.standing_charge, charges.standing_charge_currency, charges.standing_charge_period) * DAYS_PER_YEAR
+        : 0,
+      pso_levy: 0,
+      discount_percentage: 0,
+    };
+  }
+
+  const bill = parsedData.bills.electricity[0];
+  const charges = bill.charges_and_usage;
+  const rates = charges?.unit_rates ?? {};
+  const unitRates: Partial<Record<TariffBand, number>> = {};
+  const standard = rates["24_hour_rate"] ?? (usage.bands.standard !== undefined ? rates.day : undefined);
+  if (typeof standard === "number") unitRates.standard = toEuroRate(standard, rates.rate_currency) * 100;
+  for (const band of TIME_OF_USE_BANDS) {
+    const rate = rates[band];
+    if (typeof rate === "number") unitRates[band] = toEuroRate(rate, rates.rate_currency) * 100;
+  }
+  if (Object.keys(unitRates).length === 0) return null;
+
+  return {
+    ...base,
+    utility: "electricity",
+    supplier: bill.supplier_details?.name ?? "Current supplier",
+    unit_rates: unitRates,
+    standing_charge: typeof charges?.standing_charge === "number"
+      ? dailyStandingCharge(charges.standing_charge, charges.standing_charge_currency, charges.standing_charge_period) * DAYS_PER_YEAR
+      : 0,
+    // The bill's PSO levy covers its own period
+    pso_levy: typeof charges?.pso_levy === "number" ? charges.pso_levy * DAYS_PER_YEAR / usage.period_days : 0,
+    discount_percentage: rates.rate_discount_percentage ?? 0,
+  };
+}
+
+// The latest version of each plan in force on `on` (YYYY-MM-DD)
+export function tariffsInForce(tariffs: Tariff[], utility: TariffUtility, on: string): Tariff[] {
+  const latest = new Map<string, Tariff>();
+  for (const tariff of tariffs) {
+    if (tariff.utility !== utility || tariff.is_active === false) continue;
+    if (tariff.valid_from > on || (tariff.valid_to !== null && tariff.valid_to < on)) continue;
+    const key = `${normaliseSupplier(tariff.supplier)}|${tariff.plan_name}`;
+    const existing = latest.get(key);
+    if (!existing || existing.valid_from < tariff.valid_from) latest.set(key, tariff);
+  }
+  return [...latest.values()];
+}
+
+export function compareTariffs(
+  parsedData: ParsedBill,
+  tariffs: Tariff[],
+  on: string = new Date().toISOString().slice(0, 10),
+): TariffComparison[] {
+  const comparisons: TariffComparison[] = [];
+
+  for (const utility of ["electricity", "gas"] as const) {
+    const usage = annualiseUsage(parsedData, utility);
+    if (!usage) continue;
+
+    const current = currentTariff(parsedData, usage);
+    const currentEstimate = current ? estimateAnnualCost(current, usage) : null;
+    const currentSupplier = (utility === "gas" ? parsedData.bills.gas[0] : parsedData.bills.electricity[0]).supplier_details?.name ?? null;
+
+    const options: TariffOption[] = [];
+    const unpriced: string[] = [];
+    for (const tariff of tariffsInForce(tariffs, utility, on)) {
+      const estimate = estimateAnnualCost(tariff, usage);
+      if (!estimate) {
+        unpriced.push(planLabel(tariff));
+        continue;
+      }
+      options.push({
+        ...estimate,
+        saving: currentEstimate ? round2(currentEstimate.annual_cost - estimate.annual_cost) : null,
+        same_supplier: currentSupplier !== null && normaliseSupplier(currentSupplier) === normaliseSupplier(tariff.supplier),
+      });
+    }
+    options.sort((a, b) => a.annual_cost - b.annual_cost);
+
+    comparisons.push({ utility, usage, current_supplier: currentSupplier, current: currentEstimate, options, unpriced_plans: unpriced });
+  }
+
+  return comparisons;
+}
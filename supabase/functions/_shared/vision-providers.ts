@@ -0,0 +1,222 @@
+import { PARSE_BILL_TOOL, PARSE_BILL_TOOL_CHOICE, PARSE_BILL_TOOL_NAME } from "./bill-schema.ts";
+
+// Vision-model providers for the bill parser.
+//
+// Every provider takes the same multimodal prompt and returns the raw
+// `parse_irish_bill` tool-call arguments; coercion and validation happen in
+// the caller. The provider is chosen with the VISION_PROVIDER env var and can
+// be overridden per request:
+//
+//   lovable  Lovable AI gateway (default), needs LOVABLE_API_KEY; LOVABLE_AI_GATEWAY_URL
+//            overrides the endpoint (used by the test suite's stand-in gateway)
+//   openai   any OpenAI-compatible /chat/completions endpoint, configured with
+//            VISION_OPENAI_BASE_URL, VISION_OPENAI_API_KEY and VISION_OPENAI_MODEL
+//   mock     recorded responses looked up by the SHA-256 of the bill file,
+//            read from VISION_MOCK_FIXTURES_DIR (default: ./fixtures/vision)
+
+export type VisionProviderName = "lovable" | "openai" | "mock";
+
+export const VISION_PROVIDER_NAMES: readonly VisionProviderName[] = ["lovable", "openai", "mock"];
+
+export type VisionContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "document"; document_url: { url: string } };
+
+export type VisionRequest = {
+  content: VisionContentPart[];
+  // Original bill file; the mock provider hashes it to find the recorded response
+  sourceUrl: string;
+  // Sampling temperature; 0 unless a deliberately different sample is wanted (consensus)
+  temperature?: number;
+};
+
+export type VisionResult = {
+  provider: VisionProviderName;
+  model: string;
+  toolArguments: string;
+};
+
+export type VisionProviderErrorCode =
+  | "not_configured"
+  | "bad_request"
+  | "unsupported_input"
+  | "payment_required"
+  | "rate_limited"
+  | "upstream_error"
+  | "no_tool_call"
+  | "fixture_not_found";
+
+export class VisionProviderError extends Error {
+  constructor(
+    public readonly code: VisionProviderErrorCode,
+    message: string,
+    // HTTP status reported by the upstream service (or the closest equivalent)
+    public readonly status = 500,
+    public readonly details = "",
+  ) {
+    super(message);
+    this.name = "VisionProviderError";
+  }
+}
+
+export interface VisionProvider {
+  name: VisionProviderName;
+  model: string;
+  // Whether PDFs can be sent as `document` parts; otherwise they must be sent as page images
+  supportsDocuments: boolean;
+  parseBill(request: VisionRequest): Promise<VisionResult>;
+}
+
+// ---------- OpenAI-style chat completions ----------
+
+type ChatCompletionResponse = {
+  choices?: Array<{
+    message?: { tool_calls?: Array<{ function?: { name?: string; arguments?: unknown } }> };
+  }>;
+};
+
+export function buildChatCompletionBody(model: string, content: VisionContentPart[], temperature = 0) {
+  return {
+    model,
+    messages: [{ role: "user", content }],
+    temperature,
+    tools: [PARSE_BILL_TOOL],
+    tool_choice: PARSE_BILL_TOOL_CHOICE,
+  };
+}
+
+export function extractToolArguments(response: ChatCompletionResponse): string {
+  const toolCall = response.choices?.[0]?.message?.tool_calls?.find((call) => call.function?.name === PARSE_BILL_TOOL_NAME)
+    ?? response.choices?.[0]?.message?.tool_calls?.[0];
+  const args = toolCall?.function?.arguments;
+  if (args === undefined || args === null) {
+    throw new VisionProviderError("no_tool_call", "No structured data returned from AI");
+  }
+  return typeof args === "string" ? args : JSON.stringify(args);
+}
+
+export function mapUpstreamError(status: number, body: string): VisionProviderError {
+  const details = body.slice(0, 500);
+  switch (status) {
+    case 400:
+      return new VisionProviderError("bad_request", `AI request rejected (400)`, status, details);
+    case 402:
+      return new VisionProviderError("payment_required", "AI credits exhausted (402)", status, details);
+    case 429:
+      return new VisionProviderError("rate_limited", "AI rate limit exceeded (429)", status, details);
+    default:
+      return new VisionProviderError("upstream_error", `AI parsing failed (${status})`, status, details);
+  }
+}
+
+class ChatCompletionsProvider implements VisionProvider {
+  constructor(
+    public readonly name: VisionProviderName,
+    public readonly model: string,
+    private endpoint: string,
+    private apiKey: string,
+    public readonly supportsDocuments: boolean,
+  ) {}
+
+  async parseBill(request: VisionRequest): Promise<VisionResult> {
+    if (!this.supportsDocuments && request.content.some((part) => part.type === "document")) {
+      // Reported as a 400 so the caller falls back to rendered page images
+      throw new VisionProviderError("unsupported_input", `${this.name} provider does not accept PDF documents`, 400);
+    }
+
+    const resp = await fetch(this.endpoint, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(buildChatCompletionBody(this.model, request.content, request.temperature)),
+    });
+
+    if (!resp.ok) throw mapUpstreamError(resp.status, await resp.text());
+
+    const data: ChatCompletionResponse = await resp.json();
+    return { provider: this.name, model: this.model, toolArguments: extractToolArguments(data) };
+  }
+}
+
+// ---------- Fixture-backed mock ----------
+
+const DEFAULT_FIXTURES_DIR = new URL("./fixtures/vision/", import.meta.url);
+
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Replays `<sha256 of bill file>.json`, a recorded chat-completions response
+class MockVisionProvider implements VisionProvider {
+  name = "mock" as const;
+  model = "fixture";
+  // Replays by file hash, so any input is accepted
+  supportsDocuments = true;
+
+  constructor(private fixturesDir: URL) {}
+
+  async parseBill(request: VisionRequest): Promise<VisionResult> {
+    const file = await fetch(request.sourceUrl);
+    if (!file.ok) throw new VisionProviderError("bad_request", `Failed to fetch bill file for mock provider: ${file.status}`, 400);
+    const hash = await sha256Hex(await file.arrayBuffer());
+
+    let recorded: ChatCompletionResponse;
+    try {
+      recorded = JSON.parse(await Deno.readTextFile(new URL(`${hash}.json`, this.fixturesDir)));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) {
+        throw new VisionProviderError("fixture_not_found", `No recorded response for file ${hash}`, 404);
+      }
+      throw error;
+    }
+
+    console.log(`🧪 Mock vision provider replaying fixture ${hash}`);
+    return { provider: this.name, model: this.model, toolArguments: extractToolArguments(recorded) };
+  }
+}
+
+// ---------- Selection ----------
+
+export function isVisionProviderName(value: unknown): value is VisionProviderName {
+  return typeof value === "string" && (VISION_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+const withTrailingSlash = (path: string) => (path.endsWith("/") ? path : `${path}/`);
+
+// Build the provider named by the request, or by VISION_PROVIDER when none is given
+export function createVisionProvider(options: { provider?: VisionProviderName; model?: string } = {}): VisionProvider {
+  const name = options.provider ?? (Deno.env.get("VISION_PROVIDER") || "lovable");
+
+  switch (name) {
+    case "lovable": {
+      const apiKey = Deno.env.get("LOVABLE_API_KEY");
+      if (!apiKey) throw new VisionProviderError("not_configured", "LOVABLE_API_KEY not configured");
+      return new ChatCompletionsProvider(
+        "lovable",
+        options.model || Deno.env.get("LOVABLE_VISION_MODEL") || "google/gemini-2.5-pro",
+        Deno.env.get("LOVABLE_AI_GATEWAY_URL") || "https://ai.gateway.lovable.dev/v1/chat/completions",
+        apiKey,
+        true,
+      );
+    }
+    case "openai": {
+      const baseUrl = Deno.env.get("VISION_OPENAI_BASE_URL");
+      const apiKey = Deno.env.get("VISION_OPENAI_API_KEY");
+      const model = options.model || Deno.env.get("VISION_OPENAI_MODEL");
+      if (!baseUrl || !apiKey || !model) {
+        throw new VisionProviderError("not_configured", "VISION_OPENAI_BASE_URL, VISION_OPENAI_API_KEY and VISION_OPENAI_MODEL must be configured");
+      }
+      return new ChatCompletionsProvider("openai", model, new URL("chat/completions", withTrailingSlash(baseUrl)).href, apiKey, false);
+    }
+    case "mock": {
+      const dir = Deno.env.get("VISION_MOCK_FIXTURES_DIR");
+      return new MockVisionProvider(dir ? new URL(withTrailingSlash(dir), `file://${withTrailingSlash(Deno.cwd())}`) : DEFAULT_FIXTURES_DIR);
+    }
+    default:
+      throw new VisionProviderError("not_configured", `Unknown vision provider '${name}'`);
+  }
+}
@@ -0,0 +1,186 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { updateParseJob } from "../_shared/parse-jobs.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 5;
+const MAX_BATCH_SIZE = 500;
+// A job still `processing` after this long outlived its parser invocation (edge functions are killed well before)
+const STALE_PROCESSING_MS = 10 * 60_000;
+// No new round is claimed after this long, so a run ends inside the edge function time limit
+// and before the next scheduled sweep starts
+const PROCESS_TIME_BUDGET_MS = 50_000;
+
+type BatchItem = {
+  file_path: string;
+  phone: string;
+  source_file_name?: string;
+};
+
+type WorkerBody =
+  | { action: "enqueue"; name?: string; items: BatchItem[] }
+  | { action: "process"; batch_id?: string; concurrency?: number }
+  | { action: "retry"; batch_id: string; job_ids: string[] };
+
+type ClaimedJob = {
+  id: string;
+  phone: string;
+  file_path: string | null;
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Run `worker` over `items` with at most `limit` in flight at once
+async function runWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+  await Promise.all(runners);
+  return results;
+}
+
+type JobResult = { job_id: string; ok: boolean; status: number };
+
+// Hand one claimed job to onebill-vision-parse, which records its own outcome on the job
+async function parseJob(supabase: SupabaseClient, job: ClaimedJob): Promise<JobResult> {
+  try {
+    const resp = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/onebill-vision-parse`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ job_id: job.id, phone: job.phone, file_path: job.file_path }),
+    });
+    const data = await resp.json().catch(() => ({}));
+    if (!resp.ok && !data.job_id) {
+      // Rejected before the parser picked the job up (e.g. missing configuration)
+      await updateParseJob(supabase, job.id, { status: "failed", error: data.error || `Parser returned ${resp.status}` });
+    }
+    return { job_id: job.id, ok: resp.ok && data.ok === true, status: resp.status };
+  } catch (error) {
+    // The parser normally records its own failures; this covers it never being reached
+    const message = error instanceof Error ? error.message : String(error);
+    await updateParseJob(supabase, job.id, { status: "failed", error: `Worker failed to invoke parser: ${message}` });
+    return { job_id: job.id, ok: false, status: 500 };
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const body = (await req.json()) as WorkerBody;
+
+    if (body.action === "enqueue") {
+      const items = (body.items || []).filter((item) => item?.file_path && item?.phone);
+      if (items.length === 0) {
+        return jsonResponse({ error: "At least one item with file_path and phone is required" }, 400);
+      }
+      if (items.length > MAX_BATCH_SIZE) {
+        return jsonResponse({ error: `Batches are limited to ${MAX_BATCH_SIZE} files` }, 400);
+      }
+
+      const { data: batch, error: batchError } = await supabase
+        .from("parse_batches")
+        .insert({ name: body.name || `Batch ${new Date().toISOString()}`, total_files: items.length })
+        .select("id")
+        .single();
+      if (batchError) throw new Error(`Failed to create batch: ${batchError.message}`);
+
+      const { data: jobs, error: jobsError } = await supabase
+        .from("parse_jobs")
+        .insert(items.map((item) => ({
+          batch_id: batch.id,
+          status: "queued",
+          phone: item.phone,
+          file_path: item.file_path,
+          source_file_name: item.source_file_name || item.file_path,
+        })))
+        .select("id, file_path, source_file_name");
+      if (jobsError) throw new Error(`Failed to enqueue jobs: ${jobsError.message}`);
+
+      console.log(`Enqueued batch ${batch.id} with ${jobs.length} job(s)`);
+      return jsonResponse({ batch_id: batch.id, jobs });
+    }
+
+    if (body.action === "retry") {
+      if (!body.batch_id || !Array.isArray(body.job_ids) || body.job_ids.length === 0) {
+        return jsonResponse({ error: "batch_id and job_ids are required" }, 400);
+      }
+
+      // Only failed or stuck jobs can be re-queued; a job whose parser may still be running is left alone
+      const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+      const { data, error } = await supabase
+        .from("parse_jobs")
+        .update({ status: "queued", error: null })
+        .eq("batch_id", body.batch_id)
+        .in("id", body.job_ids)
+        .or(`status.in.(failed,dispatch_failed),and(status.eq.processing,updated_at.lt.${staleBefore})`)
+        .select("id");
+      if (error) throw new Error(`Failed to re-queue jobs: ${error.message}`);
+
+      return jsonResponse({ requeued: data.length });
+    }
+
+    if (body.action === "process") {
+      // Without a batch_id every queued batch job is processed (the scheduled sweep)
+      const batchId = body.batch_id || null;
+      const concurrency = Math.max(1, Math.min(body.concurrency || DEFAULT_CONCURRENCY, MAX_CONCURRENCY));
+      const deadline = Date.now() + PROCESS_TIME_BUDGET_MS;
+      const results: JobResult[] = [];
+
+      // Keep claiming rounds until the queue is empty or the time budget is spent;
+      // whatever is left is picked up by the next sweep (see the batch worker cron migration)
+      while (Date.now() < deadline) {
+        const { data: claimed, error: claimError } = await supabase.rpc("claim_parse_jobs", {
+          p_batch_id: batchId,
+          p_limit: concurrency,
+        });
+        if (claimError) throw new Error(`Failed to claim jobs: ${claimError.message}`);
+
+        const jobs = (claimed || []) as ClaimedJob[];
+        if (jobs.length === 0) break;
+        console.log(`Batch ${batchId ?? "(all)"}: processing ${jobs.length} job(s) with concurrency ${concurrency}`);
+        results.push(...await runWithConcurrency(jobs, concurrency, (job) => parseJob(supabase, job)));
+      }
+
+      let remainingQuery = supabase
+        .from("parse_jobs")
+        .select("id", { count: "exact", head: true })
+        .not("batch_id", "is", null)
+        .eq("status", "queued");
+      if (batchId) remainingQuery = remainingQuery.eq("batch_id", batchId);
+      const { count, error: countError } = await remainingQuery;
+      if (countError) throw new Error(`Failed to count remaining jobs: ${countError.message}`);
+
+      return jsonResponse({ processed: results.length, results, remaining: count ?? 0 });
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error) {
+    console.error("onebill-batch-worker error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,188 @@
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  type Contract,
+  type ContractEndingEvent,
+  parseReminderWindows,
+  planReminders,
+} from "../_shared/contract-reminders.ts";
+import { daysBetween } from "../_shared/dates.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Run daily by pg_cron (see the contracts migration). Callers must send
+// `Authorization: Bearer <CONTRACT_REMINDERS_SECRET>` (or the service-role key).
+//
+//   CONTRACT_REMINDERS_SECRET  bearer token the cron job sends
+//   CONTRACT_REMINDER_WINDOWS  days before the end date to remind at (default "60,30,7")
+//   CRM_WEBHOOK_URL            receives a `contract.ending` event per reminder; when unset
+//                              reminders stay pending and are sent once it is configured
+//   CRM_WEBHOOK_SECRET         signs each body: X-Webhook-Signature: sha256=<hex HMAC>
+export type RemindersOptions = {
+  // Run as if on this date (YYYY-MM-DD); tests only, requests always run as of today
+  today?: string;
+};
+
+type ReminderRow = {
+  id: string;
+  contract_id: string;
+  window_days: number;
+  payload: ContractEndingEvent["data"];
+  created_at: string;
+  delivery_attempts: number;
+};
+
+// Failed deliveries are retried on each run until this many attempts
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+// A claim older than this belongs to a run that died mid-delivery (edge functions time out well before)
+const STALE_CLAIM_MS = 10 * 60_000;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return difference === 0;
+}
+
+function isAuthorized(req: Request): boolean {
+  const token = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? "";
+  const accepted = [Deno.env.get("CONTRACT_REMINDERS_SECRET"), Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")];
+  return token !== "" && accepted.some((secret) => !!secret && constantTimeEqual(token, secret));
+}
+
+async function signBody(body: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(body)));
+  return Array.from(signature, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// POST one event to the CRM; returns the error to record, or null once delivered
+async function deliverEvent(url: string, secret: string | undefined, event: ContractEndingEvent): Promise<string | null> {
+  const body = JSON.stringify(event);
+  const headers: Record<string, string> = { "Content-Type": "application/json", "X-Webhook-Event": event.type };
+  if (secret) headers["X-Webhook-Signature"] = `sha256=${await signBody(body, secret)}`;
+
+  try {
+    const resp = await fetch(url, { method: "POST", headers, body });
+    if (resp.ok) return null;
+    return `HTTP ${resp.status}: ${(await resp.text()).slice(0, 1024)}`;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+// Claim undelivered reminders by moving them to `sending` in one UPDATE, so overlapping runs never send an event twice
+async function claimUndelivered(supabase: SupabaseClient): Promise<ReminderRow[]> {
+  const now = Date.now();
+  const { error: resetError } = await supabase
+    .from("contract_reminders")
+    .update({ status: "failed", last_error: "delivery interrupted" })
+    .eq("status", "sending")
+    .lt("claimed_at", new Date(now - STALE_CLAIM_MS).toISOString());
+  if (resetError) console.error("Failed to release stale reminder claims:", resetError.message);
+
+  const { data, error } = await supabase
+    .from("contract_reminders")
+    .update({ status: "sending", claimed_at: new Date(now).toISOString() })
+    .in("status", ["pending", "failed"])
+    .lt("delivery_attempts", MAX_DELIVERY_ATTEMPTS)
+    .select("id, contract_id, window_days, payload, created_at, delivery_attempts");
+  if (error) throw new Error(`Failed to claim undelivered reminders: ${error.message}`);
+
+  return ((data ?? []) as ReminderRow[]).sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+async function deliverPending(supabase: SupabaseClient, webhookUrl: string, secret: string | undefined, asOf: string) {
+  let delivered = 0;
+  let failed = 0;
+  for (const reminder of await claimUndelivered(supabase)) {
+    const event: ContractEndingEvent = {
+      id: reminder.id,
+      type: "contract.ending",
+      created_at: reminder.created_at,
+      // Days remaining as of delivery, so a late retry does not report a stale count
+      data: { ...reminder.payload, days_remaining: daysBetween(asOf, reminder.payload.contract_end_date) },
+    };
+    const deliveryError = await deliverEvent(webhookUrl, secret, event);
+    if (deliveryError) {
+      failed++;
+      console.warn(`Contract reminder ${reminder.id} not delivered: ${deliveryError}`);
+    } else {
+      delivered++;
+    }
+
+    const { error: updateError } = await supabase
+      .from("contract_reminders")
+      .update({
+        status: deliveryError ? "failed" : "delivered",
+        delivery_attempts: reminder.delivery_attempts + 1,
+        last_error: deliveryError,
+        delivered_at: deliveryError ? null : new Date().toISOString(),
+      })
+      .eq("id", reminder.id);
+    if (updateError) console.error(`Failed to update contract reminder ${reminder.id}:`, updateError.message);
+  }
+
+  return { delivered, failed };
+}
+
+// Served by index.ts; imported directly by the tests in supabase/functions/tests.
+export async function handleRemindersRequest(req: Request, options: RemindersOptions = {}): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (!isAuthorized(req)) {
+    return jsonResponse({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const asOf = options.today ?? new Date().toISOString().slice(0, 10);
+    const windows = parseReminderWindows(Deno.env.get("CONTRACT_REMINDER_WINDOWS"));
+    const horizon = new Date(Date.parse(`${asOf}T00:00:00Z`) + Math.max(...windows) * 86_400_000).toISOString().slice(0, 10);
+
+    const { data: contracts, error } = await supabase
+      .from("contracts")
+      .select("id, service, premises_id, phone, supplier, account_number, contract_end_date, source_job_id")
+      .gte("contract_end_date", asOf)
+      .lte("contract_end_date", horizon);
+    if (error) throw new Error(`Failed to load contracts: ${error.message}`);
+
+    // A reminder already raised for this window and end date is left alone
+    const planned = planReminders((contracts ?? []) as Contract[], windows, asOf);
+    let created = 0;
+    if (planned.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from("contract_reminders")
+        .upsert(
+          planned.map(({ days_remaining: _, ...reminder }) => reminder),
+          { onConflict: "contract_id,contract_end_date,window_days", ignoreDuplicates: true },
+        )
+        .select("id");
+      if (insertError) throw new Error(`Failed to record reminders: ${insertError.message}`);
+      created = inserted?.length ?? 0;
+    }
+
+    const webhookUrl = Deno.env.get("CRM_WEBHOOK_URL");
+    const delivery = webhookUrl
+      ? await deliverPending(supabase, webhookUrl, Deno.env.get("CRM_WEBHOOK_SECRET"), asOf)
+      : { delivered: 0, failed: 0 };
+    if (!webhookUrl) console.warn("CRM_WEBHOOK_URL not configured - reminders left pending");
+
+    console.log(`Contract reminders as of ${asOf}: ${planned.length} due, ${created} new, ${delivery.delivered} delivered, ${delivery.failed} failed`);
+    return jsonResponse({ ok: true, as_of: asOf, windows, due: planned.length, created, ...delivery });
+  } catch (error) {
+    console.error("onebill-contract-reminders error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+}
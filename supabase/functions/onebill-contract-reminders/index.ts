@@ -0,0 +1,4 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { handleRemindersRequest } from "./handler.ts";
+
+serve((req) => handleRemindersRequest(req));
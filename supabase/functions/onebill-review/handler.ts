@@ -0,0 +1,164 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { type ParseJobStatus, updateParseJob } from "../_shared/parse-jobs.ts";
+import { BillOutputError, coerceBillOutput } from "../_shared/bill-coercion.ts";
+import { checkBillIdentifiers, servicesWithCriticalErrors } from "../_shared/identifiers.ts";
+import { billsPublicUrl, dispatchBill } from "../_shared/bill-dispatch.ts";
+import type { ParsedBill } from "../_shared/bill-schema.ts";
+import { contractsFromBill } from "../_shared/contract-reminders.ts";
+import { saveContracts } from "../_shared/contracts.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Operator decisions on parses held in `needs_review`.
+// "approve" dispatches the held services, optionally with corrected parse data;
+// "reject" closes the job without sending anything to OneBill.
+type ReviewBody =
+  | { action: "approve"; job_id: string; parsed_data?: unknown; services?: string[]; note?: string }
+  | { action: "reject"; job_id: string; note?: string };
+
+type HeldJob = {
+  id: string;
+  phone: string;
+  file_path: string | null;
+  image_url: string | null;
+  parsed_data: ParsedBill;
+  classification_details: { review_services?: string[] } | null;
+  validation_warnings: string[] | null;
+  api_calls: unknown[] | null;
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Served by index.ts; imported directly by the tests in supabase/functions/tests.
+export async function handleReviewRequest(req: Request): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  // Where a claimed job goes if anything below throws, so it is never left in `processing`
+  let claimedJobId: string | null = null;
+  let releaseStatus: ParseJobStatus = "needs_review";
+
+  try {
+    const body = (await req.json()) as ReviewBody;
+
+    if (!body.job_id || (body.action !== "approve" && body.action !== "reject")) {
+      return jsonResponse({ error: "Expected { action: 'approve' | 'reject', job_id }" }, 400);
+    }
+
+    const ONEBILL_API_KEY = Deno.env.get("ONEBILL_API_KEY");
+    if (body.action === "approve" && !ONEBILL_API_KEY) {
+      return jsonResponse({ error: "ONEBILL_API_KEY not configured" }, 500);
+    }
+
+    // Claim the job by moving it out of needs_review, so two operators can never dispatch it twice
+    const { data: claimed, error: claimError } = await supabase
+      .from("parse_jobs")
+      .update({ status: "processing" })
+      .eq("id", body.job_id)
+      .eq("status", "needs_review")
+      .select("id, phone, file_path, image_url, parsed_data, classification_details, validation_warnings, api_calls")
+      .maybeSingle();
+    if (claimError) throw new Error(`Failed to claim job: ${claimError.message}`);
+    if (!claimed) {
+      return jsonResponse({ error: "Job is not awaiting review" }, 409);
+    }
+    const job = claimed as HeldJob;
+    claimedJobId = job.id;
+    const reviewedAt = new Date().toISOString();
+    const note = body.note?.trim() || null;
+
+    if (body.action === "reject") {
+      await updateParseJob(supabase, job.id, {
+        status: "rejected",
+        reviewed_at: reviewedAt,
+        review_decision: "rejected",
+        review_note: note,
+        completed_at: reviewedAt,
+      });
+      console.log(`Review: job ${job.id} rejected`);
+      return jsonResponse({ ok: true, job_id: job.id, status: "rejected" });
+    }
+
+    // Corrected data goes through the same schema coercion and identifier checks as a fresh parse
+    let parsedData = job.parsed_data;
+    const warnings: string[] = [];
+    if (body.parsed_data !== undefined) {
+      try {
+        const { data, coercions } = coerceBillOutput(body.parsed_data);
+        parsedData = data;
+        warnings.push(...coercions.map((c) => `Review correction ${c.path}: ${c.reason}`));
+      } catch (error) {
+        if (!(error instanceof BillOutputError)) throw error;
+        await updateParseJob(supabase, job.id, { status: "needs_review" });
+        return jsonResponse({ error: "Corrected data is malformed", code: error.code, details: error.message }, 422);
+      }
+    }
+
+    const services = body.services ?? job.classification_details?.review_services ?? [];
+    const identifierErrors = checkBillIdentifiers(parsedData);
+    const invalid = servicesWithCriticalErrors(identifierErrors).filter((service) => services.includes(service));
+    if (invalid.length > 0) {
+      await updateParseJob(supabase, job.id, { status: "needs_review" });
+      return jsonResponse({
+        error: `Correct the malformed identifiers before approving (${invalid.join(", ")})`,
+        identifier_errors: identifierErrors,
+      }, 422);
+    }
+
+    const fileUrl = job.file_path ? billsPublicUrl(job.file_path) : job.image_url;
+    if (!fileUrl) throw new Error("Job has no file to dispatch");
+
+    // Once anything may have reached OneBill, a failure must not put the job back up for approval
+    releaseStatus = "dispatch_failed";
+    const dispatchStartedAt = Date.now();
+    const { apiResults, warnings: dispatchWarnings } = await dispatchBill(supabase, {
+      services,
+      parsedData,
+      phone: job.phone,
+      filePath: job.file_path,
+      fileUrl,
+      apiKey: ONEBILL_API_KEY!,
+    });
+    const allSuccessful = apiResults.every((result) => result.ok);
+    await saveContracts(supabase, contractsFromBill(parsedData, [...new Set([...services, "broadband"])], job.phone, job.id));
+
+    await updateParseJob(supabase, job.id, {
+      status: allSuccessful ? "completed" : "dispatch_failed",
+      parsed_data: parsedData,
+      validation_warnings: [...(job.validation_warnings ?? []), ...warnings, ...dispatchWarnings],
+      api_calls: [...(job.api_calls ?? []), ...apiResults],
+      dispatch_duration_ms: Date.now() - dispatchStartedAt,
+      reviewed_at: reviewedAt,
+      review_decision: "approved",
+      review_note: note,
+      completed_at: new Date().toISOString(),
+    });
+    console.log(`Review: job ${job.id} approved, dispatched ${services.join(", ") || "nothing"} (${allSuccessful ? "ok" : "failed"})`);
+
+    return jsonResponse({
+      ok: allSuccessful,
+      job_id: job.id,
+      status: allSuccessful ? "completed" : "dispatch_failed",
+      api_calls: apiResults,
+      validation_warnings: dispatchWarnings,
+    });
+  } catch (error) {
+    console.error("onebill-review error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await updateParseJob(supabase, claimedJobId, {
+      status: releaseStatus,
+      ...(releaseStatus === "dispatch_failed" ? { error: message.slice(0, 4096), completed_at: new Date().toISOString() } : {}),
+    });
+    return jsonResponse({ error: message }, 500);
+  }
+}
@@ -0,0 +1,4 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { handleReviewRequest } from "./handler.ts";
+
+serve(handleReviewRequest);
@@ -0,0 +1,707 @@
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { createParseJob, failParseJob, updateParseJob } from "../_shared/parse-jobs.ts";
+import { BillOutputError, coerceBillOutput } from "../_shared/bill-coercion.ts";
+import { createOcrProviderFromEnv, type DocumentText, extractDocumentText } from "../_shared/document-text.ts";
+import { convertedPageNumber, convertedPagePath, convertedPagesPrefix } from "../_shared/converted-pages.ts";
+import { fetchBillFile } from "../_shared/onebill-dispatch.ts";
+import { billsPublicUrl, dispatchBill } from "../_shared/bill-dispatch.ts";
+import {
+  createVisionProvider,
+  isVisionProviderName,
+  VISION_PROVIDER_NAMES,
+  type VisionContentPart,
+  type VisionProvider,
+  type VisionProviderName,
+  VisionProviderError,
+  type VisionRequest,
+  type VisionResult,
+} from "../_shared/vision-providers.ts";
+import { analyzeParsedBill, PARSE_PROMPT, spreadsheetContentPart } from "../_shared/bill-pipeline.ts";
+import { compareCriticalIdentifiers, type ConsensusResult, type ConsensusSample } from "../_shared/consensus.ts";
+import { evaluateReviewGate, parseReviewGateConfig, type ReviewGateConfig, type ReviewReason } from "../_shared/review-gate.ts";
+import { extractFieldSources } from "../_shared/field-provenance.ts";
+import { spreadsheetToText } from "../_shared/spreadsheet.ts";
+import { type HdfImport, hdfToParsedBill, isHdfExport, parseHdf } from "../_shared/hdf.ts";
+import { checkBillIdentifiers, servicesWithCriticalErrors } from "../_shared/identifiers.ts";
+import { contractsFromBill } from "../_shared/contract-reminders.ts";
+import { saveContracts } from "../_shared/contracts.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Upper bound on page images sent to the model in one request
+const MAX_IMAGE_INPUTS = 6;
+
+// Helper to get visual inputs for AI - prefers page images rendered at upload, otherwise the file itself
+async function getVisualInputs(fileUrl: string, isPdf: boolean, pageUrls: string[]): Promise<{ urls: string[], usedConversion: boolean }> {
+  if (!isPdf) {
+    return { urls: [fileUrl], usedConversion: false };
+  }
+
+  if (pageUrls.length > 0) {
+    console.log(`PDF detected, using ${pageUrls.length} pre-rendered page image(s)`);
+    return { urls: pageUrls.slice(0, MAX_IMAGE_INPUTS), usedConversion: true };
+  }
+
+  console.log("PDF detected, attempting direct URL first:", fileUrl);
+  return { urls: [fileUrl], usedConversion: false };
+}
+
+// Fallback: page images rendered in-house by the uploader (see src/lib/pdf-to-image.ts)
+async function loadConvertedPageUrls(supabase: SupabaseClient, filePath: string | undefined): Promise<string[]> {
+  if (!filePath) return [];
+
+  const prefix = convertedPagesPrefix(filePath);
+  const { data, error } = await supabase.storage.from('bills').list(prefix, { limit: 100 });
+  if (error) {
+    console.error("Failed to list converted pages:", error.message);
+    return [];
+  }
+
+  const pages = (data || [])
+    .map((object) => ({ name: object.name, pageNumber: convertedPageNumber(object.name) }))
+    .filter((page): page is { name: string; pageNumber: number } => page.pageNumber !== null)
+    .sort((a, b) => a.pageNumber - b.pageNumber);
+
+  console.log(`Found ${pages.length} converted page image(s) under ${prefix}`);
+  return pages.slice(0, MAX_IMAGE_INPUTS).map((page) => billsPublicUrl(convertedPagePath(filePath, page.pageNumber)));
+}
+
+// Document page shown in each image the model saw, so field sources point at the upload's own pages.
+// Null when the model read the PDF itself (its page index is the PDF's); spreadsheets have no pages.
+function inputPageNumbers(imageUrls: string[], readPdfDirectly: boolean, isSpreadsheet: boolean): number[] | null {
+  if (isSpreadsheet) return [];
+  if (readPdfDirectly) return null;
+  return imageUrls.slice(0, MAX_IMAGE_INPUTS).map((url, index) => convertedPageNumber(url.split("/").pop() ?? "") ?? index + 1);
+}
+
+// `consensus` in the request body: true, false, or the providers to sample
+type ConsensusOption = boolean | { providers: VisionProviderName[] };
+
+function isConsensusOption(option: unknown): option is ConsensusOption {
+  if (typeof option === "boolean") return true;
+  if (typeof option !== "object" || option === null || Array.isArray(option)) return false;
+  const providers = (option as { providers?: unknown }).providers;
+  return Array.isArray(providers) && providers.length > 0 && providers.every(isVisionProviderName);
+}
+
+// Extra samples requested by `consensus` in the body, or enabled for every request with VISION_CONSENSUS=on.
+// VISION_CONSENSUS_PROVIDERS names the providers to sample; by default the primary provider is sampled again.
+function resolveConsensusProviders(option: ConsensusOption | undefined, primary: VisionProvider): VisionProviderName[] | null {
+  const enabled = option === undefined ? Deno.env.get("VISION_CONSENSUS") === "on" : option !== false;
+  if (!enabled) return null;
+
+  if (typeof option === "object") return option.providers;
+  const configured = (Deno.env.get("VISION_CONSENSUS_PROVIDERS") || "").split(",").map((name) => name.trim()).filter(Boolean);
+  return configured.length > 0 ? configured.filter(isVisionProviderName) : [primary.name];
+}
+
+// Run the extra consensus samples in parallel; a sample from the primary provider is re-drawn at a higher temperature
+async function collectConsensusSamples(
+  providers: VisionProviderName[],
+  primary: VisionProvider,
+  request: VisionRequest,
+): Promise<{ samples: ConsensusSample[]; failed: ConsensusResult["failed_samples"] }> {
+  const outcomes = await Promise.all(providers.map(async (name, index) => {
+    let label = `${name}#${index + 2}`;
+    try {
+      const provider = name === primary.name ? primary : createVisionProvider({ provider: name });
+      label = `${provider.name}:${provider.model}#${index + 2}`;
+      const result = await provider.parseBill({ ...request, temperature: provider === primary ? 0.7 : 0 });
+      return { label, data: coerceBillOutput(result.toolArguments).data };
+    } catch (error) {
+      return { label, error: error instanceof Error ? error.message : String(error) };
+    }
+  }));
+
+  return {
+    samples: outcomes.filter((outcome): outcome is ConsensusSample => "data" in outcome),
+    failed: outcomes.filter((outcome): outcome is { label: string; error: string } => "error" in outcome),
+  };
+}
+
+// Review thresholds from REVIEW_MIN_CONFIDENCE / REVIEW_ON_IDENTIFIER_ERRORS / REVIEW_ON_DATE_WARNINGS / REVIEW_ON_RECONCILIATION
+function reviewGateConfigFromEnv(): ReviewGateConfig {
+  return parseReviewGateConfig({
+    minConfidence: Deno.env.get("REVIEW_MIN_CONFIDENCE"),
+    identifierErrors: Deno.env.get("REVIEW_ON_IDENTIFIER_ERRORS"),
+    dateWarnings: Deno.env.get("REVIEW_ON_DATE_WARNINGS"),
+    reconciliation: Deno.env.get("REVIEW_ON_RECONCILIATION"),
+  });
+}
+
+type HdfRequest = {
+  supabase: SupabaseClient;
+  jobId: string | null;
+  startedAt: number;
+  phone: string;
+  filePath: string | undefined;
+  fileUrl: string;
+  apiKey: string;
+};
+
+// ESB Networks smart-meter exports are read deterministically: no model call, full confidence.
+// They carry no contract end date, so HDF imports never record contracts for renewal reminders.
+async function handleHdfImport(hdf: HdfImport, request: HdfRequest): Promise<Response> {
+  const { supabase, jobId, startedAt, phone, filePath, fileUrl, apiKey } = request;
+  const parsedData = hdfToParsedBill(hdf);
+  const confidenceScore = 100;
+  const validationWarnings: string[] = [];
+  if (hdf.skipped_rows > 0) {
+    validationWarnings.push(`Skipped ${hdf.skipped_rows} HDF row(s) that are not 30-minute interval reads`);
+  }
+
+  const identifierErrors = checkBillIdentifiers(parsedData);
+  for (const error of identifierErrors) {
+    validationWarnings.push(`Invalid ${error.field.toUpperCase()} (${error.severity}): ${error.message}`);
+  }
+  const blockedServices = servicesWithCriticalErrors(identifierErrors) as string[];
+  const plannedServices = blockedServices.includes("electricity") ? [] : ["electricity"];
+  if (blockedServices.length > 0) {
+    console.warn("🚫 Blocking electricity dispatch - HDF MPRN is malformed");
+    validationWarnings.push("Dispatch to 'electricity' blocked - a critical identifier is malformed");
+  }
+
+  const reviewReasons = evaluateReviewGate(
+    { confidenceScore, identifierErrors, dateWarnings: [], reconciliations: [] },
+    reviewGateConfigFromEnv(),
+  );
+  const needsReview = reviewReasons.length > 0;
+  for (const { message } of reviewReasons) {
+    console.warn(`✋ Holding HDF import for review - ${message}`);
+    validationWarnings.push(`Held for review - ${message}`);
+  }
+
+  const dispatchStartedAt = Date.now();
+  const { apiResults, warnings: dispatchWarnings } = await dispatchBill(supabase, {
+    services: needsReview ? [] : plannedServices,
+    parsedData,
+    phone,
+    filePath,
+    fileUrl,
+    apiKey,
+  });
+  validationWarnings.push(...dispatchWarnings);
+  const dispatchDurationMs = Date.now() - dispatchStartedAt;
+
+  const allSuccessful = apiResults.every((result) => result.ok) && blockedServices.length === 0;
+  const servicesDetected = { electricity: true, gas: false, meter: false, broadband: false };
+  // The series themselves go to interval_data; the classification keeps a per-MPRN summary
+  const meters = hdf.meters.map((meter) => ({
+    mprn: meter.mprn,
+    meter_serial_numbers: meter.meter_serial_numbers,
+    start_date: meter.start_date,
+    end_date: meter.end_date,
+    interval_count: meter.intervals.length,
+    totals: meter.totals,
+  }));
+  const classificationDetails = {
+    text_source: "hdf",
+    identifier_errors: identifierErrors,
+    blocked_services: blockedServices,
+    hdf: { meters, skipped_rows: hdf.skipped_rows, skipped_read_types: hdf.skipped_read_types },
+    review_services: needsReview ? ["electricity"] : [],
+    review_reasons: reviewReasons,
+  };
+
+  await updateParseJob(supabase, jobId, {
+    status: needsReview ? "needs_review" : allSuccessful ? "completed" : "dispatch_failed",
+    input_type: "hdf",
+    services: ["electricity"],
+    services_detected: servicesDetected,
+    parsed_data: parsedData,
+    confidence_score: confidenceScore,
+    classification_details: classificationDetails,
+    interval_data: hdf.meters,
+    validation_warnings: validationWarnings,
+    api_calls: apiResults,
+    used_conversion: false,
+    visual_input_count: 0,
+    ai_duration_ms: 0,
+    dispatch_duration_ms: dispatchDurationMs,
+    total_duration_ms: Date.now() - startedAt,
+    completed_at: new Date().toISOString(),
+  });
+
+  return new Response(
+    JSON.stringify({
+      ok: allSuccessful && !needsReview,
+      needs_review: needsReview,
+      job_id: jobId,
+      confidence_score: confidenceScore,
+      parsed_data: parsedData,
+      services_detected: servicesDetected,
+      classification_details: classificationDetails,
+      field_sources: [],
+      validation_warnings: validationWarnings,
+      api_calls: apiResults,
+      input_type: "hdf",
+      used_conversion: false,
+      visual_input_count: 0,
+      visual_inputs_sample: [],
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+// Served by index.ts; the test suite (supabase/functions/tests) calls it directly.
+export async function handleParseRequest(req: Request): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startedAt = Date.now();
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  let jobId: string | null = null;
+
+  try {
+    const { image_url, file_path, phone, job_id, page_paths, provider, model, consensus: consensusOption } = await req.json();
+    
+    const ONEBILL_API_KEY = Deno.env.get("ONEBILL_API_KEY");
+    if (!ONEBILL_API_KEY) {
+      return new Response(
+        JSON.stringify({ error: "ONEBILL_API_KEY not configured" }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    if (provider !== undefined && !isVisionProviderName(provider)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown provider '${provider}'`, providers: VISION_PROVIDER_NAMES }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    if (consensusOption !== undefined && !isConsensusOption(consensusOption)) {
+      return new Response(
+        JSON.stringify({
+          error: "consensus must be true, false or { providers: [...] } naming at least one provider",
+          providers: VISION_PROVIDER_NAMES,
+        }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    if (!phone) {
+      return new Response(
+        JSON.stringify({ error: "Phone number is required" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    let fileUrl = image_url;
+    
+    // If file_path is provided, construct the Supabase Storage URL
+    if (file_path) {
+      fileUrl = billsPublicUrl(file_path);
+      console.log("Using uploaded file:", fileUrl);
+    }
+
+    // Page images rendered by the uploader (see renderPdfPagesToBlobs)
+    const pageUrls: string[] = Array.isArray(page_paths)
+      ? page_paths.filter((path: unknown): path is string => typeof path === "string" && path.length > 0).map(billsPublicUrl)
+      : [];
+    
+    if (!fileUrl) {
+      return new Response(
+        JSON.stringify({ error: "Either image_url or file_path is required" }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Detect file type
+    const fileUrlLower = fileUrl.toLowerCase();
+    const isPdf = fileUrlLower.endsWith('.pdf');
+    const isCsv = fileUrlLower.endsWith('.csv') || fileUrlLower.includes('.csv');
+    const isExcel = fileUrlLower.endsWith('.xls') || fileUrlLower.endsWith('.xlsx');
+    const inputType = isCsv || isExcel ? (isCsv ? "csv" : "excel") : (isPdf ? "pdf" : "image");
+
+    // Record the run in parse history before doing any work.
+    // Batch jobs are queued ahead of time and claimed by onebill-batch-worker, which passes job_id.
+    if (job_id) {
+      jobId = job_id;
+      await updateParseJob(supabase, jobId, { status: "processing", input_type: inputType, error: null });
+    } else {
+      jobId = await createParseJob(supabase, {
+        phone,
+        file_path: file_path || null,
+        image_url: file_path ? null : image_url,
+        input_type: inputType,
+      });
+    }
+    
+    // Variables to track visual inputs
+    let imageUrls: string[] = [];
+    let usedConversion = false;
+    
+    let spreadsheetText = "";
+    let hdf: HdfImport | null = null;
+    
+    // Build content array with text and images/documents
+    const content: VisionContentPart[] = [{ type: "text", text: PARSE_PROMPT }];
+    
+    // Handle CSV/Excel files - read every sheet into tables and send as text
+    if (isCsv || isExcel) {
+      const kind = isCsv ? "CSV" : "Excel";
+      console.log(`Detected ${kind} file, converting sheets to text`);
+      try {
+        const fileResponse = await fetch(fileUrl);
+        if (!fileResponse.ok) {
+          throw new Error(`Failed to fetch file: ${fileResponse.status}`);
+        }
+        const bytes = new Uint8Array(await fileResponse.arrayBuffer());
+
+        // ESB Networks interval exports have a fixed layout and skip the model entirely
+        const csvText = isCsv ? new TextDecoder().decode(bytes) : "";
+        if (isHdfExport(csvText)) {
+          hdf = parseHdf(csvText);
+          console.log(`Detected ESB Networks HDF export for ${hdf.meters.length} MPRN(s)`);
+        } else {
+          const fileContent = spreadsheetToText(bytes, kind);
+          console.log(`Converted ${kind} file to ${fileContent.length} characters of text`);
+          spreadsheetText = fileContent;
+          
+          // For return metadata, set imageUrls to the original file URL
+          imageUrls = [fileUrl];
+          
+          // Append the file content as additional context
+          content.push(spreadsheetContentPart(fileContent, kind));
+        }
+      } catch (error) {
+        console.error("Error fetching CSV/Excel content:", error);
+        await failParseJob(supabase, jobId, `Failed to read CSV/Excel file: ${error instanceof Error ? error.message : String(error)}`, startedAt);
+        return new Response(
+          JSON.stringify({ 
+            error: "Failed to read CSV/Excel file", 
+            details: error instanceof Error ? error.message : String(error) 
+          }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    } else {
+      // Handle images and PDFs with vision
+      const visualInputs = await getVisualInputs(fileUrl, isPdf, pageUrls);
+      imageUrls = visualInputs.urls;
+      usedConversion = visualInputs.usedConversion;
+      console.log(`Parsing with ${imageUrls.length} image(s), conversion: ${usedConversion}`);
+      
+      // If it's a PDF and we didn't convert yet, send as a document instead of image
+      if (isPdf && !usedConversion) {
+        content.push({ type: "document", document_url: { url: imageUrls[0] } });
+      } else {
+        for (const imgUrl of imageUrls.slice(0, MAX_IMAGE_INPUTS)) {
+          content.push({ type: "image_url", image_url: { url: imgUrl } });
+        }
+      }
+    }
+
+    if (hdf) {
+      return await handleHdfImport(hdf, {
+        supabase,
+        jobId,
+        startedAt,
+        phone,
+        filePath: file_path,
+        fileUrl,
+        apiKey: ONEBILL_API_KEY,
+      });
+    }
+
+    // Per-request provider/model override the VISION_PROVIDER environment default
+    const visionProvider = createVisionProvider({
+      provider,
+      model: typeof model === "string" && model ? model : undefined,
+    });
+    console.log(`Using vision provider ${visionProvider.name} (${visionProvider.model})`);
+    
+    // Deterministic text pre-pass, run alongside the model call to cross-check its identifiers
+    const documentTextPromise: Promise<DocumentText> = (async () => {
+      if (isCsv || isExcel) return { source: "spreadsheet" as const, text: spreadsheetText };
+      const sourceFile = isPdf ? (await fetchBillFile(fileUrl, file_path)).blob : null;
+      return extractDocumentText({
+        file: sourceFile,
+        isPdf,
+        imageUrls: isPdf && !usedConversion ? [] : imageUrls,
+        ocr: createOcrProviderFromEnv(),
+      });
+    })().catch((error) => {
+      console.error("Document text extraction failed:", error);
+      return { source: "none" as const, text: "" };
+    });
+
+    // Call the vision model
+    const aiStartedAt = Date.now();
+    let visionContent = content;
+    let visionResult: VisionResult | null = null;
+    let visionError: unknown = null;
+    try {
+      visionResult = await visionProvider.parseBill({ content, sourceUrl: fileUrl });
+    } catch (error) {
+      visionError = error;
+    }
+
+    // If the provider rejects the PDF with a 400 (document extraction error), fall back to the rendered page images
+    if (visionError instanceof VisionProviderError && visionError.status === 400 && isPdf && !usedConversion) {
+      console.log("Direct PDF failed, attempting converted page fallback:", (visionError.details || visionError.message).slice(0, 200));
+      
+      const convertedUrls = await loadConvertedPageUrls(supabase, file_path);
+      if (convertedUrls.length === 0) {
+        const details = "The PDF could not be read directly and no rendered page images exist for it under bills/converted/. " +
+          "Re-upload it from the web app, which renders the pages in the browser, or upload JPG/PNG images instead.";
+        await failParseJob(supabase, jobId, `Failed to process PDF: ${details}`, startedAt);
+        return new Response(
+          JSON.stringify({ error: "Failed to process PDF", details }),
+          { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      
+      // Retry with converted images
+      imageUrls = convertedUrls;
+      usedConversion = true;
+      console.log(`Retrying with ${imageUrls.length} converted page image(s)`);
+      
+      const retryContent: VisionContentPart[] = [{ type: "text", text: PARSE_PROMPT }];
+      for (const imgUrl of imageUrls.slice(0, MAX_IMAGE_INPUTS)) {
+        retryContent.push({ type: "image_url", image_url: { url: imgUrl } });
+      }
+      
+      visionContent = retryContent;
+      visionError = null;
+      try {
+        visionResult = await visionProvider.parseBill({ content: retryContent, sourceUrl: fileUrl });
+      } catch (error) {
+        visionError = error;
+      }
+    }
+
+    if (!visionResult) {
+      if (!(visionError instanceof VisionProviderError)) throw visionError;
+
+      if (visionError.code === "no_tool_call") {
+        await failParseJob(supabase, jobId, "No structured data returned from AI", startedAt);
+        return new Response(
+          JSON.stringify({ error: "No structured data returned from AI" }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      console.error("AI API error:", visionError.status, visionError.code, visionError.details);
+      await failParseJob(supabase, jobId, `${visionError.message}: ${visionError.details}`.slice(0, 600), startedAt);
+      return new Response(
+        JSON.stringify({
+          error: "AI parsing failed",
+          code: visionError.code,
+          provider: visionProvider.name,
+          status: visionError.status,
+          details: visionError.details || visionError.message
+        }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const aiDurationMs = Date.now() - aiStartedAt;
+    console.log(`AI response received from ${visionResult.provider} in ${aiDurationMs}ms`);
+
+    // Validate the tool output against the schema, coercing amounts, dates and enums
+    let coercedBill;
+    try {
+      coercedBill = coerceBillOutput(visionResult.toolArguments);
+    } catch (error) {
+      if (!(error instanceof BillOutputError)) throw error;
+      console.error(`Malformed tool output (${error.code}):`, error.message);
+      await failParseJob(supabase, jobId, `Malformed AI output [${error.code}]: ${error.message}`, startedAt);
+      return new Response(
+        JSON.stringify({ error: "Malformed AI output", code: error.code, details: error.message }),
+        { status: 422, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const { data: parsedData, coercions } = coercedBill;
+    console.log(`Parsed bill data received (${coercions.length} value(s) coerced)`);
+
+    // Where the model read each critical field; stored with the job rather than sent downstream
+    const fieldSources = extractFieldSources(parsedData, {
+      inputPageNumbers: inputPageNumbers(imageUrls, isPdf && !usedConversion, isCsv || isExcel),
+    });
+    console.log(`Located ${fieldSources.length} critical field(s) on the document`);
+
+    // Optional consensus: sample again and compare the identifiers that drive routing
+    let consensus: ConsensusResult | null = null;
+    const consensusSampleProviders = resolveConsensusProviders(consensusOption, visionProvider);
+    if (consensusSampleProviders) {
+      const primaryLabel = `${visionResult.provider}:${visionResult.model}#1`;
+      const { samples, failed } = await collectConsensusSamples(
+        consensusSampleProviders,
+        visionProvider,
+        { content: visionContent, sourceUrl: fileUrl },
+      );
+      consensus = compareCriticalIdentifiers([{ label: primaryLabel, data: structuredClone(parsedData) }, ...samples], failed);
+      console.log(`🗳️ Consensus ${consensus.status} across ${consensus.samples.length} sample(s)` +
+        (failed.length > 0 ? `, ${failed.length} failed` : ""));
+    }
+
+    // ========== POST-PARSING DATA CONSISTENCY VALIDATION ==========
+    const documentText = await documentTextPromise;
+    const {
+      validationWarnings,
+      identifierErrors,
+      servicesWithInvalidIdentifiers,
+      identifierCrossChecks,
+      electricityBillingIndicators,
+      gasBillingIndicators,
+      electricityDateWarnings,
+      gasDateWarnings,
+      meterPhoto,
+      readingChecks,
+      reconciliations,
+      hasElectricityData,
+      hasGasData,
+      dispatchServices,
+      confidenceScore,
+    } = analyzeParsedBill(parsedData, { coercions, documentText, isSpreadsheet: isCsv || isExcel });
+
+    // Never send a malformed meter point identifier downstream
+    const plannedServices = [...dispatchServices];
+    const blockedServices = dispatchServices.filter((service) =>
+      (servicesWithInvalidIdentifiers as string[]).includes(service)
+    );
+    for (const service of blockedServices) {
+      console.warn(`🚫 Blocking ${service} dispatch - critical identifier is malformed`);
+      validationWarnings.push(`Dispatch to '${service}' blocked - a critical identifier is malformed`);
+      dispatchServices.splice(dispatchServices.indexOf(service), 1);
+    }
+
+    // Services whose routing identifiers the consensus samples disagree on wait for a human
+    const reviewReasons: ReviewReason[] = [];
+    const reviewServices = dispatchServices.filter((service) =>
+      (consensus?.needs_review_services as string[] | undefined)?.includes(service)
+    );
+    for (const service of reviewServices) {
+      const fields = (consensus?.fields ?? []).filter((field) => field.service === service && !field.agreed).map((field) => field.field);
+      const reason = fields.length > 0 ? `models disagree on ${fields.join(", ")}` : "no second sample to confirm identifiers";
+      console.warn(`✋ Holding ${service} dispatch for review - ${reason}`);
+      validationWarnings.push(`Dispatch to '${service}' held for review - ${reason}`);
+      reviewReasons.push({ code: "consensus", message: `${service}: ${reason}` });
+      dispatchServices.splice(dispatchServices.indexOf(service), 1);
+    }
+
+    // Review gate: hold the whole parse, including services blocked above, so an operator can correct it
+    const gateReasons = evaluateReviewGate(
+      { confidenceScore, identifierErrors, dateWarnings: [...electricityDateWarnings, ...gasDateWarnings], reconciliations },
+      reviewGateConfigFromEnv(),
+    );
+    if (gateReasons.length > 0) {
+      for (const service of plannedServices.filter((service) => !reviewServices.includes(service))) {
+        reviewServices.push(service);
+      }
+      dispatchServices.length = 0;
+      reviewReasons.push(...gateReasons);
+      for (const { message } of gateReasons) {
+        console.warn(`✋ Holding parse for review - ${message}`);
+        validationWarnings.push(`Held for review - ${message}`);
+      }
+    }
+    const needsReview = reviewServices.length > 0;
+
+    const dispatchStartedAt = Date.now();
+    const { apiResults, warnings: dispatchWarnings } = await dispatchBill(supabase, {
+      services: dispatchServices,
+      parsedData,
+      phone,
+      filePath: file_path,
+      fileUrl,
+      apiKey: ONEBILL_API_KEY,
+    });
+    validationWarnings.push(...dispatchWarnings);
+
+    const dispatchDurationMs = Date.now() - dispatchStartedAt;
+
+    // Keep contract end dates for renewal reminders; held services are recorded once approved.
+    // Broadband is recorded even when no downstream is configured for it.
+    const contractServices = needsReview ? dispatchServices : [...new Set([...dispatchServices, "broadband"])];
+    await saveContracts(supabase, contractsFromBill(parsedData, contractServices, phone, jobId));
+
+    // Check if all API calls succeeded (a blocked dispatch counts as a failure)
+    const allSuccessful = apiResults.every(result => result.ok) && blockedServices.length === 0;
+
+    const servicesDetected = {
+      electricity: hasElectricityData,
+      gas: hasGasData,
+      meter: !hasElectricityData && !hasGasData,
+      broadband: parsedData.bills.broadband?.length > 0
+    };
+    const classificationDetails = {
+      electricity_billing_indicators: electricityBillingIndicators,
+      gas_billing_indicators: gasBillingIndicators,
+      electricity_date_warnings: electricityDateWarnings,
+      gas_date_warnings: gasDateWarnings,
+      reading_checks: readingChecks,
+      reconciliations,
+      identifier_errors: identifierErrors,
+      blocked_services: blockedServices,
+      meter_photo_check: meterPhoto && { valid: meterPhoto.valid, corrections: meterPhoto.corrections, errors: meterPhoto.errors },
+      text_source: documentText.source,
+      identifier_cross_checks: identifierCrossChecks,
+      coercions,
+      vision_provider: visionResult.provider,
+      vision_model: visionResult.model,
+      consensus,
+      review_services: reviewServices,
+      review_reasons: reviewReasons
+    };
+
+    await updateParseJob(supabase, jobId, {
+      status: needsReview ? "needs_review" : allSuccessful ? "completed" : "dispatch_failed",
+      services: Object.entries(servicesDetected).filter(([, detected]) => detected).map(([service]) => service),
+      services_detected: servicesDetected,
+      parsed_data: parsedData,
+      confidence_score: confidenceScore,
+      classification_details: classificationDetails,
+      field_sources: fieldSources,
+      validation_warnings: validationWarnings,
+      api_calls: apiResults,
+      used_conversion: usedConversion,
+      visual_input_count: imageUrls.length,
+      ai_duration_ms: aiDurationMs,
+      dispatch_duration_ms: dispatchDurationMs,
+      total_duration_ms: Date.now() - startedAt,
+      completed_at: new Date().toISOString()
+    });
+
+    return new Response(
+      JSON.stringify({
+        ok: allSuccessful && !needsReview,
+        needs_review: needsReview,
+        job_id: jobId,
+        confidence_score: confidenceScore,
+        parsed_data: parsedData,
+        services_detected: servicesDetected,
+        classification_details: classificationDetails,
+        field_sources: fieldSources,
+        validation_warnings: validationWarnings,
+        api_calls: apiResults,
+        input_type: inputType,
+        used_conversion: usedConversion,
+        visual_input_count: imageUrls.length,
+        visual_inputs_sample: imageUrls.slice(0, 2)
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error("Error in onebill-vision-parse:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    const MAX_ERROR_LENGTH = 4096;
+    await failParseJob(supabase, jobId, errorMessage, startedAt);
+    
+    return new Response(
+      JSON.stringify({ 
+        job_id: jobId,
+        error: errorMessage.slice(0, MAX_ERROR_LENGTH),
+        stack: error instanceof Error ? error.stack?.slice(0, MAX_ERROR_LENGTH) : undefined
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { BillOutputError, coerceBillOutput, parseAmount } from "../_shared/bill-coercion.ts";
+
+Deno.test("amounts are read with currency symbols, units and thousands separators", () => {
+  const cases: Array<[string, number | null]> = [
+    ["182.40", 182.4],
+    ["€1,234.56", 1234.56],
+    ["123.45 EUR", 123.45],
+    ["12 euros", 12],
+    ["£7", 7],
+    ["12.5c", 12.5],
+    ["34.5 cent", 34.5],
+    ["4,120 kWh", 4120],
+    ["13.5%", 13.5],
+    ["", null],
+    ["   ", null],
+    ["n/a", null],
+    ["1.2.3", null],
+  ];
+  for (const [input, expected] of cases) assertEquals(parseAmount(input), expected, input);
+});
+
+Deno.test("credits are negative whichever way the bill prints them", () => {
+  const cases: Array<[string, number]> = [
+    ["-4.20", -4.2],
+    ["€-4.20", -4.2],
+    ["-€4.20", -4.2],
+    ["€ -4.20", -4.2],
+    ["(12.30)", -12.3],
+    ["(€12.30)", -12.3],
+    ["4.20 CR", -4.2],
+    ["€4.20 cr", -4.2],
+  ];
+  for (const [input, expected] of cases) assertEquals(parseAmount(input), expected, input);
+});
+
+Deno.test("numeric fields returned as text are coerced and recorded", () => {
+  const { data, coercions } = coerceBillOutput({
+    bills: { electricity: [{ financial_information: { total_due: "€-4.20" } }] },
+  });
+
+  assertEquals(data.bills.electricity[0].financial_information?.total_due, -4.2);
+  assertEquals(coercions.map((coercion) => [coercion.path, coercion.from, coercion.to]), [
+    ["bills.electricity[0].financial_information.total_due", "€-4.20", -4.2],
+  ]);
+  assertThrows(() => coerceBillOutput("{not json"), BillOutputError);
+});
@@ -0,0 +1,67 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { ParsedBill } from "../_shared/bill-schema.ts";
+import { compareCriticalIdentifiers, type ConsensusSample } from "../_shared/consensus.ts";
+
+const sample = (
+  label: string,
+  electricity: { mprn?: string; dg?: string; mcc?: string } | null,
+  gprn?: string,
+): ConsensusSample => {
+  const data: ParsedBill = {
+    bills: {
+      cus_details: [],
+      electricity: electricity ? [{ electricity_details: { meter_details: electricity } }] : [],
+      gas: gprn ? [{ gas_details: { meter_details: { gprn } } }] : [],
+      broadband: [],
+    },
+  };
+  return { label, data };
+};
+
+Deno.test("samples agree once their identifiers are normalised", () => {
+  const result = compareCriticalIdentifiers([
+    sample("lovable", { mprn: "10 305 037 936", dg: "1", mcc: "12" }, "1234567"),
+    sample("openai", { mprn: "10305037936", dg: "DG1", mcc: "MCC12" }, "123 4567"),
+  ]);
+
+  assertEquals(result.status, "agreed");
+  assertEquals(result.samples, ["lovable", "openai"]);
+  assertEquals(result.fields.map((field) => [field.field, field.agreed, field.value]), [
+    ["mprn", true, "10305037936"],
+    ["dg", true, "DG1"],
+    ["mcc", true, "MCC12"],
+    ["gprn", true, "1234567"],
+  ]);
+  assertEquals(result.needs_review_services, []);
+});
+
+Deno.test("a differing or missing value is a disagreement for that service only", () => {
+  const result = compareCriticalIdentifiers([
+    sample("lovable", { mprn: "10305037936", dg: "DG1" }, "1234567"),
+    sample("openai", { mprn: "10305037963", dg: "DG1" }, "1234567"),
+    sample("lovable@0.7", { mprn: "10305037936" }, "1234567"),
+  ]);
+
+  assertEquals(result.status, "disagreed");
+  const mprn = result.fields.find((field) => field.field === "mprn")!;
+  assertEquals([mprn.agreed, mprn.value], [false, null]);
+  assertEquals(mprn.candidates, [
+    { label: "lovable", value: "10305037936" },
+    { label: "openai", value: "10305037963" },
+    { label: "lovable@0.7", value: "10305037936" },
+  ]);
+  assertEquals(result.fields.find((field) => field.field === "dg")!.agreed, false);
+  // No sample read an MCC, so it is left out of the comparison
+  assertEquals(result.fields.some((field) => field.field === "mcc"), false);
+  assertEquals(result.needs_review_services, ["electricity"]);
+});
+
+Deno.test("with a single sample every identified service needs review", () => {
+  const failed = [{ label: "openai", error: "HTTP 429" }];
+  const result = compareCriticalIdentifiers([sample("lovable", null, "1234567")], failed);
+
+  assertEquals(result.status, "unavailable");
+  assertEquals(result.fields, []);
+  assertEquals(result.failed_samples, failed);
+  assertEquals(result.needs_review_services, ["gas"]);
+});
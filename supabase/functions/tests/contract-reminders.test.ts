@@ -0,0 +1,163 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { ParsedBill } from "../_shared/bill-schema.ts";
+import { type Contract, contractsFromBill, parseReminderWindows, planReminders } from "../_shared/contract-reminders.ts";
+import { handleRemindersRequest } from "../onebill-contract-reminders/handler.ts";
+import { type FakeSupabase, type FakeWebhook, startFakeSupabase, startFakeWebhook } from "./fake-servers.ts";
+
+const PHONE = "087 123 4567";
+
+const contract = (id: string, contractEndDate: string): Contract => ({
+  id,
+  service: "electricity",
+  premises_id: "10305037936",
+  phone: PHONE,
+  supplier: "Bord Gáis Energy",
+  account_number: "ACC-778899",
+  contract_end_date: contractEndDate,
+  source_job_id: null,
+});
+
+Deno.test("contract end dates are recorded per premises for the services given", () => {
+  const parsed: ParsedBill = {
+    bills: {
+      cus_details: [],
+      electricity: [{
+        electricity_details: { account_number: "ACC-778899", contract_end_date: "30/09/2025", meter_details: { mprn: "10 305 037 936" } },
+        supplier_details: { name: "Bord Gáis Energy" },
+      }],
+      gas: [{ gas_details: { contract_end_date: "0000-00-00", meter_details: { gprn: "1234567" } } }],
+      broadband: [{ broadband_details: { account_number: " BB-1 " }, package_information: { contract_end_date: "1 Dec 2025" } }],
+    },
+  };
+
+  assertEquals(contractsFromBill(parsed, ["electricity", "gas", "broadband"], PHONE, "job-1"), [
+    {
+      service: "electricity",
+      premises_id: "10305037936",
+      phone: PHONE,
+      supplier: "Bord Gáis Energy",
+      account_number: "ACC-778899",
+      contract_end_date: "2025-09-30",
+      source_job_id: "job-1",
+    },
+    {
+      service: "broadband",
+      premises_id: "BB-1",
+      phone: PHONE,
+      supplier: null,
+      account_number: "BB-1",
+      contract_end_date: "2025-12-01",
+      source_job_id: "job-1",
+    },
+  ]);
+  // Services held for review are not recorded
+  assertEquals(contractsFromBill(parsed, ["gas"], PHONE, "job-1"), []);
+});
+
+Deno.test("each contract gets the tightest reminder window it is inside", () => {
+  const windows = parseReminderWindows("7, 60,30,x");
+  assertEquals(windows, [60, 30, 7]);
+  assertEquals(parseReminderWindows(undefined), [60, 30, 7]);
+
+  const planned = planReminders([
+    contract("far", "2025-08-01"),
+    contract("sixty", "2025-07-31"),
+    contract("twenty", "2025-06-21"),
+    contract("today", "2025-06-01"),
+    contract("ended", "2025-05-31"),
+  ], windows, "2025-06-01");
+
+  assertEquals(planned.map((reminder) => [reminder.contract_id, reminder.window_days, reminder.days_remaining]), [
+    ["sixty", 60, 60],
+    ["twenty", 30, 20],
+    ["today", 7, 0],
+  ]);
+});
+
+async function withFakes(run: (fakes: { supabase: FakeSupabase; webhook: FakeWebhook }) => Promise<void>) {
+  const fakes = { supabase: startFakeSupabase(), webhook: startFakeWebhook() };
+  Deno.env.set("SUPABASE_URL", fakes.supabase.url);
+  Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", "test-service-role-key");
+  Deno.env.set("CRM_WEBHOOK_URL", `${fakes.webhook.url}/events`);
+  Deno.env.set("CRM_WEBHOOK_SECRET", "test-secret");
+  Deno.env.set("CONTRACT_REMINDERS_SECRET", "test-cron-secret");
+  Deno.env.delete("CONTRACT_REMINDER_WINDOWS");
+  try {
+    await run(fakes);
+  } finally {
+    await Promise.all([fakes.supabase.close(), fakes.webhook.close()]);
+  }
+}
+
+async function runReminders(today: string, token = "test-cron-secret") {
+  const response = await handleRemindersRequest(new Request("http://localhost/onebill-contract-reminders", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: "{}",
+  }), { today });
+  return { status: response.status, body: await response.json() };
+}
+
+Deno.test("runs without the cron secret or the service-role key are refused", () =>
+  withFakes(async ({ supabase, webhook }) => {
+    supabase.contracts.push(contract("contract-1", "2025-06-05"));
+
+    assertEquals((await runReminders("2025-06-01", "anon-key")).status, 401);
+    const unsigned = await handleRemindersRequest(new Request("http://localhost/onebill-contract-reminders", { method: "POST", body: "{}" }));
+    assertEquals(unsigned.status, 401);
+    assertEquals([supabase.reminders.length, webhook.requests.length], [0, 0]);
+
+    assertEquals((await runReminders("2025-06-01", "test-service-role-key")).status, 200);
+  }));
+
+Deno.test("reminders are raised once per window and delivered as signed webhook events", () =>
+  withFakes(async ({ supabase, webhook }) => {
+    supabase.contracts.push(contract("contract-1", "2025-07-16"), contract("contract-2", "2025-12-01"));
+
+    const { status, body } = await runReminders("2025-06-01");
+    assertEquals(status, 200);
+    assertEquals([body.due, body.created, body.delivered, body.failed], [1, 1, 1, 0]);
+
+    const [request] = webhook.requests;
+    const event = JSON.parse(request.body);
+    assertEquals([event.id, event.type, event.data.contract_id, event.data.window_days, event.data.days_remaining], [
+      "reminder-1",
+      "contract.ending",
+      "contract-1",
+      60,
+      45,
+    ]);
+    assertEquals(request.headers.get("x-webhook-event"), "contract.ending");
+    assert(/^sha256=[0-9a-f]{64}$/.test(request.headers.get("x-webhook-signature") ?? ""));
+    assertEquals(supabase.reminders[0].status, "delivered");
+
+    // The next day raises nothing new; two weeks later the contract enters the 30-day window
+    assertEquals((await runReminders("2025-06-02")).body.created, 0);
+    assertEquals((await runReminders("2025-06-16")).body.created, 1);
+    assertEquals(webhook.requests.length, 2);
+  }));
+
+Deno.test("failed deliveries are retried on the next run", () =>
+  withFakes(async ({ supabase, webhook }) => {
+    supabase.contracts.push(contract("contract-1", "2025-06-05"));
+    webhook.respondWithStatuses(503);
+
+    assertEquals((await runReminders("2025-06-01")).body.failed, 1);
+    assertEquals([supabase.reminders[0].status, supabase.reminders[0].last_error], ["failed", 'HTTP 503: {"error":"rejected"}']);
+
+    const { body } = await runReminders("2025-06-02");
+    assertEquals([body.created, body.delivered], [0, 1]);
+    assertEquals([supabase.reminders[0].status, supabase.reminders[0].delivery_attempts], ["delivered", 2]);
+    assertEquals(JSON.parse(webhook.requests[1].body).data.days_remaining, 3);
+  }));
+
+Deno.test("overlapping runs deliver each reminder once", () =>
+  withFakes(async ({ supabase, webhook }) => {
+    supabase.contracts.push(contract("contract-1", "2025-06-05"), contract("contract-2", "2025-06-20"));
+
+    const runs = await Promise.all([runReminders("2025-06-01"), runReminders("2025-06-01")]);
+    assertEquals(runs.map(({ status }) => status), [200, 200]);
+    assertEquals(runs.reduce((total, { body }) => total + body.delivered, 0), 2);
+    assertEquals(webhook.requests.map((request) => JSON.parse(request.body).id).sort(), ["reminder-1", "reminder-2"]);
+    assertEquals(supabase.reminders.map((reminder) => reminder.status), ["delivered", "delivered"]);
+  }));
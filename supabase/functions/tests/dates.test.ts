@@ -0,0 +1,56 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { billingPeriodDays, daysBetween, formatBillDate, parseBillDate, parseBillingPeriodText } from "../_shared/dates.ts";
+
+Deno.test("bill dates in the formats suppliers print are read day-first", () => {
+  const cases: Array<[string, string]> = [
+    ["2025-01-12", "2025-01-12"],
+    ["2025-1-2", "2025-01-02"],
+    ["2025-01-12T09:30:00Z", "2025-01-12"],
+    ["12/01/2025", "2025-01-12"],
+    ["12/01/25", "2025-01-12"],
+    ["12-01-2025", "2025-01-12"],
+    ["12.01.2025", "2025-01-12"],
+    ["12 Jan 2025", "2025-01-12"],
+    ["13 Jan 2025", "2025-01-13"],
+    ["12th January 2025", "2025-01-12"],
+    ["1st Sept 2025", "2025-09-01"],
+    ["Jan 12, 2025", "2025-01-12"],
+    ["  3 Mar 25 ", "2025-03-03"],
+  ];
+  for (const [input, expected] of cases) assertEquals(parseBillDate(input), expected, input);
+});
+
+Deno.test("unknown, impossible and unreadable dates are null", () => {
+  for (const input of [undefined, null, "", "0000-00-00", "31/02/2025", "2025-13-01", "12 Foo 2025", "next Tuesday"]) {
+    assertEquals(parseBillDate(input), null, String(input));
+  }
+});
+
+Deno.test("day counts and display formatting", () => {
+  assertEquals(daysBetween("2025-01-12", "2025-03-11"), 58);
+  assertEquals(daysBetween("2025-03-11", "2025-01-12"), -58);
+  assertEquals(billingPeriodDays("2025-01-12", "2025-03-11"), 59);
+  assertEquals(formatBillDate("2025-01-02"), "2 Jan 2025");
+  assertEquals(formatBillDate("sometime"), "sometime");
+  assertEquals(parseBillingPeriodText("12 Jan 2025 - 11 Mar 2025"), { start_date: "2025-01-12", end_date: "2025-03-11" });
+});
+
+Deno.test("billing periods split on a spaced separator or a bare hyphen between full dates", () => {
+  const period = { start_date: "2025-01-12", end_date: "2025-03-11" };
+  for (const input of [
+    "12/01/2025 - 11/03/2025",
+    "12 Jan 2025 to 11 Mar 2025",
+    "2025-01-12 – 2025-03-11",
+    "12/01/2025–11/03/2025",
+    "12/01/2025-11/03/2025",
+    "12-01-2025-11-03-2025",
+    "2025-01-12-2025-03-11",
+    "12 Jan 2025-11 Mar 2025",
+  ]) {
+    assertEquals(parseBillingPeriodText(input), period, input);
+  }
+
+  for (const input of ["12/01/2025", "12/01/2025-", "12/01-11/03/2025", "12/01/2025 - soon", "a - b - c"]) {
+    assertEquals(parseBillingPeriodText(input), null, input);
+  }
+});
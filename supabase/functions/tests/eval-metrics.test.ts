@@ -0,0 +1,93 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { type CaseResult, compareFields, sameServices, summarizeRun, valuesEqual } from "../../../scripts/eval/metrics.ts";
+
+// Scoring used by the golden-set evaluation harness (scripts/eval)
+
+const caseResult = (name: string, fields: CaseResult["fields"], extra: Partial<CaseResult> = {}): CaseResult => ({
+  name,
+  error: null,
+  expected_services: null,
+  actual_services: [],
+  classification_correct: null,
+  confidence: null,
+  fields,
+  ...extra,
+});
+
+Deno.test("numbers match within half a cent, including numeric strings", () => {
+  assertEquals(valuesEqual(182.4, 182.4), true);
+  assertEquals(valuesEqual(182.4, 182.404), true);
+  assertEquals(valuesEqual(182.4, "182.40"), true);
+  assertEquals(valuesEqual("96.1", 96.1), true);
+  assertEquals(valuesEqual(182.4, 182.41), false);
+  assertEquals(valuesEqual(182.4, -182.4), false);
+  assertEquals(valuesEqual(0, "n/a"), false);
+});
+
+Deno.test("identifiers ignore spacing, hyphens and case; other text only spacing and case", () => {
+  const mprn = "bills.electricity[0].electricity_details.meter_details.mprn";
+  assertEquals(valuesEqual("10305037936", "10 305 037-936", mprn), true);
+  assertEquals(valuesEqual("DG1", "dg 1", "bills.electricity[0].electricity_details.meter_details.dg"), true);
+  assertEquals(valuesEqual("10305037936", "10305037935", mprn), false);
+
+  const supplier = "bills.electricity[0].supplier_details.name";
+  assertEquals(valuesEqual("Bord Gáis  Energy", " bord gáis energy", supplier), true);
+  assertEquals(valuesEqual("ACC-778899", "ACC778899", "bills.electricity[0].electricity_details.account_number"), false);
+});
+
+Deno.test("only labelled leaves are scored, and null labels catch hallucinated fields", () => {
+  const expected = {
+    bills: {
+      electricity: [{ electricity_details: { meter_details: { mprn: "10305037936", dg: "DG1" } }, financial_information: { total_due: 182.4 } }],
+      gas: null,
+      broadband: [],
+    },
+  };
+  const actual = {
+    bills: {
+      electricity: [{
+        electricity_details: { meter_details: { mprn: "10 305 037 936", dg: "DG2", mcc: "MCC01" } },
+        financial_information: {},
+      }],
+      gas: [{ gas_details: { meter_details: { gprn: "1234567" } } }],
+      broadband: [],
+    },
+  };
+
+  assertEquals(compareFields(expected, actual).map((field) => [field.path, field.outcome]), [
+    ["bills.electricity[0].electricity_details.meter_details.mprn", "tp"],
+    ["bills.electricity[0].electricity_details.meter_details.dg", "mismatch"],
+    ["bills.electricity[0].financial_information.total_due", "fn"],
+    ["bills.gas", "fp"],
+  ]);
+  // The unlabelled MCC and GPRN were not scored; an empty value where null is expected is a true negative
+  assertEquals(compareFields({ bills: { gas: null } }, { bills: { gas: [] } }).map((field) => field.outcome), ["tn"]);
+});
+
+Deno.test("a mismatch counts against both precision and recall", () => {
+  const mprn = "bills.electricity[0].electricity_details.meter_details.mprn";
+  const summary = summarizeRun([
+    caseResult("a.png", [
+      { path: mprn, expected: "10305037936", actual: "10305037936", outcome: "tp" },
+      { path: "bills.electricity[0].supplier_details.name", expected: "Energia", actual: "SSE", outcome: "mismatch" },
+    ], { expected_services: ["electricity"], actual_services: ["electricity"], classification_correct: true, confidence: 85 }),
+    caseResult("b.png", [
+      { path: mprn, expected: "10305037936", actual: null, outcome: "fn" },
+      { path: "bills.gas", expected: null, actual: [{}], outcome: "fp" },
+    ], { expected_services: ["electricity"], actual_services: ["electricity", "gas"], classification_correct: false, confidence: 40 }),
+  ]);
+
+  assertEquals(summary.overall, { tp: 1, fp: 2, fn: 2, precision: 1 / 3, recall: 1 / 3 });
+  assertEquals(summary.fields["bills.electricity[].electricity_details.meter_details.mprn"], { tp: 1, fp: 0, fn: 1, precision: 1, recall: 0.5 });
+  assertEquals(summary.identifier_exact_match, { matched: 1, total: 2, rate: 0.5 });
+  assertEquals(summary.classification_accuracy, { correct: 1, total: 2, rate: 0.5 });
+  assertEquals(summary.calibration.buckets.map((bucket) => [bucket.range, bucket.count, bucket.mean_accuracy]), [
+    ["40-50", 1, 0],
+    ["80-90", 1, 0.5],
+  ]);
+});
+
+Deno.test("services are compared regardless of order", () => {
+  assertEquals(sameServices(["gas", "electricity"], ["electricity", "gas"]), true);
+  assertEquals(sameServices(["electricity"], ["electricity", "gas"]), false);
+});
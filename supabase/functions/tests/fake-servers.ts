@@ -0,0 +1,265 @@
+// Local stand-ins for the services the edge functions talk to: the Lovable AI
+// gateway, Supabase (PostgREST + storage), api.onebill.ie and the CRM webhook. Each server
+// records what it received so tests can assert on the outgoing requests.
+
+export type FakeServer = {
+  url: string;
+  close: () => Promise<void>;
+};
+
+function startServer(handler: (req: Request) => Response | Promise<Response>): FakeServer {
+  const server = Deno.serve({ port: 0, hostname: "127.0.0.1", onListen: () => {} }, handler);
+  return {
+    url: `http://127.0.0.1:${server.addr.port}`,
+    close: () => server.shutdown(),
+  };
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+// ---------- AI gateway ----------
+
+export type FakeGateway = FakeServer & {
+  endpoint: string;
+  requests: Array<{ authorization: string | null; body: Record<string, unknown> }>;
+  // Queue the tool-call arguments (or an HTTP error) for the next request
+  respondWith: (toolArguments: unknown) => void;
+  failWith: (status: number, body?: string) => void;
+};
+
+export function startFakeGateway(): FakeGateway {
+  const requests: FakeGateway["requests"] = [];
+  const queue: Array<{ status: number; body: string }> = [];
+
+  const server = startServer(async (req) => {
+    requests.push({ authorization: req.headers.get("authorization"), body: await req.json() });
+    const next = queue.shift();
+    if (!next) return json({ error: "no response queued" }, 500);
+    return new Response(next.body, { status: next.status, headers: { "Content-Type": "application/json" } });
+  });
+
+  return {
+    ...server,
+    endpoint: `${server.url}/v1/chat/completions`,
+    requests,
+    respondWith: (toolArguments) => {
+      queue.push({
+        status: 200,
+        body: JSON.stringify({
+          choices: [{
+            message: {
+              tool_calls: [{ type: "function", function: { name: "parse_irish_bill", arguments: JSON.stringify(toolArguments) } }],
+            },
+          }],
+        }),
+      });
+    },
+    failWith: (status, body = "upstream error") => queue.push({ status, body }),
+  };
+}
+
+// ---------- Supabase ----------
+
+export type FakeSupabase = FakeServer & {
+  files: Map<string, { bytes: Uint8Array; contentType: string }>;
+  apiConfigs: Array<Record<string, unknown>>;
+  jobs: Map<string, Record<string, unknown>>;
+  contracts: Array<Record<string, unknown>>;
+  reminders: Array<Record<string, unknown>>;
+  addFile: (path: string, bytes: Uint8Array, contentType: string) => void;
+};
+
+// The PostgREST filters the edge functions use: eq, gte, lte, lt and in
+function matchesFilters(row: Record<string, unknown>, params: URLSearchParams): boolean {
+  for (const [column, filter] of params) {
+    if (["select", "order", "on_conflict", "columns"].includes(column)) continue;
+    const [, op, operand] = filter.match(/^(\w+)\.(.*)$/) ?? [];
+    const value = row[column] as string | number;
+    const target = typeof value === "number" ? Number(operand) : operand;
+    if (op === "eq" && String(value) !== operand) return false;
+    if (op === "gte" && !(value >= target)) return false;
+    if (op === "lte" && !(value <= target)) return false;
+    if (op === "lt" && !(value < target)) return false;
+    if (op === "in" && !operand.slice(1, -1).split(",").map((s) => s.replace(/"/g, "")).includes(String(value))) return false;
+  }
+  return true;
+}
+
+export function startFakeSupabase(): FakeSupabase {
+  const files: FakeSupabase["files"] = new Map();
+  const apiConfigs: FakeSupabase["apiConfigs"] = [];
+  const jobs: FakeSupabase["jobs"] = new Map();
+  const contracts: FakeSupabase["contracts"] = [];
+  const reminders: FakeSupabase["reminders"] = [];
+  let nextJobId = 1;
+  let nextReminderId = 1;
+
+  const server = startServer(async (req) => {
+    const url = new URL(req.url);
+    const storagePrefix = "/storage/v1/object/public/bills/";
+
+    if (req.method === "GET" && url.pathname.startsWith(storagePrefix)) {
+      const path = url.pathname.slice(storagePrefix.length).split("/").map(decodeURIComponent).join("/");
+      const file = files.get(path);
+      return file
+        ? new Response(new Uint8Array(file.bytes), { headers: { "Content-Type": file.contentType } })
+        : json({ error: "not found" }, 404);
+    }
+
+    if (url.pathname === "/storage/v1/object/list/bills") return json([]);
+
+    if (url.pathname === "/rest/v1/parse_jobs") {
+      if (req.method === "POST") {
+        const row = await req.json();
+        const id = `job-${nextJobId++}`;
+        jobs.set(id, { id, ...(Array.isArray(row) ? row[0] : row) });
+        return json({ id }, 201);
+      }
+      if (req.method === "PATCH") {
+        const update = await req.json();
+        const updated = [...jobs.values()].filter((job) => matchesFilters(job, url.searchParams));
+        for (const job of updated) Object.assign(job, update);
+        if (!url.searchParams.has("select")) return new Response(null, { status: 204 });
+        // .maybeSingle() asks for one object; PostgREST answers 406 when no row matched
+        if (req.headers.get("accept") === "application/vnd.pgrst.object+json") {
+          return updated.length === 1
+            ? json(updated[0])
+            : json({ code: "PGRST116", message: "JSON object requested, multiple (or no) rows returned", details: `The result contains ${updated.length} rows` }, 406);
+        }
+        return json(updated);
+      }
+    }
+
+    if (url.pathname === "/rest/v1/api_configs" && req.method === "GET") {
+      const services = url.searchParams.get("service_type")?.match(/^in\.\((.*)\)$/)?.[1].split(",").map((s) => s.replace(/"/g, "")) ?? [];
+      return json(apiConfigs.filter((config) => config.is_active && services.includes(String(config.service_type))));
+    }
+
+    if (url.pathname === "/rest/v1/contracts") {
+      if (req.method === "POST") {
+        for (const row of [await req.json()].flat()) {
+          const existing = contracts.find((contract) => contract.service === row.service && contract.premises_id === row.premises_id);
+          if (existing) Object.assign(existing, row);
+          else contracts.push({ id: `contract-${contracts.length + 1}`, ...row });
+        }
+        return new Response(null, { status: 201 });
+      }
+      if (req.method === "GET") return json(contracts.filter((contract) => matchesFilters(contract, url.searchParams)));
+    }
+
+    if (url.pathname === "/rest/v1/contract_reminders") {
+      if (req.method === "POST") {
+        // ignore-duplicates upsert: only rows new to the unique key are inserted and returned
+        const inserted = [];
+        for (const row of [await req.json()].flat()) {
+          const duplicate = reminders.some((reminder) =>
+            reminder.contract_id === row.contract_id && reminder.contract_end_date === row.contract_end_date && reminder.window_days === row.window_days
+          );
+          if (duplicate) continue;
+          const reminder = {
+            id: `reminder-${nextReminderId++}`,
+            status: "pending",
+            delivery_attempts: 0,
+            created_at: new Date().toISOString(),
+            ...row,
+          };
+          reminders.push(reminder);
+          inserted.push(reminder);
+        }
+        return json(inserted, 201);
+      }
+      if (req.method === "GET") return json(reminders.filter((reminder) => matchesFilters(reminder, url.searchParams)));
+      if (req.method === "PATCH") {
+        // Filtered and applied in one step, like the single UPDATE statement PostgREST runs
+        const update = await req.json();
+        const updated = reminders.filter((reminder) => matchesFilters(reminder, url.searchParams));
+        for (const reminder of updated) Object.assign(reminder, update);
+        return url.searchParams.has("select") ? json(updated) : new Response(null, { status: 204 });
+      }
+    }
+
+    return json({ error: `unexpected ${req.method} ${url.pathname}` }, 404);
+  });
+
+  return {
+    ...server,
+    files,
+    apiConfigs,
+    jobs,
+    contracts,
+    reminders,
+    addFile: (path, bytes, contentType) => files.set(path, { bytes, contentType }),
+  };
+}
+
+// ---------- api.onebill.ie ----------
+
+export type OneBillRequest = {
+  path: string;
+  at: number;
+  authorization: string | null;
+  fields: Record<string, string>;
+  file: { name: string; type: string; bytes: Uint8Array } | null;
+};
+
+export type FakeOneBill = FakeServer & {
+  requests: OneBillRequest[];
+  // Statuses returned for successive requests; 200 once the list runs out
+  respondWithStatuses: (...statuses: number[]) => void;
+};
+
+export function startFakeOneBill(): FakeOneBill {
+  const requests: OneBillRequest[] = [];
+  const statuses: number[] = [];
+
+  const server = startServer(async (req) => {
+    const form = await req.formData();
+    const fields: Record<string, string> = {};
+    let file: OneBillRequest["file"] = null;
+    for (const [key, value] of form.entries()) {
+      if (typeof value === "string") fields[key] = value;
+      else file = { name: value.name, type: value.type, bytes: new Uint8Array(await value.arrayBuffer()) };
+    }
+    requests.push({ path: new URL(req.url).pathname, at: Date.now(), authorization: req.headers.get("authorization"), fields, file });
+
+    const status = statuses.shift() ?? 200;
+    return json(status < 400 ? { success: true } : { error: "rejected" }, status);
+  });
+
+  return {
+    ...server,
+    requests,
+    respondWithStatuses: (...next) => statuses.push(...next),
+  };
+}
+
+// ---------- CRM webhook ----------
+
+export type WebhookRequest = {
+  headers: Headers;
+  body: string;
+};
+
+export type FakeWebhook = FakeServer & {
+  requests: WebhookRequest[];
+  // Statuses returned for successive requests; 200 once the list runs out
+  respondWithStatuses: (...statuses: number[]) => void;
+};
+
+export function startFakeWebhook(): FakeWebhook {
+  const requests: WebhookRequest[] = [];
+  const statuses: number[] = [];
+
+  const server = startServer(async (req) => {
+    requests.push({ headers: req.headers, body: await req.text() });
+    const status = statuses.shift() ?? 200;
+    return json(status < 400 ? { received: true } : { error: "rejected" }, status);
+  });
+
+  return {
+    ...server,
+    requests,
+    respondWithStatuses: (...next) => statuses.push(...next),
+  };
+}
@@ -0,0 +1,84 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { ParsedBill } from "../_shared/bill-schema.ts";
+import { buildMappingContext, renderParameters, renderTemplate, validateTemplate } from "../_shared/field-mapping.ts";
+
+const parsed: ParsedBill = {
+  bills: {
+    cus_details: [{ details: { customer_name: "Mary Murphy" } }],
+    electricity: [{
+      electricity_details: { account_number: "ACC-778899", meter_details: { mprn: "10 305 037 936", dg: "dg1", mcc: "12" } },
+      supplier_details: { name: " Energia " },
+    }],
+    gas: [{ gas_details: { meter_details: { gprn: "1234567" } } }],
+    broadband: [],
+  },
+};
+
+const context = buildMappingContext(parsed, "087 123 4567", "bills/bill.pdf");
+
+Deno.test("placeholders resolve paths, indexes, fallbacks and literals", () => {
+  assertEquals(renderTemplate("{{ phone }}", context), "0871234567");
+  assertEquals(renderTemplate("{{ electricity.meter_details.mprn }}", context), "10 305 037 936");
+  assertEquals(renderTemplate("{{ bills.electricity[0].supplier_details.name }}", context), " Energia ");
+  assertEquals(renderTemplate("{{ gas.gprn }}", context), "1234567");
+  assertEquals(renderTemplate("{{ gas.account_number ?? electricity.account_number }}", context), "ACC-778899");
+  assertEquals(renderTemplate("{{ broadband.account_number ?? 'none' }}", context), "none");
+  assertEquals(renderTemplate("{{ 42 }}-{{ \"it's\" }}-{{ 'a\\'b' }}", context), "42-it's-a'b");
+  assertEquals(renderTemplate("Customer {{customer.customer_name}} on {{ file_path }}", context), "Customer Mary Murphy on bills/bill.pdf");
+});
+
+Deno.test("transforms chain left to right", () => {
+  assertEquals(renderTemplate("{{ electricity.meter_details.mprn | digits() }}", context), "10305037936");
+  assertEquals(renderTemplate("{{ electricity.meter_details.dg | upper() }}", context), "DG1");
+  assertEquals(renderTemplate("{{ electricity.meter_details.mcc | prefix('MCC') | lower() }}", context), "mcc12");
+  assertEquals(renderTemplate("{{ 'MCC12' | prefix('mcc') }}", context), "MCC12");
+  assertEquals(renderTemplate("{{ 'INV' | suffix('-1') | suffix('-1') }}", context), "INV-1");
+  assertEquals(renderTemplate("{{ electricity.supplier_details.name | trim() }}", context), "Energia");
+  assertEquals(renderTemplate("{{ '€1,234.50' | number() }}", context), "1234.5");
+  assertEquals(renderTemplate("{{ 'n/a' | number() }}", context), "");
+  assertEquals(renderTemplate("{{ 'a-b-c' | replace('-', '/') }}", context), "a/b/c");
+  assertEquals(renderTemplate("{{ gas.account_number | default('unknown') }}", context), "unknown");
+  // Empty values are never prefixed, so the fallback still applies
+  assertEquals(renderTemplate("{{ gas.account_number | prefix('ACC') ?? 'none' }}", context), "none");
+});
+
+Deno.test("malformed expressions are reported with their position", () => {
+  assertEquals(validateTemplate("{{ phone }} and {{ gas.gprn | upper() }}"), null);
+  assertEquals(validateTemplate("{{ 'open }}"), "Unterminated string literal (at position 1)");
+  assertEquals(validateTemplate("{{ phone | }}"), "Expected a transform name after '|' (at position 9)");
+  assertEquals(validateTemplate("{{ phone | upper }}"), "Expected '(' (at position 15)");
+  assertEquals(validateTemplate("{{ phone | upper('a' }}"), "Expected ')' (at position 19)");
+  assertEquals(validateTemplate("{{ phone | prefix(gas.gprn) }}"), "Transform arguments must be string or number literals (at position 16)");
+  assertEquals(validateTemplate("{{ phone gas }}"), "Unexpected token (at position 7)");
+  assertEquals(validateTemplate("{{ phone ; }}"), "Unexpected character ';' (at position 7)");
+});
+
+Deno.test("only the listed transforms are accepted, not inherited object keys", () => {
+  assertEquals(validateTemplate("{{ phone | shout() }}"), "Unknown transform 'shout' (at position 9)");
+  assertEquals(validateTemplate("{{ phone | toString() }}"), "Unknown transform 'toString' (at position 9)");
+  assertEquals(validateTemplate("{{ phone | constructor() }}"), "Unknown transform 'constructor' (at position 9)");
+  assertEquals(validateTemplate("{{ phone | hasOwnProperty('x') }}"), "Unknown transform 'hasOwnProperty' (at position 9)");
+});
+
+Deno.test("a malformed field renders empty without failing the others", () => {
+  const { payload, errors } = renderParameters(
+    { phone: "{{ phone }}", mprn: "{{ electricity.meter_details.mprn | valueOf() }}", active: true },
+    context,
+  );
+
+  assertEquals(payload, { phone: "0871234567", mprn: "", active: "true" });
+  assertEquals(errors, [{ key: "mprn", message: "Unknown transform 'valueOf' (at position 34)" }]);
+});
+
+Deno.test("the date transform reformats any date the bill parser reads", () => {
+  const date = (value: string, format?: string) =>
+    renderTemplate(`{{ '${value}' | date(${format === undefined ? "" : `'${format}'`}) }}`, context);
+
+  assertEquals(date("13 Jan 2025"), "2025-01-13");
+  assertEquals(date("2025-01-13", "DD/MM/YYYY"), "13/01/2025");
+  assertEquals(date("13/01/25", "DD MMM YY"), "13 Jan 25");
+  assertEquals(date("January 13th, 2025", "MM-DD"), "01-13");
+  assertEquals(date("0000-00-00"), "");
+  assertEquals(date("31/02/2025"), "");
+  assertEquals(date("soon"), "");
+});
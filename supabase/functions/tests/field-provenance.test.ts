@@ -0,0 +1,55 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { ParsedBill } from "../_shared/bill-schema.ts";
+import { extractFieldSources, sourceMatchesValue } from "../_shared/field-provenance.ts";
+
+const MPRN_PATH = "bills.electricity[0].electricity_details.meter_details.mprn";
+const DG_PATH = "bills.electricity[0].electricity_details.meter_details.dg";
+
+const bill = (fieldSources: unknown[]) => ({
+  field_sources: fieldSources,
+  bills: {
+    cus_details: [],
+    electricity: [{ electricity_details: { meter_details: { mprn: "10305037936", dg: "DG1" } } }],
+    gas: [],
+    broadband: [],
+  },
+}) as unknown as ParsedBill;
+
+Deno.test("input page indexes map to the uploaded document's page numbers", () => {
+  const data = bill([{ field: MPRN_PATH, page: 1, bbox: { x: 0.1, y: 0.1, width: 0.2, height: 0.05 }, text: "10305037936" }]);
+
+  const [source] = extractFieldSources(data, { inputPageNumbers: [1, 3] });
+
+  assertEquals(source.page_number, 3);
+  assertEquals("field_sources" in data, false);
+});
+
+Deno.test("boxes on a 0-1000 grid are scaled to fractions and impossible boxes dropped", () => {
+  const data = bill([
+    { field: MPRN_PATH, page: 0, bbox: { x: 100, y: 250, width: 300, height: 50 }, text: "10305037936" },
+    { field: DG_PATH, page: 0, bbox: { x: 0.9, y: 0.5, width: 0.5, height: 0.1 }, text: "DG1" },
+  ]);
+
+  const [mprn, dg] = extractFieldSources(data, { inputPageNumbers: null });
+
+  assertEquals(mprn.bbox, { x: 0.1, y: 0.25, width: 0.3, height: 0.05 });
+  assertEquals(dg.bbox, null);
+});
+
+Deno.test("sources for pages the model never saw, or for values it did not return, are dropped", () => {
+  const data = bill([
+    { field: MPRN_PATH, page: 4, text: "10305037936" },
+    { field: "bills.gas[0].gas_details.meter_details.gprn", page: 0, text: "1234567" },
+  ]);
+
+  assertEquals(extractFieldSources(data, { inputPageNumbers: [1] }), []);
+});
+
+Deno.test("printed text is compared with the parsed value", () => {
+  assertEquals(sourceMatchesValue("MPRN: 1030 5037 936", "10305037936"), true);
+  assertEquals(sourceMatchesValue("MPRN: 1030 5037 963", "10305037936"), false);
+  assertEquals(sourceMatchesValue("DG 1", "DG1"), true);
+  assertEquals(sourceMatchesValue("Total due €1,182.40", 1182.4), true);
+  assertEquals(sourceMatchesValue("Bill period ends 11 Mar 2025", "2025-03-11"), false);
+  assertEquals(sourceMatchesValue("11 Mar 2025", "2025-03-11"), true);
+});
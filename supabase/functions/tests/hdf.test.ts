@@ -0,0 +1,57 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { HdfFormatError, hdfToParsedBill, isHdfExport, parseHdf, touBand } from "../_shared/hdf.ts";
+
+const HEADER = "MPRN,Meter Serial Number,Read Value,Read Type,Read Date and End Time";
+
+const hdf = (...rows: string[]) => [HEADER, ...rows].join("\n");
+
+Deno.test("HDF exports are recognised by their header row only", () => {
+  assertEquals(isHdfExport(`\uFEFF${HEADER}\r\n`), true);
+  assertEquals(isHdfExport(`"mprn","meter serial number","read value","read type","read date and end time"`), true);
+  assertEquals(isHdfExport("MPRN,Account,Read Date,Day kWh\n10305037936,ACC-1,2025-03-11,412"), false);
+  assertThrows(() => parseHdf("MPRN,Account\n"), HdfFormatError);
+});
+
+Deno.test("intervals are banded by their start time, so the one ending at midnight is night usage of the previous day", () => {
+  assertEquals(touBand(7 * 60 + 30), "night");
+  assertEquals(touBand(8 * 60), "day");
+  assertEquals(touBand(17 * 60), "peak");
+  assertEquals(touBand(19 * 60), "day");
+  assertEquals(touBand(23 * 60), "night");
+
+  const { meters } = parseHdf(hdf(
+    "10305037936,24591,0.5,Active Import Interval (kWh),31-12-2024 00:00",
+    "10305037936,24591,0.25,Active Import Interval (kWh),01-01-2025 00:00",
+  ));
+
+  assertEquals(meters[0].daily.map((day) => [day.date, day.night_kwh]), [["2024-12-30", 0.5], ["2024-12-31", 0.25]]);
+  assertEquals(meters[0].intervals[0].end, "2024-12-31T00:00");
+});
+
+Deno.test("kW demand reads are halved, export kept apart and register reads skipped", () => {
+  const result = parseHdf(hdf(
+    "10305037936,24591,2.000,Active Import Interval (kW),11-03-2025 12:00",
+    "10305037936,24591,1.000,Active Export Interval (kW),11-03-2025 12:00",
+    "10305037936,24591,5321.000,Active Import Register (kWh),11-03-2025 00:00",
+  ));
+
+  assertEquals(result.skipped_rows, 1);
+  assertEquals(result.skipped_read_types, ["Active Import Register (kWh)"]);
+  assertEquals(result.meters[0].intervals, [{ end: "2025-03-11T12:00", import_kwh: 1, export_kwh: 0.5 }]);
+  assertEquals(result.meters[0].totals, { import_kwh: 1, export_kwh: 0.5, day_kwh: 1, night_kwh: 0, peak_kwh: 0 });
+});
+
+Deno.test("each MPRN becomes its own electricity bill with monthly usage rows", () => {
+  const parsed = hdfToParsedBill(parseHdf(hdf(
+    "10305037936,24591,0.4,Active Import Interval (kWh),28-02-2025 10:00",
+    "10305037936,24591,0.6,Active Import Interval (kWh),01-03-2025 18:30",
+    "10006002900,88812,1.1,Active Import Interval (kWh),01-03-2025 02:00",
+  )));
+
+  assertEquals(parsed.bills.electricity.map((bill) => bill.electricity_details?.meter_details?.mprn), ["10305037936", "10006002900"]);
+  assertEquals(parsed.bills.electricity[0].charges_and_usage?.detailed_kWh_usage, [
+    { start_read_date: "2025-02-28", end_read_date: "2025-02-28", day_kWh: 0.4, night_kWh: 0, peak_kWh: 0 },
+    { start_read_date: "2025-03-01", end_read_date: "2025-03-01", day_kWh: 0, night_kWh: 0, peak_kWh: 0.6 },
+  ]);
+  assertEquals(parsed.bills.electricity[1].supplier_details?.billing_period?.days_count, 1);
+});
@@ -0,0 +1,87 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { ParsedBill } from "../_shared/bill-schema.ts";
+import { analyzeParsedBill } from "../_shared/bill-pipeline.ts";
+import { extractDocumentText } from "../_shared/document-text.ts";
+import { CROSS_CHECK_PENALTIES, crossCheckIdentifiers, crossCheckPenalty, scanIdentifiers } from "../_shared/identifier-scan.ts";
+
+const billText = [
+  "Bord Gáis Energy  Account No: ACC-778899",
+  "MPRN 10 305 037 936   MCC: 1   DG1",
+  "GPRN: 123 4567",
+  "Meter serial 24591003 read 20411 on 11/03/2025",
+].join("\n");
+
+const electricityBill = (mprn: string, mcc = "MCC01") => ({
+  bills: {
+    electricity: [{ electricity_details: { account_number: "ACC-778899", meter_details: { mprn, mcc } } }],
+    gas: [{ gas_details: { account_number: "ACC-778899", meter_details: { gprn: "1234567" } } }],
+  },
+});
+
+Deno.test("MPRN, GPRN, MCC and account numbers are found in bill text", () => {
+  assertEquals(scanIdentifiers(billText), {
+    mprns: ["10305037936"],
+    gprns: ["1234567"],
+    mccs: ["MCC01"],
+    account_numbers: ["ACC778899"],
+  });
+  assertEquals(scanIdentifiers("MPRN: 10-305-037-936, again 10305037936").mprns, ["10305037936"]);
+  // Unlabelled 7-digit numbers are not taken as GPRNs, nor longer digit runs as MPRNs
+  assertEquals(scanIdentifiers("Invoice 1234567 ref 1030503793612").gprns, []);
+  assertEquals(scanIdentifiers("Invoice 1234567 ref 1030503793612").mprns, []);
+  assertEquals(scanIdentifiers("MCC12 and mcc 03").mccs, ["MCC12", "MCC03"]);
+});
+
+Deno.test("identifiers present in the text pass the cross-check despite different spacing", () => {
+  const checks = crossCheckIdentifiers(electricityBill("10305037936"), billText);
+
+  assertEquals(checks.map((check) => [check.field, check.found]), [
+    ["mprn", true],
+    ["mcc", true],
+    ["account_number", true],
+    ["gprn", true],
+    ["account_number", true],
+  ]);
+  assertEquals(crossCheckPenalty(checks), 0);
+});
+
+Deno.test("a model identifier missing from the text is flagged", () => {
+  // The meter serial number read as an MPRN, and a different MCC
+  const checks = crossCheckIdentifiers(electricityBill("24591003000", "MCC12"), billText);
+
+  assertEquals(checks.filter((check) => !check.found), [
+    { field: "mprn", path: "bills.electricity[0].electricity_details.meter_details.mprn", value: "24591003000", found: false },
+    { field: "mcc", path: "bills.electricity[0].electricity_details.meter_details.mcc", value: "MCC12", found: false },
+  ]);
+  assertEquals(crossCheckPenalty(checks), CROSS_CHECK_PENALTIES.mprn + CROSS_CHECK_PENALTIES.mcc);
+});
+
+Deno.test("each missing identifier costs its own penalty", () => {
+  assertEquals(CROSS_CHECK_PENALTIES, { mprn: 25, gprn: 20, mcc: 5, account_number: 10 });
+
+  const checks = crossCheckIdentifiers(electricityBill("10305037936"), "Nothing useful on this page");
+  assertEquals(checks.every((check) => !check.found), true);
+  assertEquals(crossCheckPenalty(checks), 25 + 5 + 10 + 20 + 10);
+  assertEquals(crossCheckPenalty([]), 0);
+});
+
+Deno.test("without a text layer nothing is cross-checked or penalised", async () => {
+  const documentText = await extractDocumentText({
+    file: null,
+    isPdf: false,
+    imageUrls: ["https://example.invalid/bill.png"],
+    ocr: null,
+  });
+  assertEquals(documentText, { source: "none", text: "" });
+
+  const analyze = (text: typeof documentText) => {
+    const parsed: ParsedBill = { bills: { cus_details: [], broadband: [], ...electricityBill("10305037936").bills } };
+    return analyzeParsedBill(parsed, { coercions: [], documentText: text, isSpreadsheet: false });
+  };
+  const unchecked = analyze(documentText);
+  const unmatched = analyze({ source: "ocr", text: "MPRN 10 999 999 999  MCC01  Account No: ACC-778899  GPRN 1234567" });
+
+  assertEquals(unchecked.identifierCrossChecks, []);
+  assertEquals(unmatched.identifierCrossChecks.filter((check) => !check.found).map((check) => check.field), ["mprn"]);
+  assertEquals(unchecked.confidenceScore - unmatched.confidenceScore, CROSS_CHECK_PENALTIES.mprn);
+});
@@ -0,0 +1,61 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  checkBillIdentifiers,
+  normalizeDg,
+  normalizeGprn,
+  normalizeMcc,
+  normalizeMprn,
+  servicesWithCriticalErrors,
+} from "../_shared/identifiers.ts";
+
+Deno.test("MPRN and GPRN lose their spaces and dashes", () => {
+  assertEquals(normalizeMprn("10 305 037 936"), "10305037936");
+  assertEquals(normalizeMprn("10-305-037-936"), "10305037936");
+  assertEquals(normalizeGprn(" 123 4567 "), "1234567");
+  assertEquals(normalizeGprn("123-4567"), "1234567");
+});
+
+Deno.test("DG and MCC codes are prefixed and padded", () => {
+  const dg: Array<[string, string]> = [["1", "DG1"], ["dg 1", "DG1"], ["DG01", "DG1"], [" dg10 ", "DG10"], ["urban", "URBAN"]];
+  for (const [input, expected] of dg) assertEquals(normalizeDg(input), expected, input);
+
+  const mcc: Array<[string, string]> = [["12", "MCC12"], ["mcc 12", "MCC12"], ["MC12", "MCC12"], ["MCC1", "MCC01"], ["1", "MCC01"], ["smart", "SMART"]];
+  for (const [input, expected] of mcc) assertEquals(normalizeMcc(input), expected, input);
+});
+
+Deno.test("identifiers are normalised in place and malformed ones reported", () => {
+  const parsed = {
+    bills: {
+      electricity: [{ electricity_details: { meter_details: { mprn: "10 305 037 936", dg: "dg 1", mcc: "12", profile: "01" } } }],
+      gas: [{ gas_details: { meter_details: { gprn: "123 456" } } }],
+    },
+  };
+
+  const errors = checkBillIdentifiers(parsed);
+
+  assertEquals(parsed.bills.electricity[0].electricity_details.meter_details, { mprn: "10305037936", dg: "DG1", mcc: "MCC12", profile: "01" });
+  assertEquals(errors.map((error) => [error.path, error.code, error.severity]), [
+    ["bills.gas[0].gas_details.meter_details.gprn", "invalid_format", "critical"],
+  ]);
+  assertEquals(servicesWithCriticalErrors(errors), ["gas"]);
+});
+
+Deno.test("each identifier rule has its own error", () => {
+  const errors = checkBillIdentifiers({
+    bills: {
+      electricity: [{ electricity_details: { meter_details: { mprn: "20305037936", dg: "DG11", mcc: "MCC99", profile: "abc" } } }],
+      gas: [{ gas_details: { meter_details: { gprn: "0000-00-00" } } }],
+    },
+  });
+
+  assertEquals(errors.map((error) => [error.field, error.code, error.severity]), [
+    ["mprn", "invalid_prefix", "critical"],
+    ["dg", "unknown_code", "critical"],
+    ["mcc", "unknown_code", "critical"],
+    ["profile", "invalid_format", "warning"],
+  ]);
+  const [short] = checkBillIdentifiers({ bills: { electricity: [{ electricity_details: { meter_details: { mprn: "1030503793" } } }] } });
+  assertEquals(short.message, "MPRN must be exactly 11 digits, got '1030503793'");
+  // A profile warning alone never blocks dispatch
+  assertEquals(servicesWithCriticalErrors(errors.filter((error) => error.field === "profile")), []);
+});
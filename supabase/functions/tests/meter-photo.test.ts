@@ -0,0 +1,33 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { checkMeterPhoto } from "../_shared/meter-photo.ts";
+
+Deno.test("gas readings are rounded down to whole m³ and the unit is normalised", () => {
+  const check = checkMeterPhoto({ utility: "gas", read_value: 2331.35, unit: "m³" });
+
+  assertEquals(check.valid, true);
+  assertEquals(check.photo.read_value, 2331);
+  assertEquals(check.photo.unit, "m3");
+  assertEquals(check.corrections, ["rounded reading 2331.35 down to 2331"]);
+});
+
+Deno.test("a unit that does not match the utility rejects the reading", () => {
+  assertEquals(checkMeterPhoto({ utility: "gas", read_value: 39147, unit: "kWh" }).errors, ["gas meters read in m3, not kWh"]);
+  assertEquals(checkMeterPhoto({ read_value: 3359, unit: "kWh" }).photo.utility, "electricity");
+  assertEquals(checkMeterPhoto({ utility: "electricity", unit: "kWh" }).errors, ["no reading was read from the display"]);
+  assertEquals(checkMeterPhoto({ is_meter: false, utility: "gas", read_value: 12038 }).valid, false);
+});
+
+Deno.test("T1 and T2 registers are totalled unless the meter shows its I.8.0 total", () => {
+  const summed = checkMeterPhoto({
+    utility: "electricity",
+    registers: [{ register: "T1", read_value: 20411 }, { register: "T2", read_value: 9310 }],
+  });
+  assertEquals([summed.photo.read_value, summed.photo.register], [29721, "T1+T2"]);
+
+  const total = checkMeterPhoto({
+    utility: "electricity",
+    read_value: 29721,
+    registers: [{ register: "T1", read_value: 20411 }, { register: "T2", read_value: 9310 }, { register: "1.8.0", read_value: 29722 }],
+  });
+  assertEquals(total.errors, ["reading 29721 does not match the I.8.0 total 29722"]);
+});
@@ -0,0 +1,63 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { ElectricityBill, GasBill, ParsedBill } from "../_shared/bill-schema.ts";
+import { checkMeterReadings, readingPenalty } from "../_shared/meter-readings.ts";
+
+const bill = (sections: { electricity?: ElectricityBill[]; gas?: GasBill[] }): ParsedBill => ({
+  bills: { cus_details: [], electricity: [], gas: [], broadband: [], ...sections },
+});
+
+const electricity = (
+  readings: NonNullable<ElectricityBill["charges_and_usage"]>["meter_readings"],
+  usage: NonNullable<ElectricityBill["charges_and_usage"]>["detailed_kWh_usage"] = [],
+): ElectricityBill => ({
+  electricity_details: { meter_details: { mprn: "10305037936", dg: "DG1" } },
+  supplier_details: { billing_period: { start_date: "2025-01-12", end_date: "2025-03-11", days_count: 59 } },
+  charges_and_usage: { meter_readings: readings, detailed_kWh_usage: usage },
+});
+
+const codes = (parsed: ParsedBill) => checkMeterReadings(parsed).warnings.map((warning) => `${warning.register}:${warning.code}`);
+
+Deno.test("day and night consumption is computed per register and matched to the billed kWh", () => {
+  const result = checkMeterReadings(bill({
+    electricity: [electricity(
+      [
+        { date: "11/03/2025", day_reading: 24630, night_reading: 11208 },
+        { date: "12/01/2025", day_reading: 24218, night_reading: 11112 },
+      ],
+      [{ day_kWh: 412, night_kWh: 90 }],
+    )],
+  }));
+
+  assertEquals(result.consumption.map((entry) => [entry.register, entry.consumption, entry.days]), [["day", 412, 58], ["night", 96, 58]]);
+  assertEquals(result.warnings.map((warning) => warning.message), ["NIGHT register reads show 96 kWh used but 90 kWh were billed"]);
+  assertEquals(readingPenalty(result.warnings), 6);
+});
+
+Deno.test("a counter wrapping past 99999 is a rollover, a lost digit or a backwards read is flagged", () => {
+  assertEquals(codes(bill({ electricity: [electricity([{ date: "2025-01-12", day_reading: 99870 }, { date: "2025-03-11", day_reading: 230 }])] })), ["day:rollover"]);
+  assertEquals(checkMeterReadings(bill({ electricity: [electricity([{ date: "2025-01-12", day_reading: 99870 }, { date: "2025-03-11", day_reading: 230 }])] })).consumption[0].consumption, 360);
+  assertEquals(codes(bill({ electricity: [electricity([{ date: "2025-01-12", day_reading: 24218 }, { date: "2025-03-11", day_reading: 2463 }])] })), ["day:digit_mismatch"]);
+  assertEquals(codes(bill({ electricity: [electricity([{ date: "2025-01-12", day_reading: 24218 }, { date: "2025-03-11", day_reading: 24100 }])] })), ["day:negative_delta"]);
+  assertEquals(codes(bill({ electricity: [electricity([{ date: "2025-01-12", day_reading: 9950 }, { date: "2025-03-11", day_reading: 10320 }])] })), []);
+});
+
+Deno.test("domestic daily averages far above a household's use are implausible", () => {
+  assertEquals(codes(bill({ electricity: [electricity([{ date: "2025-01-12", day_reading: 10000 }, { date: "2025-03-11", day_reading: 19000 }])] })), [
+    "day:implausible_daily_average",
+  ]);
+});
+
+Deno.test("gas reads are checked against the billed m³ and the kWh conversion", () => {
+  const gas = (units_consumed: number, kWh_consumed: number): GasBill => ({
+    gas_details: { meter_details: { gprn: "1234567" } },
+    charges_and_usage: {
+      meter_readings: [{ date: "2025-01-12", reading: 2331 }, { date: "2025-03-11", reading: 2512 }],
+      units_consumed,
+      kWh_consumed,
+    },
+  });
+
+  assertEquals(codes(bill({ gas: [gas(181, 2038)] })), []);
+  assertEquals(codes(bill({ gas: [gas(118, 2038)] })), ["gas:billed_mismatch"]);
+  assertEquals(codes(bill({ gas: [gas(181, 181)] })), ["gas:billed_mismatch"]);
+});
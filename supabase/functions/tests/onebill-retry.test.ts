@@ -0,0 +1,108 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleRetryRequest } from "../onebill-retry/handler.ts";
+import { type FakeOneBill, type FakeSupabase, startFakeOneBill, startFakeSupabase } from "./fake-servers.ts";
+
+// onebill-retry against a fake api.onebill.ie: backoff timing, which statuses
+// are retried, and the file/phone handling for meter calls.
+
+type Fakes = { supabase: FakeSupabase; onebill: FakeOneBill };
+
+const FILE_BYTES = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 9, 8, 7]);
+
+async function withFakes(run: (fakes: Fakes) => Promise<void>) {
+  const fakes: Fakes = { supabase: startFakeSupabase(), onebill: startFakeOneBill() };
+  Deno.env.set("SUPABASE_URL", fakes.supabase.url);
+  Deno.env.set("ONEBILL_API_KEY", "test-onebill-key");
+  try {
+    await run(fakes);
+  } finally {
+    await Promise.all([fakes.supabase.close(), fakes.onebill.close()]);
+  }
+}
+
+async function retry(body: Record<string, unknown>) {
+  const response = await handleRetryRequest(new Request("http://localhost/onebill-retry", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+Deno.test("retries 5xx responses with exponential backoff", () =>
+  withFakes(async ({ onebill }) => {
+    onebill.respondWithStatuses(503, 503, 200);
+
+    const { body } = await retry({ type: "electricity", endpoint: `${onebill.url}/electricity`, payload: { mprn: "10305037936" } });
+
+    assertEquals(body.ok, true);
+    assertEquals(body.status, 200);
+    assertEquals(onebill.requests.length, 3);
+    const [first, second, third] = onebill.requests.map((request) => request.at);
+    assert(second - first >= 500, `first backoff was ${second - first}ms`);
+    assert(third - second >= 1000, `second backoff was ${third - second}ms`);
+    assertEquals(onebill.requests[2].authorization, "Bearer test-onebill-key");
+    assertEquals(onebill.requests[2].fields, { mprn: "10305037936" });
+  }));
+
+Deno.test("gives up after three failed attempts", () =>
+  withFakes(async ({ onebill }) => {
+    onebill.respondWithStatuses(502, 502, 502, 200);
+
+    const { status, body } = await retry({ type: "gas", endpoint: `${onebill.url}/gas` });
+
+    assertEquals(status, 200);
+    assertEquals(body.ok, false);
+    assertEquals(body.status, 502);
+    assertEquals(onebill.requests.length, 3);
+  }));
+
+Deno.test("retries 429 but not other 4xx responses", () =>
+  withFakes(async ({ onebill }) => {
+    onebill.respondWithStatuses(429, 200);
+    const rateLimited = await retry({ type: "electricity", endpoint: `${onebill.url}/electricity` });
+    assertEquals(rateLimited.body.ok, true);
+    assertEquals(onebill.requests.length, 2);
+
+    onebill.respondWithStatuses(400);
+    const rejected = await retry({ type: "electricity", endpoint: `${onebill.url}/electricity` });
+    assertEquals(rejected.body.ok, false);
+    assertEquals(rejected.body.status, 400);
+    assertEquals(onebill.requests.length, 3);
+  }));
+
+Deno.test("meter retry attaches the stored file and falls back to the body phone", () =>
+  withFakes(async ({ supabase, onebill }) => {
+    supabase.addFile("meters/photo.jpg", FILE_BYTES, "image/jpeg");
+
+    const { body } = await retry({
+      type: "meter",
+      endpoint: `${onebill.url}/meter`,
+      payload: { reading: "04521" },
+      phone: "0871234567",
+      file_path: "meters/photo.jpg",
+    });
+
+    assertEquals(body.ok, true);
+    assertEquals(onebill.requests.length, 1);
+    assertEquals(onebill.requests[0].fields, { reading: "04521", phone: "0871234567" });
+    assertEquals(onebill.requests[0].file?.name, "meters/photo.jpg");
+    assertEquals(onebill.requests[0].file?.type, "image/jpeg");
+    assertEquals(onebill.requests[0].file?.bytes, FILE_BYTES);
+  }));
+
+Deno.test("meter retry without a phone never reaches OneBill", () =>
+  withFakes(async ({ onebill }) => {
+    const { body } = await retry({ type: "meter", endpoint: `${onebill.url}/meter`, payload: {} });
+
+    assertEquals(body.ok, false);
+    assertEquals(body.error, "Phone is required for meter retry");
+    assertEquals(onebill.requests.length, 0);
+  }));
+
+Deno.test("rejects requests without an endpoint or type", async () => {
+  Deno.env.set("ONEBILL_API_KEY", "test-onebill-key");
+  const { status, body } = await retry({ type: "electricity" });
+  assertEquals(status, 400);
+  assertEquals(body.error, "Missing endpoint or type");
+});
@@ -0,0 +1,146 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleReviewRequest } from "../onebill-review/handler.ts";
+import { type FakeOneBill, type FakeSupabase, startFakeOneBill, startFakeSupabase } from "./fake-servers.ts";
+
+// onebill-review against the fake Supabase and api.onebill.ie: an operator
+// approving (optionally with corrections) or rejecting a parse held in needs_review.
+
+type Fakes = { supabase: FakeSupabase; onebill: FakeOneBill };
+
+const PHONE = "087 123 4567";
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4]);
+
+const heldBill = (mprn: string) => ({
+  bills: {
+    cus_details: [],
+    electricity: [{
+      electricity_details: { account_number: "ACC-778899", meter_details: { mprn, dg: "DG1", mcc: "MCC01" } },
+      supplier_details: { name: "Bord Gáis Energy" },
+    }],
+    gas: [],
+    broadband: [],
+  },
+});
+
+async function withFakes(run: (fakes: Fakes) => Promise<void>) {
+  const fakes: Fakes = { supabase: startFakeSupabase(), onebill: startFakeOneBill() };
+  Deno.env.set("SUPABASE_URL", fakes.supabase.url);
+  Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", "test-service-role-key");
+  Deno.env.set("ONEBILL_API_KEY", "test-onebill-key");
+
+  fakes.supabase.addFile("bills/held.png", PNG_BYTES, "image/png");
+  fakes.supabase.apiConfigs.push({
+    id: "config-electricity",
+    name: "OneBill electricity",
+    endpoint_url: `${fakes.onebill.url}/electricity`,
+    service_type: "electricity",
+    is_active: true,
+    parameters: { phone: "{{ phone }}", mprn: "{{ electricity.meter_details.mprn }}" },
+  });
+  // Held because the MPRN was misread (ten digits)
+  fakes.supabase.jobs.set("job-held", {
+    id: "job-held",
+    status: "needs_review",
+    phone: PHONE,
+    file_path: "bills/held.png",
+    image_url: null,
+    parsed_data: heldBill("1030503793"),
+    classification_details: { review_services: ["electricity"] },
+    validation_warnings: ["MPRN must be 11 digits"],
+    api_calls: [],
+  });
+
+  try {
+    await run(fakes);
+  } finally {
+    await Promise.all([fakes.supabase.close(), fakes.onebill.close()]);
+  }
+}
+
+async function review(body: Record<string, unknown>) {
+  const response = await handleReviewRequest(new Request("http://localhost/onebill-review", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+Deno.test("approving with corrected data dispatches the corrected bill", () =>
+  withFakes(async ({ supabase, onebill }) => {
+    const { status, body } = await review({
+      action: "approve",
+      job_id: "job-held",
+      parsed_data: heldBill("10305037936"),
+      note: " MPRN checked against the photo ",
+    });
+
+    assertEquals(status, 200);
+    assertEquals([body.ok, body.status], [true, "completed"]);
+    assertEquals(onebill.requests.length, 1);
+    assertEquals(onebill.requests[0].fields, { phone: "0871234567", mprn: "10305037936" });
+    assertEquals(onebill.requests[0].file?.name, "bills/held.png");
+
+    const job = supabase.jobs.get("job-held")!;
+    assertEquals([job.status, job.review_decision, job.review_note], ["completed", "approved", "MPRN checked against the photo"]);
+    assertEquals((job.parsed_data as ReturnType<typeof heldBill>).bills.electricity[0].electricity_details.meter_details.mprn, "10305037936");
+    assertEquals((job.api_calls as unknown[]).length, 1);
+  }));
+
+Deno.test("rejecting closes the job without dispatching", () =>
+  withFakes(async ({ supabase, onebill }) => {
+    const { status, body } = await review({ action: "reject", job_id: "job-held", note: "Not a bill" });
+
+    assertEquals(status, 200);
+    assertEquals(body.status, "rejected");
+    assertEquals(onebill.requests.length, 0);
+    const job = supabase.jobs.get("job-held")!;
+    assertEquals([job.status, job.review_decision, job.review_note], ["rejected", "rejected", "Not a bill"]);
+    assert(typeof job.completed_at === "string");
+  }));
+
+Deno.test("a job that is not held for review is refused", () =>
+  withFakes(async ({ supabase, onebill }) => {
+    supabase.jobs.get("job-held")!.status = "completed";
+
+    const { status, body } = await review({ action: "approve", job_id: "job-held" });
+
+    assertEquals(status, 409);
+    assertEquals(body.error, "Job is not awaiting review");
+    assertEquals(supabase.jobs.get("job-held")!.status, "completed");
+    assertEquals(onebill.requests.length, 0);
+    assertEquals((await review({ action: "reject", job_id: "job-missing" })).status, 409);
+  }));
+
+Deno.test("malformed corrected data is refused and the job stays held", () =>
+  withFakes(async ({ supabase, onebill }) => {
+    const { status, body } = await review({ action: "approve", job_id: "job-held", parsed_data: { bills: { electricity: "oops" } } });
+
+    assertEquals(status, 422);
+    assertEquals([body.error, body.code], ["Corrected data is malformed", "invalid_structure"]);
+    assertEquals(supabase.jobs.get("job-held")!.status, "needs_review");
+    assertEquals(onebill.requests.length, 0);
+  }));
+
+Deno.test("approving with malformed identifiers is refused and the job stays held", () =>
+  withFakes(async ({ supabase, onebill }) => {
+    const { status, body } = await review({ action: "approve", job_id: "job-held" });
+
+    assertEquals(status, 422);
+    assertEquals(body.error, "Correct the malformed identifiers before approving (electricity)");
+    assertEquals(body.identifier_errors[0].path, "bills.electricity[0].electricity_details.meter_details.mprn");
+    assertEquals(supabase.jobs.get("job-held")!.status, "needs_review");
+    assertEquals(onebill.requests.length, 0);
+  }));
+
+Deno.test("an unexpected failure after the claim puts the job back for review", () =>
+  withFakes(async ({ supabase, onebill }) => {
+    Object.assign(supabase.jobs.get("job-held")!, { file_path: null, parsed_data: heldBill("10305037936") });
+
+    const { status, body } = await review({ action: "approve", job_id: "job-held" });
+
+    assertEquals(status, 500);
+    assertEquals(body.error, "Job has no file to dispatch");
+    assertEquals(supabase.jobs.get("job-held")!.status, "needs_review");
+    assertEquals(onebill.requests.length, 0);
+  }));
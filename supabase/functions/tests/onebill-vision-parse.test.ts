@@ -0,0 +1,528 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import * as XLSX from "npm:xlsx@0.18.5";
+import { handleParseRequest } from "../onebill-vision-parse/handler.ts";
+import {
+  type FakeGateway,
+  type FakeOneBill,
+  type FakeSupabase,
+  startFakeGateway,
+  startFakeOneBill,
+  startFakeSupabase,
+} from "./fake-servers.ts";
+
+// End-to-end runs of onebill-vision-parse against local stand-ins for the AI
+// gateway, Supabase and api.onebill.ie:
+//
+//   deno test --allow-net --allow-env --allow-read --node-modules-dir=none supabase/functions/tests
+
+type Fakes = { gateway: FakeGateway; supabase: FakeSupabase; onebill: FakeOneBill };
+
+const PHONE = "087 123 4567";
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4]);
+
+async function withFakes(run: (fakes: Fakes) => Promise<void>) {
+  const fakes: Fakes = { gateway: startFakeGateway(), supabase: startFakeSupabase(), onebill: startFakeOneBill() };
+  Deno.env.set("SUPABASE_URL", fakes.supabase.url);
+  Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", "test-service-role-key");
+  Deno.env.set("ONEBILL_API_KEY", "test-onebill-key");
+  Deno.env.set("LOVABLE_API_KEY", "test-lovable-key");
+  Deno.env.set("LOVABLE_AI_GATEWAY_URL", fakes.gateway.endpoint);
+  for (const name of [
+    "VISION_PROVIDER",
+    "VISION_CONSENSUS",
+    "OCR_ENDPOINT_URL",
+    "REVIEW_MIN_CONFIDENCE",
+    "REVIEW_ON_IDENTIFIER_ERRORS",
+    "REVIEW_ON_DATE_WARNINGS",
+    "REVIEW_ON_RECONCILIATION",
+  ]) Deno.env.delete(name);
+  // The bills below are too thin to clear the default confidence threshold; gate tests set their own
+  Deno.env.set("REVIEW_MIN_CONFIDENCE", "off");
+
+  // One active config per service, each posting to its own path on the fake OneBill
+  for (const service of ["electricity", "gas", "meter"]) {
+    fakes.supabase.apiConfigs.push({
+      id: `config-${service}`,
+      name: `OneBill ${service}`,
+      endpoint_url: `${fakes.onebill.url}/${service}`,
+      service_type: service,
+      is_active: true,
+      parameters: service === "meter"
+        ? { phone: "{{ phone }}" }
+        : {
+          phone: "{{ phone }}",
+          mprn: "{{ electricity.meter_details.mprn }}",
+          dg: "{{ electricity.meter_details.dg | upper() }}",
+          gprn: "{{ gas.gprn }}",
+          account: "{{ electricity.account_number ?? gas.account_number }}",
+        },
+    });
+  }
+
+  try {
+    await run(fakes);
+  } finally {
+    await Promise.all([fakes.gateway.close(), fakes.supabase.close(), fakes.onebill.close()]);
+  }
+}
+
+async function parse(body: Record<string, unknown>) {
+  const response = await handleParseRequest(new Request("http://localhost/onebill-vision-parse", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ phone: PHONE, ...body }),
+  }));
+  return { status: response.status, body: await response.json() };
+}
+
+const billingPeriod = { start_date: "2025-01-12", end_date: "2025-03-11", days_count: 59 };
+
+const electricityBill = (supplier = "Bord Gáis Energy") => ({
+  electricity_details: {
+    invoice_number: "INV-1001",
+    account_number: "ACC-778899",
+    meter_details: { mprn: "10 305 037 936", dg: "dg1", mcc: "MCC01" },
+  },
+  supplier_details: { name: supplier, billing_period: billingPeriod },
+  financial_information: { total_due: 182.4 },
+});
+
+const gasBill = (fields: { invoice?: boolean; period?: boolean } = { invoice: true, period: true }) => ({
+  gas_details: {
+    ...(fields.invoice ? { invoice_number: "INV-2002" } : {}),
+    account_number: "ACC-445566",
+    meter_details: { gprn: "1234567" },
+  },
+  supplier_details: { name: "Bord Gáis Energy", ...(fields.period ? { billing_period: billingPeriod } : {}) },
+  financial_information: { total_due: 96.1 },
+});
+
+const bills = (sections: Record<string, unknown[]>) => ({
+  bills: { cus_details: [], electricity: [], gas: [], broadband: [], ...sections },
+});
+
+const paths = (fakes: Fakes) => fakes.onebill.requests.map((request) => request.path).sort();
+
+Deno.test("combined bill is dispatched to both the electricity and gas endpoints", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("bills/combined.png", PNG_BYTES, "image/png");
+    fakes.gateway.respondWith(bills({ electricity: [electricityBill()], gas: [gasBill()] }));
+
+    const { status, body } = await parse({ file_path: "bills/combined.png" });
+
+    assertEquals(status, 200);
+    assertEquals(body.ok, true);
+    assertEquals(body.services_detected, { electricity: true, gas: true, meter: false, broadband: false });
+    assertEquals(paths(fakes), ["/electricity", "/gas"]);
+    assertEquals(fakes.supabase.jobs.get(body.job_id)?.status, "completed");
+
+    // The gateway saw our key and the stored file's public URL
+    const gatewayRequest = fakes.gateway.requests[0];
+    assertEquals(gatewayRequest.authorization, "Bearer test-lovable-key");
+    assert(JSON.stringify(gatewayRequest.body).includes("/storage/v1/object/public/bills/bills/combined.png"));
+  }));
+
+Deno.test("multipart payload carries the original file and the rendered fields", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("bills/combined.png", PNG_BYTES, "image/png");
+    fakes.gateway.respondWith(bills({ electricity: [electricityBill()], gas: [gasBill()] }));
+
+    await parse({ file_path: "bills/combined.png" });
+
+    const electricity = fakes.onebill.requests.find((request) => request.path === "/electricity")!;
+    assertEquals(electricity.authorization, "Bearer test-onebill-key");
+    assertEquals(electricity.file?.name, "bills/combined.png");
+    assertEquals(electricity.file?.type, "image/png");
+    assertEquals(electricity.file?.bytes, PNG_BYTES);
+    // Identifiers are normalised before rendering; phone whitespace is stripped
+    assertEquals(electricity.fields, {
+      phone: "0871234567",
+      mprn: "10305037936",
+      dg: "DG1",
+      gprn: "1234567",
+      account: "ACC-778899",
+    });
+
+    const gas = fakes.onebill.requests.find((request) => request.path === "/gas")!;
+    assertEquals(gas.file?.bytes, PNG_BYTES);
+    assertEquals(gas.fields.gprn, "1234567");
+  }));
+
+Deno.test("meter photo with only an MPRN goes to the meter endpoint", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("meters/photo.jpg", PNG_BYTES, "image/jpeg");
+    fakes.gateway.respondWith(bills({ electricity: [{ electricity_details: { meter_details: { mprn: "10305037936" } } }] }));
+
+    const { status, body } = await parse({ file_path: "meters/photo.jpg" });
+
+    assertEquals(status, 200);
+    assertEquals(body.ok, true);
+    assertEquals(body.services_detected.meter, true);
+    assertEquals(body.parsed_data.bills.electricity, []);
+    assert(body.validation_warnings.includes("Clearing electricity data - has identifier but zero billing fields (likely meter photo)"));
+    assertEquals(paths(fakes), ["/meter"]);
+    assertEquals(fakes.onebill.requests[0].fields, { phone: "0871234567" });
+    assertEquals(fakes.onebill.requests[0].file?.type, "image/jpeg");
+  }));
+
+Deno.test("a meter photo reading is validated and sent to the meter endpoint", () =>
+  withFakes(async (fakes) => {
+    const meterConfig = fakes.supabase.apiConfigs.find((config) => config.service_type === "meter")!;
+    meterConfig.parameters = { phone: "{{ phone }}", read_value: "{{ meter.read_value }}", unit: "{{ meter.unit }}", register: "{{ meter.register }}" };
+    fakes.supabase.addFile("meters/dial.jpg", PNG_BYTES, "image/jpeg");
+    fakes.gateway.respondWith({
+      bills: {
+        ...bills({}).bills,
+        meter_photo: {
+          is_meter: true,
+          utility: "electricity",
+          read_value: 20411,
+          unit: "KWH",
+          registers: [{ register: "t1", read_value: 20411 }, { register: "T2", read_value: "09310" }],
+          serial_number: "SM-4471",
+        },
+      },
+    });
+
+    const { status, body } = await parse({ file_path: "meters/dial.jpg" });
+
+    assertEquals(status, 200);
+    assertEquals(paths(fakes), ["/meter"]);
+    assertEquals(fakes.onebill.requests[0].fields, { phone: "0871234567", read_value: "29721", unit: "kWh", register: "T1+T2" });
+    assertEquals(body.classification_details.meter_photo_check.valid, true);
+    assert(body.validation_warnings.includes("Meter reading: reading 20411 replaced by the T1+T2 total 29721"));
+  }));
+
+Deno.test("CSV with an MPRN and account number is sent to electricity despite thin billing data", () =>
+  withFakes(async (fakes) => {
+    const csv = "MPRN,Account,Read Date,Day kWh\n10305037936,ACC-778899,2025-03-11,412\n";
+    fakes.supabase.addFile("exports/usage.csv", new TextEncoder().encode(csv), "text/csv");
+    fakes.gateway.respondWith(bills({
+      electricity: [{ electricity_details: { account_number: "ACC-778899", meter_details: { mprn: "10305037936" } } }],
+    }));
+
+    const { status, body } = await parse({ file_path: "exports/usage.csv" });
+
+    assertEquals(status, 200);
+    assertEquals(body.input_type, "csv");
+    // Too few billing indicators for a bill, but spreadsheets are never meter photos
+    assertEquals(body.services_detected.electricity, false);
+    assertEquals(paths(fakes), ["/electricity"]);
+    assertEquals(fakes.onebill.requests[0].file?.type, "text/csv");
+
+    // The CSV reaches the model as a table rather than as an image URL
+    const prompt = JSON.stringify(fakes.gateway.requests[0].body);
+    assert(prompt.includes("MPRN | Account | Read Date | Day kWh"));
+    assert(prompt.includes("10305037936 | ACC-778899 | 2025-03-11 | 412"));
+    assert(!prompt.includes("image_url"));
+  }));
+
+Deno.test("Excel workbooks are read sheet by sheet instead of as zip bytes", () =>
+  withFakes(async (fakes) => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ["Electricity usage export"],
+      ["MPRN", "10305037936"],
+      ["Account", "ACC-778899"],
+      ["Read Date", "Day kWh", "Night kWh"],
+      [new Date(2025, 2, 11), 412, 96],
+    ], { cellDates: true });
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, "Usage");
+    const bytes = new Uint8Array(XLSX.write(workbook, { type: "array", bookType: "xlsx" }));
+    fakes.supabase.addFile("exports/usage.xlsx", bytes, "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    fakes.gateway.respondWith(bills({
+      electricity: [{ electricity_details: { account_number: "ACC-778899", meter_details: { mprn: "10305037936" } } }],
+    }));
+
+    const { status, body } = await parse({ file_path: "exports/usage.xlsx" });
+
+    assertEquals(status, 200);
+    assertEquals(body.input_type, "excel");
+    const prompt = JSON.stringify(fakes.gateway.requests[0].body);
+    assert(prompt.includes("MPRN | 10305037936"));
+    assert(prompt.includes("Read Date | Day kWh | Night kWh"));
+    assert(prompt.includes("2025-03-11 | 412 | 96"));
+    assert(!prompt.includes("PK\\u0003\\u0004"));
+    // The identifier cross-check reads the converted text too
+    assertEquals(body.classification_details.text_source, "spreadsheet");
+    assertEquals(body.classification_details.identifier_cross_checks[0]?.found, true);
+  }));
+
+Deno.test("ESB Networks HDF exports are imported without a model call", () =>
+  withFakes(async (fakes) => {
+    const hdf = [
+      "MPRN,Meter Serial Number,Read Value,Read Type,Read Date and End Time",
+      "10305037936,000000000024591,1.200000,Active Import Interval (kW),11-03-2025 18:00",
+      "10305037936,000000000024591,0.400000,Active Import Interval (kW),11-03-2025 23:30",
+      "10305037936,000000000024591,0.600000,Active Export Interval (kW),11-03-2025 13:00",
+      "10305037936,000000000024591,1.000000,Active Import Interval (kW),12-03-2025 12:00",
+      "",
+    ].join("\r\n");
+    fakes.supabase.addFile("exports/hdf.csv", new TextEncoder().encode(hdf), "text/csv");
+
+    const { status, body } = await parse({ file_path: "exports/hdf.csv" });
+
+    assertEquals(status, 200);
+    assertEquals(body.ok, true);
+    assertEquals(body.input_type, "hdf");
+    assertEquals(body.confidence_score, 100);
+    assertEquals(fakes.gateway.requests.length, 0);
+
+    const [bill] = body.parsed_data.bills.electricity;
+    assertEquals(bill.electricity_details.meter_details.mprn, "10305037936");
+    assertEquals(bill.supplier_details.billing_period, { start_date: "2025-03-11", end_date: "2025-03-12", days_count: 2 });
+    assertEquals(bill.charges_and_usage.detailed_kWh_usage, [
+      { start_read_date: "2025-03-11", end_read_date: "2025-03-12", day_kWh: 0.5, night_kWh: 0.2, peak_kWh: 0.6 },
+    ]);
+    assertEquals(paths(fakes), ["/electricity"]);
+    assertEquals(fakes.onebill.requests[0].fields.mprn, "10305037936");
+
+    const job = fakes.supabase.jobs.get(body.job_id)!;
+    assertEquals(job.status, "completed");
+    assertEquals(job.input_type, "hdf");
+    assertEquals((job.interval_data as Array<{ intervals: unknown[] }>)[0].intervals.length, 4);
+    assertEquals(body.classification_details.hdf.meters[0].totals.export_kwh, 0.3);
+  }));
+
+Deno.test("rule 1: a thin gas section next to a full electricity bill is cleared", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("bills/electric.png", PNG_BYTES, "image/png");
+    // Gas has only a GPRN and an account number (2 data points)
+    const thinGas = { gas_details: { account_number: "ACC-445566", meter_details: { gprn: "1234567" } } };
+    fakes.gateway.respondWith(bills({ electricity: [electricityBill()], gas: [thinGas] }));
+
+    const { body } = await parse({ file_path: "bills/electric.png" });
+
+    assertEquals(body.parsed_data.bills.gas, []);
+    assert(body.validation_warnings.includes("Clearing gas data - electricity has substantial data but gas appears hallucinated"));
+    assertEquals(paths(fakes), ["/electricity"]);
+  }));
+
+Deno.test("rule 2: gas data on an Electric Ireland bill is cleared", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("bills/ei.png", PNG_BYTES, "image/png");
+    // Three gas data points: enough to survive rule 1, not the provider check
+    fakes.gateway.respondWith(bills({
+      electricity: [electricityBill("Electric Ireland")],
+      gas: [gasBill({ invoice: false, period: false })],
+    }));
+
+    const { body } = await parse({ file_path: "bills/ei.png" });
+
+    assertEquals(body.parsed_data.bills.gas, []);
+    assert(body.validation_warnings.includes("Clearing gas data - provider 'electric ireland' is electricity-only"));
+    assertEquals(body.services_detected.gas, false);
+    assertEquals(paths(fakes), ["/electricity"]);
+  }));
+
+Deno.test("with no review settings a low-confidence parse is held", () =>
+  withFakes(async (fakes) => {
+    Deno.env.delete("REVIEW_MIN_CONFIDENCE");
+    fakes.supabase.addFile("bills/combined.png", PNG_BYTES, "image/png");
+    fakes.gateway.respondWith(bills({ electricity: [electricityBill()], gas: [gasBill()] }));
+
+    const { status, body } = await parse({ file_path: "bills/combined.png" });
+
+    assertEquals(status, 200);
+    assert(body.confidence_score < 70);
+    assertEquals(body.needs_review, true);
+    assertEquals(body.classification_details.review_reasons, [{
+      code: "low_confidence",
+      message: `Confidence ${body.confidence_score}% is below the review threshold of 70%`,
+    }]);
+    assertEquals(fakes.onebill.requests.length, 0);
+    assertEquals(fakes.supabase.jobs.get(body.job_id)?.status, "needs_review");
+  }));
+
+Deno.test("review checks can be turned off", () =>
+  withFakes(async (fakes) => {
+    Deno.env.set("REVIEW_ON_IDENTIFIER_ERRORS", "off");
+    fakes.supabase.addFile("bills/combined.png", PNG_BYTES, "image/png");
+    const badGprn = { ...gasBill(), gas_details: { ...gasBill().gas_details, meter_details: { gprn: "12345" } } };
+    fakes.gateway.respondWith(bills({ electricity: [electricityBill()], gas: [badGprn] }));
+
+    const { body } = await parse({ file_path: "bills/combined.png" });
+
+    // Not held; the malformed GPRN still keeps the gas bill from being dispatched
+    assertEquals(body.needs_review, false);
+    assertEquals(paths(fakes), ["/electricity"]);
+  }));
+
+Deno.test("review gate holds low-confidence and malformed parses instead of dispatching", () =>
+  withFakes(async (fakes) => {
+    Deno.env.set("REVIEW_MIN_CONFIDENCE", "101");
+    fakes.supabase.addFile("bills/combined.png", PNG_BYTES, "image/png");
+    const badGprn = { ...gasBill(), gas_details: { ...gasBill().gas_details, meter_details: { gprn: "12345" } } };
+    fakes.gateway.respondWith(bills({ electricity: [electricityBill()], gas: [badGprn] }));
+
+    const { status, body } = await parse({ file_path: "bills/combined.png" });
+
+    assertEquals(status, 200);
+    assertEquals(body.ok, false);
+    assertEquals(body.needs_review, true);
+    // The gas service blocked for its malformed GPRN is held too, so it can be corrected
+    assertEquals(body.classification_details.review_services, ["electricity", "gas"]);
+    assertEquals(
+      body.classification_details.review_reasons.map((reason: { code: string }) => reason.code),
+      ["low_confidence", "identifier_errors"],
+    );
+    assertEquals(fakes.onebill.requests.length, 0);
+    assertEquals(fakes.supabase.jobs.get(body.job_id)?.status, "needs_review");
+  }));
+
+Deno.test("contract end dates of dispatched services are kept for renewal reminders", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("bills/contract.jpg", PNG_BYTES, "image/jpeg");
+    const bill = electricityBill();
+    fakes.gateway.respondWith(bills({
+      electricity: [{ ...bill, electricity_details: { ...bill.electricity_details, contract_end_date: "30/09/2025" } }],
+    }));
+
+    const { body } = await parse({ file_path: "bills/contract.jpg" });
+
+    assertEquals(body.needs_review, false);
+    assertEquals(fakes.supabase.contracts.map((contract) => [contract.service, contract.premises_id, contract.contract_end_date, contract.source_job_id]), [
+      ["electricity", "10305037936", "2025-09-30", body.job_id],
+    ]);
+  }));
+
+Deno.test("a dispatched broadband contract is recorded once", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("bills/broadband.jpg", PNG_BYTES, "image/jpeg");
+    fakes.gateway.respondWith(bills({
+      electricity: [electricityBill()],
+      broadband: [{
+        broadband_details: { account_number: "BB-5501" },
+        package_information: { contract_end_date: "2025-12-31" },
+        supplier_details: { name: "Eir" },
+      }],
+    }));
+
+    const { body } = await parse({ file_path: "bills/broadband.jpg" });
+
+    assertEquals(body.needs_review, false);
+    assertEquals(fakes.supabase.contracts.map((contract) => [contract.service, contract.premises_id, contract.contract_end_date]), [
+      ["broadband", "BB-5501", "2025-12-31"],
+    ]);
+  }));
+
+Deno.test("a bill whose line items do not add up to its total is held for review", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("bills/arithmetic.jpg", PNG_BYTES, "image/jpeg");
+    const mismatched = bills({
+      electricity: [{
+        ...electricityBill(),
+        charges_and_usage: {
+          detailed_kWh_usage: [{ day_kWh: 4120 }],
+          unit_rates: { day: 30, rate_currency: "cent" },
+          vat_rate: 9,
+        },
+        financial_information: { total_due: 134.72 },
+      }],
+    });
+    const warning = "Electricity charges add up to €1347.24 but the bill total is €134.72 (-€1212.52)";
+
+    fakes.gateway.respondWith(mismatched);
+    const { body } = await parse({ file_path: "bills/arithmetic.jpg" });
+
+    assertEquals(body.needs_review, true);
+    assertEquals(fakes.onebill.requests.length, 0);
+    assertEquals(fakes.supabase.jobs.get(body.job_id)?.status, "needs_review");
+    assertEquals(body.classification_details.review_reasons.map((reason: { code: string }) => reason.code), ["reconciliation"]);
+    assertEquals(body.classification_details.reconciliations[0].suspects[0].item, "day units");
+    assert(body.validation_warnings.includes(warning));
+
+    // With the check off the mismatch is only a warning
+    Deno.env.set("REVIEW_ON_RECONCILIATION", "off");
+    fakes.gateway.respondWith(mismatched);
+    const unchecked = await parse({ file_path: "bills/arithmetic.jpg" });
+    assertEquals(unchecked.body.needs_review, false);
+    assertEquals(paths(fakes), ["/electricity"]);
+    assert(unchecked.body.validation_warnings.includes(warning));
+  }));
+
+Deno.test("field sources are stored with the job and kept out of the dispatched bill", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("bills/electric.png", PNG_BYTES, "image/png");
+    fakes.gateway.respondWith({
+      ...bills({ electricity: [electricityBill()] }),
+      field_sources: [
+        {
+          field: "bills.electricity[0].electricity_details.meter_details.mprn",
+          page: 0,
+          bbox: { x: 0.1, y: 0.2, width: 0.3, height: 0.05 },
+          text: "MPRN 10 305 037 936",
+        },
+        { field: "bills.electricity[0].financial_information.total_due", page: 0, text: "€128.40" },
+        // Not a critical field, so not kept
+        { field: "bills.electricity[0].supplier_details.name", page: 0, text: "Bord Gáis Energy" },
+      ],
+    });
+
+    const { status, body } = await parse({ file_path: "bills/electric.png" });
+
+    assertEquals(status, 200);
+    assertEquals("field_sources" in body.parsed_data, false);
+    assertEquals(body.field_sources.map((source: { field: string }) => source.field), [
+      "bills.electricity[0].electricity_details.meter_details.mprn",
+      "bills.electricity[0].financial_information.total_due",
+    ]);
+    const [mprn, totalDue] = body.field_sources;
+    assertEquals(mprn.page_number, 1);
+    assertEquals(mprn.matches_value, true);
+    assertEquals(totalDue.bbox, null);
+    // The bill says €128.40 where the model returned 182.4
+    assertEquals(totalDue.matches_value, false);
+    assertEquals(fakes.supabase.jobs.get(body.job_id)?.field_sources, body.field_sources);
+  }));
+
+Deno.test("gateway errors fail the parse job without dispatching", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("bills/combined.png", PNG_BYTES, "image/png");
+    fakes.gateway.failWith(429, "rate limited");
+
+    const { status, body } = await parse({ file_path: "bills/combined.png" });
+
+    assertEquals(status, 500);
+    assertEquals(body.code, "rate_limited");
+    assertEquals(body.status, 429);
+    assertEquals(fakes.onebill.requests.length, 0);
+    assertEquals([...fakes.supabase.jobs.values()][0].status, "failed");
+  }));
+
+Deno.test("consensus is only accepted as true, false or a non-empty provider list", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("bills/combined.png", PNG_BYTES, "image/png");
+
+    for (const consensus of [null, 0, "off", "on", [], {}, { providers: [] }, { providers: ["gemini"] }, { providers: "lovable" }]) {
+      const { status, body } = await parse({ file_path: "bills/combined.png", consensus });
+      assertEquals(status, 400, JSON.stringify(consensus));
+      assertEquals(body.providers, ["lovable", "openai", "mock"]);
+    }
+    assertEquals(fakes.gateway.requests.length, 0);
+    assertEquals(fakes.supabase.jobs.size, 0);
+  }));
+
+Deno.test("consensus true or a provider list samples the bill again", () =>
+  withFakes(async (fakes) => {
+    fakes.supabase.addFile("bills/combined.png", PNG_BYTES, "image/png");
+    const bill = bills({ electricity: [electricityBill()], gas: [gasBill()] });
+
+    for (const consensus of [true, { providers: ["lovable"] }]) {
+      fakes.gateway.respondWith(bill);
+      fakes.gateway.respondWith(bill);
+      const { status, body } = await parse({ file_path: "bills/combined.png", consensus });
+
+      assertEquals(status, 200);
+      assertEquals(body.classification_details.consensus.status, "agreed");
+      assertEquals(body.classification_details.consensus.samples.length, 2);
+    }
+    assertEquals(fakes.gateway.requests.length, 4);
+
+    // false turns it off for the request even when VISION_CONSENSUS=on
+    Deno.env.set("VISION_CONSENSUS", "on");
+    fakes.gateway.respondWith(bill);
+    const { body } = await parse({ file_path: "bills/combined.png", consensus: false });
+    assertEquals(body.classification_details.consensus, null);
+    assertEquals(fakes.gateway.requests.length, 5);
+  }));
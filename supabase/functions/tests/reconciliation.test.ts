@@ -0,0 +1,64 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { ElectricityBill, ParsedBill } from "../_shared/bill-schema.ts";
+import { reconcileBill } from "../_shared/reconciliation.ts";
+
+type Charges = NonNullable<ElectricityBill["charges_and_usage"]>;
+
+// 412 day + 96 night kWh over 59 days: €176.63 before VAT, €192.53 at 9%
+const bill = (charges: Partial<Charges> = {}, totalDue = 192.53): ParsedBill => ({
+  bills: {
+    cus_details: [],
+    gas: [],
+    broadband: [],
+    electricity: [{
+      supplier_details: { billing_period: { start_date: "2025-01-12", end_date: "2025-03-11", days_count: 59 } },
+      charges_and_usage: {
+        detailed_kWh_usage: [{ day_kWh: 412, night_kWh: 96 }],
+        unit_rates: { day: 30, night: 15, rate_currency: "cent" },
+        standing_charge: 60,
+        standing_charge_currency: "cent",
+        standing_charge_period: "daily",
+        pso_levy: 3.23,
+        vat_rate: 9,
+        ...charges,
+      },
+      financial_information: { total_due: totalDue },
+    }],
+  },
+});
+
+Deno.test("units x rates + standing charge + PSO levy + VAT rebuilds the billed total", () => {
+  const [result] = reconcileBill(bill());
+
+  assertEquals(result.lines.map((line) => [line.item, line.amount]), [
+    ["day units", 123.6],
+    ["night units", 14.4],
+    ["standing charge", 35.4],
+    ["PSO levy", 3.23],
+  ]);
+  assertEquals([result.expected_total, result.discrepancy, result.status], [192.53, 0, "matched"]);
+});
+
+Deno.test("a misplaced decimal point or an invented credit is named as the likely misread", () => {
+  const decimal = reconcileBill(bill({ detailed_kWh_usage: [{ day_kWh: 4120, night_kWh: 96 }] }))[0];
+  assertEquals(decimal.status, "large_mismatch");
+  assertEquals(decimal.suspects.map((suspect) => suspect.item), ["day units"]);
+  assertEquals(decimal.suspects[0].message, "day units (€1236.00) is 10x too large - decimal point likely misread");
+
+  const credit = reconcileBill(bill({ discounts: 20 }))[0];
+  assertEquals(credit.suspects.map((suspect) => suspect.path), ["bills.electricity[0].charges_and_usage.discounts"]);
+});
+
+Deno.test("without a VAT rate on the bill 9% is assumed and an older rate is suggested", () => {
+  const [result] = reconcileBill(bill({ vat_rate: undefined }, 200.48));
+
+  assertEquals([result.vat_rate, result.vat_rate_assumed, result.status], [9, true, "mismatch"]);
+  assertEquals(result.suspects.map((suspect) => suspect.message), ["total matches VAT at 13.5% rather than 9%"]);
+});
+
+Deno.test("bills missing a rate for a billed band are not reconciled", () => {
+  assertEquals(reconcileBill(bill({ unit_rates: { day: 30, rate_currency: "cent" } })), []);
+  const unbilled = bill();
+  unbilled.bills.electricity[0].financial_information = {};
+  assertEquals(reconcileBill(unbilled), []);
+});
@@ -0,0 +1,58 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import * as XLSX from "npm:xlsx@0.18.5";
+import { findHeaderRow, readSpreadsheet, spreadsheetToText } from "../_shared/spreadsheet.ts";
+
+const csv = (text: string) => new TextEncoder().encode(text);
+
+function xlsx(sheets: Record<string, XLSX.WorkSheet>): Uint8Array {
+  const workbook = XLSX.utils.book_new();
+  for (const [name, sheet] of Object.entries(sheets)) XLSX.utils.book_append_sheet(workbook, sheet, name);
+  return new Uint8Array(XLSX.write(workbook, { type: "array", bookType: "xlsx" }));
+}
+
+Deno.test("the header row is found below a supplier portal preamble", () => {
+  const rows = [
+    ["Customer usage export"],
+    ["Account name", "J Murphy"],
+    ["MPRN", "10305037936"],
+    ["Exported", "2025-03-12"],
+    ["Read Date", "Read Type", "Day kWh", "Night kWh"],
+    ["2025-03-11", "A", "412", "96"],
+  ];
+
+  assertEquals(findHeaderRow(rows), 4);
+});
+
+Deno.test("sheets without a header row are kept as plain data", () => {
+  assertEquals(findHeaderRow([["2025-01-11", "380"], ["2025-02-11", "412"]]), null);
+});
+
+Deno.test("CSV dates are left as printed rather than read month-first", () => {
+  const [sheet] = readSpreadsheet(csv("Read Date,Reading\n12/03/2025,41234\n"), "CSV");
+
+  assertEquals(sheet.header, ["Read Date", "Reading"]);
+  assertEquals(sheet.rows, [["12/03/2025", "41234"]]);
+});
+
+Deno.test("every sheet is read, with merged cells repeated and date cells as ISO dates", () => {
+  const usage = XLSX.utils.aoa_to_sheet([
+    ["Period", "", "Usage"],
+    ["From", "To", "kWh"],
+    [new Date(2025, 0, 12), new Date(2025, 2, 11), 0.1 + 0.2],
+  ], { cellDates: true });
+  usage["!merges"] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: 1 } }];
+  const account = XLSX.utils.aoa_to_sheet([["GPRN", "1234567"]]);
+
+  const text = spreadsheetToText(xlsx({ Usage: usage, Account: account }), "Excel");
+
+  assertEquals(text, [
+    "Sheet: Usage",
+    "Period | Period | Usage",
+    "From | To | kWh",
+    "--- | --- | ---",
+    "2025-01-12 | 2025-03-11 | 0.3",
+    "",
+    "Sheet: Account",
+    "GPRN | 1234567",
+  ].join("\n"));
+});
@@ -0,0 +1,94 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { ElectricityBill, ParsedBill } from "../_shared/bill-schema.ts";
+import { compareTariffs, type Tariff } from "../_shared/tariff-comparison.ts";
+
+const tariff = (fields: Partial<Tariff> & Pick<Tariff, "id" | "supplier" | "plan_name" | "unit_rates">): Tariff => ({
+  utility: "electricity",
+  standing_charge: 250,
+  rural_standing_charge: 320,
+  pso_levy: 0,
+  discount_percentage: 0,
+  discount_months: null,
+  valid_from: "2025-01-01",
+  valid_to: null,
+  ...fields,
+});
+
+const CATALOGUE: Tariff[] = [
+  tariff({ id: "flat", supplier: "Sample Energy", plan_name: "Standard 24hr", unit_rates: { standard: 28 } }),
+  tariff({ id: "flat-old", supplier: "Sample Energy", plan_name: "Standard 24hr", unit_rates: { standard: 20 }, valid_from: "2024-01-01" }),
+  tariff({ id: "flat-next", supplier: "Sample Energy", plan_name: "Standard 24hr", unit_rates: { standard: 35 }, valid_from: "2026-01-01" }),
+  tariff({ id: "saver", supplier: "Sample Power", plan_name: "Saver", unit_rates: { standard: 31 }, discount_percentage: 12, discount_months: 6 }),
+  tariff({ id: "day-night", supplier: "Sample Power", plan_name: "Day/Night", unit_rates: { day: 33, night: 16 } }),
+  tariff({ id: "gas", utility: "gas", supplier: "Sample Power", plan_name: "Gas", unit_rates: { standard: 12 }, standing_charge: 140 }),
+];
+
+// 59 days at 10 kWh/day: 3650 kWh a year
+const electricity = (fields: Partial<ElectricityBill> = {}): ParsedBill => ({
+  bills: {
+    cus_details: [],
+    gas: [],
+    broadband: [],
+    electricity: [{
+      electricity_details: { meter_details: { dg: "DG1" } },
+      supplier_details: { name: "Current Co", billing_period: { start_date: "2025-01-12", end_date: "2025-03-11" } },
+      charges_and_usage: {
+        detailed_kWh_usage: [{ day_kWh: 590 }],
+        unit_rates: { "24_hour_rate": 30, rate_currency: "cent" },
+        standing_charge: 60,
+        standing_charge_currency: "cent",
+        standing_charge_period: "daily",
+      },
+      ...fields,
+    }],
+  },
+});
+
+Deno.test("a 24-hour customer's year is priced on each single-rate plan in force and ranked", () => {
+  const [comparison] = compareTariffs(electricity(), CATALOGUE, "2025-06-01");
+
+  assertEquals([comparison.utility, comparison.usage.bands, comparison.usage.rural], ["electricity", { standard: 3650 }, false]);
+  // 3650 kWh x €0.30 + 365 x €0.60, plus 9% VAT
+  assertEquals(comparison.current?.annual_cost, 1432.26);
+  assertEquals(
+    comparison.options.map((option) => [option.tariff_id, option.annual_cost, option.saving]),
+    [["flat", 1386.48, 45.78], ["saver", 1431.83, 0.43]],
+  );
+  // A day/night plan needs a different meter
+  assertEquals(comparison.unpriced_plans, ["Sample Power - Day/Night"]);
+});
+
+Deno.test("rural day/night customers are priced on time-of-use and single-rate plans with the rural standing charge", () => {
+  const [comparison] = compareTariffs(electricity({
+    electricity_details: { meter_details: { dg: "dg2" } },
+    charges_and_usage: { detailed_kWh_usage: [{ day_kWh: 413, night_kWh: 177 }] },
+  }), CATALOGUE, "2025-06-01");
+
+  assertEquals(comparison.usage.rural, true);
+  assertEquals(comparison.current, null);
+  assertEquals(comparison.options.map((option) => [option.tariff_id, option.standing_charge, option.saving]), [
+    ["day-night", 320, null],
+    ["flat", 320, null],
+    ["saver", 320, null],
+  ]);
+});
+
+Deno.test("gas usage is annualised from kWh consumed and compared with gas plans only", () => {
+  const comparisons = compareTariffs({
+    bills: {
+      cus_details: [],
+      electricity: [],
+      broadband: [],
+      gas: [{
+        supplier_details: { name: "sample power", billing_period: { start_date: "2025-01-01", end_date: "2025-02-28" } },
+        charges_and_usage: { kWh_consumed: 1180, unit_rates: { rate: 0.13, rate_currency: "euro" } },
+      }],
+    },
+  }, CATALOGUE, "2025-06-01");
+
+  assertEquals(comparisons.map((comparison) => comparison.utility), ["gas"]);
+  const [gas] = comparisons;
+  assertEquals(gas.usage.total_kWh, 7300);
+  assertEquals(gas.options.map((option) => [option.tariff_id, option.annual_cost, option.same_supplier]), [["gas", 1107.44, true]]);
+  assertEquals(gas.current?.annual_cost, 1034.41);
+});
@@ -0,0 +1,45 @@
+-- Create table for parse job history
+CREATE TABLE public.parse_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'dispatch_failed', 'failed')),
+  phone TEXT NOT NULL,
+  file_path TEXT,
+  image_url TEXT,
+  input_type TEXT,
+  services TEXT[] NOT NULL DEFAULT '{}',
+  services_detected JSONB,
+  parsed_data JSONB,
+  confidence_score INTEGER,
+  classification_details JSONB,
+  validation_warnings JSONB NOT NULL DEFAULT '[]',
+  api_calls JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  used_conversion BOOLEAN NOT NULL DEFAULT false,
+  visual_input_count INTEGER,
+  ai_duration_ms INTEGER,
+  dispatch_duration_ms INTEGER,
+  total_duration_ms INTEGER,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Indexes for the history filters (status, service, date)
+CREATE INDEX parse_jobs_created_at_idx ON public.parse_jobs (created_at DESC);
+CREATE INDEX parse_jobs_status_idx ON public.parse_jobs (status);
+CREATE INDEX parse_jobs_services_idx ON public.parse_jobs USING GIN (services);
+
+-- Enable RLS
+ALTER TABLE public.parse_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read parse history (jobs are written by the edge function with the service role)
+CREATE POLICY "Parse jobs are viewable by everyone"
+ON public.parse_jobs
+FOR SELECT
+USING (true);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_parse_jobs_updated_at
+BEFORE UPDATE ON public.parse_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
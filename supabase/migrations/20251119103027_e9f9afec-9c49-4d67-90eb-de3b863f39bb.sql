@@ -0,0 +1,20 @@
+-- Turn api_configs.parameters into templates rendered by onebill-vision-parse.
+-- Values may contain {{path}} placeholders resolved against the parsed bill
+-- (e.g. {{electricity.meter_details.mprn}}, {{gas.gprn}}, {{phone}}).
+-- The templates below reproduce the payloads that were previously hardcoded.
+UPDATE public.api_configs
+SET parameters = '{"phone": "{{phone}}", "mprn": "{{electricity.meter_details.mprn}}", "mcc_type": "{{electricity.meter_details.mcc}}", "dg_type": "{{electricity.meter_details.dg}}"}'::jsonb
+WHERE endpoint_url = 'https://api.onebill.ie/api/electricity-file';
+
+UPDATE public.api_configs
+SET parameters = '{"phone": "{{phone}}", "gprn": "{{gas.gprn}}"}'::jsonb
+WHERE endpoint_url = 'https://api.onebill.ie/api/gas-file';
+
+-- Meter photos were dispatched without a config row; add one so the dispatcher can find it
+INSERT INTO public.api_configs (name, endpoint_url, service_type, parameters)
+SELECT 'Meter API', 'https://api.onebill.ie/api/meter-file', 'meter', '{"phone": "{{phone}}"}'::jsonb
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.api_configs WHERE endpoint_url = 'https://api.onebill.ie/api/meter-file'
+);
+
+CREATE INDEX api_configs_service_type_active_idx ON public.api_configs (service_type) WHERE is_active;
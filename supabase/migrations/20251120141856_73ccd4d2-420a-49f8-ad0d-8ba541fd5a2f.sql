@@ -0,0 +1,13 @@
+-- Move identifier normalisation out of the dispatcher and into the parameter templates.
+-- Placeholders now support fallbacks (??) and transforms (| digits(), | prefix('MCC'), ...),
+-- so the raw parsed values are normalised explicitly per field.
+-- Only rows still holding the previous default templates are updated.
+UPDATE public.api_configs
+SET parameters = '{"phone": "{{ phone }}", "mprn": "{{ electricity.meter_details.mprn | digits() }}", "mcc_type": "{{ electricity.meter_details.mcc | trim() | upper() | prefix(''MCC'') }}", "dg_type": "{{ electricity.meter_details.dg | trim() | upper() | prefix(''DG'') }}"}'::jsonb
+WHERE endpoint_url = 'https://api.onebill.ie/api/electricity-file'
+  AND parameters = '{"phone": "{{phone}}", "mprn": "{{electricity.meter_details.mprn}}", "mcc_type": "{{electricity.meter_details.mcc}}", "dg_type": "{{electricity.meter_details.dg}}"}'::jsonb;
+
+UPDATE public.api_configs
+SET parameters = '{"phone": "{{ phone }}", "gprn": "{{ gas.gprn | digits() }}"}'::jsonb
+WHERE endpoint_url = 'https://api.onebill.ie/api/gas-file'
+  AND parameters = '{"phone": "{{phone}}", "gprn": "{{gas.gprn}}"}'::jsonb;
@@ -0,0 +1,52 @@
+-- Create table for batch uploads
+CREATE TABLE public.parse_batches (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  total_files INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.parse_batches ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read batches (written by onebill-batch-worker with the service role)
+CREATE POLICY "Parse batches are viewable by everyone"
+ON public.parse_batches
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_parse_batches_updated_at
+BEFORE UPDATE ON public.parse_batches
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Batch files are queued as parse jobs
+ALTER TABLE public.parse_jobs
+  ADD COLUMN batch_id UUID REFERENCES public.parse_batches(id) ON DELETE CASCADE,
+  ADD COLUMN source_file_name TEXT,
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.parse_jobs DROP CONSTRAINT parse_jobs_status_check;
+ALTER TABLE public.parse_jobs ADD CONSTRAINT parse_jobs_status_check
+  CHECK (status IN ('queued', 'processing', 'completed', 'dispatch_failed', 'failed'));
+
+CREATE INDEX parse_jobs_batch_id_idx ON public.parse_jobs (batch_id, created_at) WHERE batch_id IS NOT NULL;
+
+-- Atomically claim the next queued jobs of a batch for the worker.
+-- SKIP LOCKED lets overlapping worker invocations share a batch without double-processing.
+CREATE OR REPLACE FUNCTION public.claim_parse_jobs(p_batch_id UUID, p_limit INTEGER)
+RETURNS SETOF public.parse_jobs AS $$
+  UPDATE public.parse_jobs
+  SET status = 'processing', attempts = attempts + 1, error = NULL
+  WHERE id IN (
+    SELECT id FROM public.parse_jobs
+    WHERE batch_id = p_batch_id AND status = 'queued'
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_parse_jobs(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
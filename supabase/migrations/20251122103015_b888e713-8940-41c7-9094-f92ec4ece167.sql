@@ -0,0 +1,4 @@
+-- Parses whose routing identifiers the consensus samples disagree on are held for review
+ALTER TABLE public.parse_jobs DROP CONSTRAINT parse_jobs_status_check;
+ALTER TABLE public.parse_jobs ADD CONSTRAINT parse_jobs_status_check
+  CHECK (status IN ('queued', 'processing', 'completed', 'needs_review', 'dispatch_failed', 'failed'));
@@ -0,0 +1,9 @@
+-- Operator decisions on parses held by the review gate
+ALTER TABLE public.parse_jobs
+  ADD COLUMN reviewed_at TIMESTAMPTZ,
+  ADD COLUMN review_decision TEXT CHECK (review_decision IN ('approved', 'rejected')),
+  ADD COLUMN review_note TEXT;
+
+ALTER TABLE public.parse_jobs DROP CONSTRAINT parse_jobs_status_check;
+ALTER TABLE public.parse_jobs ADD CONSTRAINT parse_jobs_status_check
+  CHECK (status IN ('queued', 'processing', 'completed', 'needs_review', 'rejected', 'dispatch_failed', 'failed'));
@@ -0,0 +1,3 @@
+-- Where on the document the model read each critical field (see _shared/field-provenance.ts)
+ALTER TABLE public.parse_jobs
+  ADD COLUMN field_sources JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,3 @@
+-- Half-hourly series from ESB Networks HDF uploads, one entry per MPRN (see _shared/hdf.ts)
+ALTER TABLE public.parse_jobs
+  ADD COLUMN interval_data JSONB;
@@ -0,0 +1,6 @@
+-- Send the meter-photo reading (see _shared/meter-photo.ts) to meter-file, not just the phone.
+-- Only the seeded template is replaced; configs an operator has edited are left alone.
+UPDATE public.api_configs
+SET parameters = '{"phone": "{{phone}}", "utility": "{{meter.utility}}", "read_value": "{{meter.read_value}}", "unit": "{{meter.unit}}", "register": "{{meter.register}}", "serial_number": "{{meter.serial_number}}"}'::jsonb
+WHERE endpoint_url = 'https://api.onebill.ie/api/meter-file'
+  AND parameters = '{"phone": "{{phone}}"}'::jsonb;
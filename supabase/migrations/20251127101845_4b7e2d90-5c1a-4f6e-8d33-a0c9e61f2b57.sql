@@ -0,0 +1,55 @@
+-- Local tariff catalogue for the tariff comparison (see _shared/tariff-comparison.ts).
+-- Prices exclude VAT. A plan's price changes are new rows with a later valid_from;
+-- the comparison uses the latest row per supplier and plan that is already in force.
+CREATE TABLE public.tariffs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  utility TEXT NOT NULL CHECK (utility IN ('electricity', 'gas')),
+  supplier TEXT NOT NULL,
+  plan_name TEXT NOT NULL,
+  -- Cent per kWh by time band: {"standard": 30.5} for 24-hour and gas plans,
+  -- {"day": 32.1, "night": 16.4, "peak": 38.0, "ev": 8.9} for time-of-use plans
+  unit_rates JSONB NOT NULL DEFAULT '{}',
+  -- Euro per year: urban (DG1) and gas supplies, rural (DG2) electricity supplies
+  standing_charge NUMERIC NOT NULL DEFAULT 0,
+  rural_standing_charge NUMERIC,
+  pso_levy NUMERIC NOT NULL DEFAULT 0,
+  -- Off unit rates, for discount_months from switching (NULL = for as long as the plan lasts)
+  discount_percentage NUMERIC NOT NULL DEFAULT 0,
+  discount_months INTEGER,
+  valid_from DATE NOT NULL,
+  valid_to DATE,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX tariffs_utility_idx ON public.tariffs (utility, supplier, plan_name, valid_from DESC) WHERE is_active;
+
+-- Enable RLS
+ALTER TABLE public.tariffs ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read tariffs (the comparison runs in the web app)
+CREATE POLICY "Tariffs are viewable by everyone"
+ON public.tariffs
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Authenticated users can insert tariffs"
+ON public.tariffs
+FOR INSERT
+WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can update tariffs"
+ON public.tariffs
+FOR UPDATE
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can delete tariffs"
+ON public.tariffs
+FOR DELETE
+USING (auth.uid() IS NOT NULL);
+
+CREATE TRIGGER update_tariffs_updated_at
+BEFORE UPDATE ON public.tariffs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
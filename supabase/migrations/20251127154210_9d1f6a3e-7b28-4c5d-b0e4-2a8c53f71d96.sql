@@ -0,0 +1,82 @@
+-- Contract end dates read from dispatched bills, one row per service and premises
+-- (see _shared/contract-reminders.ts)
+CREATE TABLE public.contracts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  service TEXT NOT NULL CHECK (service IN ('electricity', 'gas', 'broadband')),
+  -- MPRN, GPRN, or the broadband account number
+  premises_id TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  supplier TEXT,
+  account_number TEXT,
+  contract_end_date DATE NOT NULL,
+  source_job_id UUID REFERENCES public.parse_jobs(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (service, premises_id)
+);
+
+CREATE INDEX contracts_end_date_idx ON public.contracts (contract_end_date);
+
+-- Reminders raised by the onebill-contract-reminders function and their delivery to the CRM webhook.
+-- One per window and end date, so a renewed contract is reminded again.
+CREATE TABLE public.contract_reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  contract_id UUID NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  contract_end_date DATE NOT NULL,
+  window_days INTEGER NOT NULL,
+  -- The contract.ending event data sent to the webhook
+  payload JSONB NOT NULL,
+  -- 'sending' while a run has claimed it for delivery
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'delivered', 'failed')),
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  delivery_attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (contract_id, contract_end_date, window_days)
+);
+
+CREATE INDEX contract_reminders_undelivered_idx ON public.contract_reminders (created_at) WHERE status <> 'delivered';
+
+-- Enable RLS
+ALTER TABLE public.contracts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.contract_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Allow anyone to read contracts and reminders (written by the edge functions with the service role)
+CREATE POLICY "Contracts are viewable by everyone"
+ON public.contracts
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Contract reminders are viewable by everyone"
+ON public.contract_reminders
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_contracts_updated_at
+BEFORE UPDATE ON public.contracts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Raise and deliver reminders every morning. The project URL and the bearer token the
+-- function checks (its CONTRACT_REMINDERS_SECRET) are read from Vault when the job runs:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<CONTRACT_REMINDERS_SECRET>', 'contract_reminders_secret');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+CREATE EXTENSION IF NOT EXISTS supabase_vault;
+
+SELECT cron.schedule(
+  'onebill-contract-reminders-daily',
+  '0 7 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/onebill-contract-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'contract_reminders_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
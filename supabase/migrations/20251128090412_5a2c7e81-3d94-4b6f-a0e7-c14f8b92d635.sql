@@ -0,0 +1,37 @@
+-- Claim queued jobs across every batch when no batch is given (the scheduled sweep below)
+CREATE OR REPLACE FUNCTION public.claim_parse_jobs(p_batch_id UUID, p_limit INTEGER)
+RETURNS SETOF public.parse_jobs AS $$
+  UPDATE public.parse_jobs
+  SET status = 'processing', attempts = attempts + 1, error = NULL
+  WHERE id IN (
+    SELECT id FROM public.parse_jobs
+    WHERE batch_id IS NOT NULL
+      AND (p_batch_id IS NULL OR batch_id = p_batch_id)
+      AND status = 'queued'
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$ LANGUAGE sql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_parse_jobs(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Work through queued batch jobs every minute, so a batch finishes without the upload page open.
+-- Each run stops claiming after its time budget (see onebill-batch-worker); the project URL is
+-- the same Vault secret the contract reminders job reads.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+CREATE EXTENSION IF NOT EXISTS supabase_vault;
+
+SELECT cron.schedule(
+  'onebill-batch-worker-sweep',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/onebill-batch-worker',
+    headers := jsonb_build_object('Content-Type', 'application/json'),
+    body := '{"action": "process"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,10 @@
+-- Local development data, loaded by `supabase db reset`; never applied to a deployed database.
+
+-- Sample tariffs so the comparison has something to rank; production loads current supplier price lists
+INSERT INTO public.tariffs (utility, supplier, plan_name, unit_rates, standing_charge, rural_standing_charge, pso_levy, discount_percentage, discount_months, valid_from) VALUES
+  ('electricity', 'Sample Energy', 'Standard 24hr', '{"standard": 33.5}', 250, 320, 0, 0, NULL, '2025-10-01'),
+  ('electricity', 'Sample Energy', 'Day/Night', '{"day": 35.2, "night": 17.8}', 275, 345, 0, 0, NULL, '2025-10-01'),
+  ('electricity', 'Sample Power', 'Online Saver', '{"standard": 31.9}', 265, 335, 0, 12, 12, '2025-10-01'),
+  ('electricity', 'Sample Power', 'Smart Time of Use', '{"day": 34.0, "night": 16.9, "peak": 40.1}', 270, 340, 0, 10, 12, '2025-10-01'),
+  ('gas', 'Sample Energy', 'Standard Gas', '{"standard": 12.4}', 130, NULL, 0, 0, NULL, '2025-10-01'),
+  ('gas', 'Sample Power', 'Online Gas Saver', '{"standard": 11.8}', 145, NULL, 0, 10, 12, '2025-10-01');